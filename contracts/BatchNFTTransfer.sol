@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/**
+ * @title BatchNFTTransfer
+ * @notice Move many ERC-721 tokens or ERC-1155 ids in a single transaction
+ * @dev Caller approves this contract once per collection with setApprovalForAll.
+ *      Tokens always move from msg.sender, so an approval cannot be used by anyone else.
+ * @author MonOps
+ */
+contract BatchNFTTransfer is ReentrancyGuard {
+    // Maximum transfers per call
+    uint256 public constant MAX_BATCH_SIZE = 100;
+
+    // Events
+    event BatchTransferred(
+        address indexed sender,
+        uint256 transferCount
+    );
+
+    /**
+     * @notice Transfer ERC-721 tokens across collections and recipients
+     * @param collections Array of ERC-721 collection addresses
+     * @param recipients Array of recipient addresses
+     * @param tokenIds Array of token IDs
+     */
+    function batchTransferERC721(
+        address[] calldata collections,
+        address[] calldata recipients,
+        uint256[] calldata tokenIds
+    ) external nonReentrant {
+        require(
+            collections.length == recipients.length && recipients.length == tokenIds.length,
+            "Array length mismatch"
+        );
+        _validateSize(recipients.length);
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient");
+            IERC721(collections[i]).safeTransferFrom(msg.sender, recipients[i], tokenIds[i]);
+        }
+
+        emit BatchTransferred(msg.sender, recipients.length);
+    }
+
+    /**
+     * @notice Transfer ERC-1155 ids across collections and recipients
+     * @param collections Array of ERC-1155 collection addresses
+     * @param recipients Array of recipient addresses
+     * @param ids Array of token IDs
+     * @param amounts Array of quantities to transfer
+     */
+    function batchTransferERC1155(
+        address[] calldata collections,
+        address[] calldata recipients,
+        uint256[] calldata ids,
+        uint256[] calldata amounts
+    ) external nonReentrant {
+        require(
+            collections.length == recipients.length &&
+                recipients.length == ids.length &&
+                ids.length == amounts.length,
+            "Array length mismatch"
+        );
+        _validateSize(recipients.length);
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient");
+            require(amounts[i] > 0, "Amount must be > 0");
+            IERC1155(collections[i]).safeTransferFrom(msg.sender, recipients[i], ids[i], amounts[i], "");
+        }
+
+        emit BatchTransferred(msg.sender, recipients.length);
+    }
+
+    /**
+     * @dev Shared batch size checks
+     */
+    function _validateSize(uint256 length) private pure {
+        require(length > 0, "Empty batch");
+        require(length <= MAX_BATCH_SIZE, "Batch too large");
+    }
+}
@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/**
+ * @title Disperse
+ * @notice Send MON or ERC-20 tokens to many recipients in a single transaction
+ * @dev Stateless: funds are forwarded directly, nothing is held between calls
+ * @author MonOps
+ */
+contract Disperse is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // Maximum recipients per call
+    uint256 public constant MAX_BATCH_SIZE = 200;
+
+    // Events
+    event EtherDispersed(
+        address indexed sender,
+        uint256 recipientCount,
+        uint256 totalAmount
+    );
+
+    event TokenDispersed(
+        address indexed sender,
+        address indexed token,
+        uint256 recipientCount,
+        uint256 totalAmount
+    );
+
+    /**
+     * @notice Send native MON to multiple recipients
+     * @param recipients Array of recipient addresses
+     * @param values Array of amounts (in wei) to send
+     * @dev msg.value must equal the sum of values exactly
+     */
+    function disperseEther(
+        address[] calldata recipients,
+        uint256[] calldata values
+    ) external payable nonReentrant {
+        _validateBatch(recipients, values);
+
+        uint256 totalAmount = 0;
+        for (uint256 i = 0; i < values.length; i++) {
+            totalAmount += values[i];
+        }
+        require(msg.value == totalAmount, "Incorrect value");
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            (bool success, ) = recipients[i].call{value: values[i]}("");
+            require(success, "Transfer failed");
+        }
+
+        emit EtherDispersed(msg.sender, recipients.length, totalAmount);
+    }
+
+    /**
+     * @notice Send an ERC-20 token to multiple recipients
+     * @param token ERC-20 token address
+     * @param recipients Array of recipient addresses
+     * @param values Array of amounts to send
+     * @dev Caller must approve this contract for the sum of values
+     */
+    function disperseToken(
+        address token,
+        address[] calldata recipients,
+        uint256[] calldata values
+    ) external nonReentrant {
+        require(token != address(0), "Invalid token");
+        _validateBatch(recipients, values);
+
+        uint256 totalAmount = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            IERC20(token).safeTransferFrom(msg.sender, recipients[i], values[i]);
+            totalAmount += values[i];
+        }
+
+        emit TokenDispersed(msg.sender, token, recipients.length, totalAmount);
+    }
+
+    /**
+     * @dev Shared input checks for both disperse variants
+     */
+    function _validateBatch(
+        address[] calldata recipients,
+        uint256[] calldata values
+    ) private pure {
+        require(recipients.length == values.length, "Array length mismatch");
+        require(recipients.length > 0, "Empty batch");
+        require(recipients.length <= MAX_BATCH_SIZE, "Batch too large");
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient");
+            require(values[i] > 0, "Amount must be > 0");
+        }
+    }
+}
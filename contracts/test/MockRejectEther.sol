@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Contract that reverts on any native transfer, for testing failed sends
+contract MockRejectEther {
+    receive() external payable {
+        revert("No ether accepted");
+    }
+}
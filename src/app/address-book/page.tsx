@@ -0,0 +1,335 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PageWrapper, PageHeader, AnimatedCard, EmptyState } from '@/components/ui/page-wrapper';
+import { type AddressBookEntry } from '@/lib/db';
+import { getPlanLimits } from '@/lib/db/plan';
+import { truncateAddress } from '@/lib/utils';
+import {
+  addAddressBookEntry,
+  updateAddressBookEntry,
+  deleteAddressBookEntry,
+  getAddressBook,
+  isAddressBookError,
+  exportAddressBookCSV,
+  importAddressBookCSV,
+} from '@/features/address-book';
+import { BookUser, Plus, Download, Upload, Pencil, Trash2, Check, X, Search } from 'lucide-react';
+
+interface EntryDraft {
+  label: string;
+  tags: string;
+  notes: string;
+}
+
+export default function AddressBookPage() {
+  const { address } = useAccount();
+  const limits = getPlanLimits(address);
+  const entries = useLiveQuery(() => getAddressBook()) ?? [];
+
+  const [newAddress, setNewAddress] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [newNotes, setNewNotes] = useState('');
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<EntryDraft>({ label: '', tags: '', notes: '' });
+
+  const allTags = Array.from(new Set(entries.flatMap((e) => e.tags))).sort();
+  const q = query.trim().toLowerCase();
+  const visible = entries.filter(
+    (e) =>
+      (!tagFilter || e.tags.includes(tagFilter)) &&
+      (!q || e.label.toLowerCase().includes(q) || e.address.includes(q) || e.notes?.toLowerCase().includes(q))
+  );
+
+  const handleAdd = async () => {
+    const result = await addAddressBookEntry(
+      { address: newAddress.trim(), label: newLabel, tags: newTags.split(','), notes: newNotes },
+      address
+    );
+    if (isAddressBookError(result)) {
+      toast.error(result.message);
+      return;
+    }
+    toast.success(`Saved ${result.label}`);
+    setNewAddress('');
+    setNewLabel('');
+    setNewTags('');
+    setNewNotes('');
+  };
+
+  const startEdit = (entry: AddressBookEntry) => {
+    setEditingId(entry.id!);
+    setDraft({ label: entry.label, tags: entry.tags.join(', '), notes: entry.notes ?? '' });
+  };
+
+  const saveEdit = async () => {
+    if (editingId === null) return;
+    const result = await updateAddressBookEntry(editingId, {
+      label: draft.label,
+      tags: draft.tags.split(','),
+      notes: draft.notes,
+    });
+    if (isAddressBookError(result)) {
+      toast.error(result.message);
+      return;
+    }
+    setEditingId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await importAddressBookCSV(await file.text(), address);
+    const summary = `${result.added} added, ${result.updated} updated`;
+    if (result.errors.length > 0) {
+      toast.warning(`${summary}, ${result.errors.length} skipped`, {
+        description: result.errors.slice(0, 3).map((err) => `Row ${err.row}: ${err.message}`).join('\n'),
+      });
+    } else {
+      toast.success(summary);
+    }
+  };
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="Address Book"
+        description="Labels, tags and notes for the addresses you send to"
+        icon={<BookUser className="h-6 w-6 md:h-8 md:w-8 text-purple-500" />}
+        action={
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm" className="border-white/[0.1] bg-white/[0.02]">
+              <label className="cursor-pointer">
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+                <input type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+              </label>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-white/[0.1] bg-white/[0.02]"
+              disabled={entries.length === 0}
+              onClick={() => exportAddressBookCSV(entries)}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        }
+      />
+
+      {/* Add Entry */}
+      <AnimatedCard delay={0.1} hover={false}>
+        <div className="p-5 md:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">Add Address</h3>
+            <Badge variant="secondary" className="bg-white/[0.05]">
+              {entries.length} / {limits.maxAddressBookEntries}
+            </Badge>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-white/70">Address</Label>
+              <Input
+                placeholder="0x..."
+                value={newAddress}
+                onChange={(e) => setNewAddress(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08] font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/70">Label</Label>
+              <Input
+                placeholder="Treasury"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/70">Tags</Label>
+              <Input
+                placeholder="team, payroll"
+                value={newTags}
+                onChange={(e) => setNewTags(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/70">Notes</Label>
+              <Input
+                placeholder="Optional"
+                value={newNotes}
+                onChange={(e) => setNewNotes(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08]"
+              />
+            </div>
+          </div>
+          <Button onClick={handleAdd} disabled={!newAddress || !newLabel}>
+            <Plus className="mr-2 h-4 w-4" />
+            Save Address
+          </Button>
+        </div>
+      </AnimatedCard>
+
+      {/* Entries */}
+      {entries.length === 0 ? (
+        <EmptyState
+          icon={<BookUser className="h-8 w-8 text-white/20" />}
+          title="No saved addresses"
+          description="Saved labels show up in recipient autocomplete and in place of raw addresses"
+        />
+      ) : (
+        <AnimatedCard delay={0.15} hover={false}>
+          <div className="p-5 md:p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                <Input
+                  placeholder="Search labels, addresses, notes"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="pl-9 bg-white/[0.03] border-white/[0.08]"
+                />
+              </div>
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {allTags.map((tag) => (
+                    <Badge
+                      key={tag}
+                      variant={tagFilter === tag ? 'default' : 'secondary'}
+                      className="cursor-pointer"
+                      onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                    >
+                      #{tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>First Seen</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((entry) =>
+                  editingId === entry.id ? (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <Input
+                          value={draft.label}
+                          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-sm">{truncateAddress(entry.address, 6)}</code>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.tags}
+                          onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell colSpan={3}>
+                        <Input
+                          value={draft.notes}
+                          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button size="sm" variant="ghost" onClick={saveEdit} aria-label="Save">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} aria-label="Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.label}</TableCell>
+                      <TableCell>
+                        <a
+                          href={`https://monadvision.com/address/${entry.address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-purple-500 hover:text-purple-400 font-mono"
+                        >
+                          {truncateAddress(entry.address, 6)}
+                        </a>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {entry.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              #{tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate" title={entry.notes}>
+                        {entry.notes || '—'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(entry.firstSeenAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {entry.lastUsedAt ? new Date(entry.lastUsedAt).toLocaleDateString() : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button size="sm" variant="ghost" onClick={() => startEdit(entry)} aria-label="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteAddressBookEntry(entry.id!)}
+                          aria-label="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </AnimatedCard>
+      )}
+    </PageWrapper>
+  );
+}
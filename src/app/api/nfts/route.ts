@@ -98,7 +98,7 @@ export async function GET(request: NextRequest) {
       };
 
       // Group by collection
-      const grouped: Record<string, { name: string; symbol: string; logo?: string; nfts: Array<{ tokenId: string; name?: string; image?: string }> }> = {};
+      const grouped: Record<string, { name: string; symbol: string; type: 'ERC721' | 'ERC1155'; logo?: string; nfts: Array<{ tokenId: string; amount: string; name?: string; image?: string }> }> = {};
 
       for (const nft of allNFTs) {
         const key = nft.token_address.toLowerCase();
@@ -106,12 +106,14 @@ export async function GET(request: NextRequest) {
           grouped[key] = {
             name: nft.name || 'Unknown Collection',
             symbol: nft.symbol || '???',
+            type: nft.contract_type?.toUpperCase() === 'ERC1155' ? 'ERC1155' : 'ERC721',
             logo: (nft as unknown as { collection_logo?: string }).collection_logo,
             nfts: [],
           };
         }
         grouped[key].nfts.push({
           tokenId: nft.token_id,
+          amount: nft.amount || '1', // ERC-1155 balance; always 1 for ERC-721
           name: nft.normalized_metadata?.name,
           image: toGatewayUrl(nft.normalized_metadata?.image) || (nft as unknown as { collection_logo?: string }).collection_logo,
         });
@@ -124,6 +126,7 @@ export async function GET(request: NextRequest) {
           address,
           name: data.name,
           symbol: data.symbol,
+          type: data.type,
           holdings: data.nfts,
         })),
       });
@@ -236,7 +239,7 @@ export async function GET(request: NextRequest) {
     isDev && console.log(`[NFT API] Etherscan current holdings: ${nfts.length}`);
 
     // Group by collection
-    const grouped: Record<string, { name: string; symbol: string; nfts: Array<{ tokenId: string }> }> = {};
+    const grouped: Record<string, { name: string; symbol: string; nfts: Array<{ tokenId: string; amount: string }> }> = {};
 
     for (const nft of nfts) {
       const key = nft.contractAddress.toLowerCase();
@@ -247,7 +250,7 @@ export async function GET(request: NextRequest) {
           nfts: [],
         };
       }
-      grouped[key].nfts.push({ tokenId: nft.tokenId });
+      grouped[key].nfts.push({ tokenId: nft.tokenId, amount: '1' });
     }
 
     return NextResponse.json({
@@ -259,6 +262,7 @@ export async function GET(request: NextRequest) {
         address,
         name: data.name,
         symbol: data.symbol,
+        type: 'ERC721', // tokennfttx only reports ERC-721 transfers
         holdings: data.nfts,
       })),
     });
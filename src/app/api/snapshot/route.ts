@@ -1,19 +1,55 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { type Address, parseAbi } from 'viem';
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  parseAbi,
+  parseAbiItem,
+} from 'viem';
 import { createServerClient } from '@/lib/chain/client';
 import { rateLimit, getClientIp } from '@/lib/rate-limit';
-import { isValidAddress } from '@/lib/utils';
+import { isValidAddress, chunk } from '@/lib/utils';
+import { scanLogs, type BlockRange, type LogScanProgress } from '@/lib/scanner/log-scanner';
+import { findBlockByTimestamp, searchDeployBlock } from '@/lib/scanner/block-search';
+import { scanMints } from '@/lib/scanner/mint-scanner';
+import { INTERFACE_IDS } from '@/lib/chain/abis';
 
 const isDev = process.env.NODE_ENV === 'development';
 const client = createServerClient();
 
+// Signs cursors so a follow-up request can prove it continues a snapshot this server
+// started. Required: without it the route refuses to build snapshots.
+const CURSOR_SECRET = process.env.SNAPSHOT_CURSOR_SECRET;
+const MISSING_SECRET_ERROR = 'Snapshots are disabled: SNAPSHOT_CURSOR_SECRET is not set on the server';
+
 // ERC-721 ABI for reading owner data
 const ERC721_ABI = parseAbi([
   'function totalSupply() view returns (uint256)',
   'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenByIndex(uint256 index) view returns (uint256)',
   'function name() view returns (string)',
 ]);
 
+const ERC165_ABI = parseAbi([
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+]);
+
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+);
+
+const TRANSFER_SINGLE_EVENT = parseAbiItem(
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)'
+);
+
+const TRANSFER_BATCH_EVENT = parseAbiItem(
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)'
+);
+
+// How ownership at the snapshot block is read
+type SnapshotMethod = 'call' | 'logs';
+
 // Zero addresses to exclude
 const ZERO_ADDRESSES = [
   '0x0000000000000000000000000000000000000000',
@@ -24,142 +60,785 @@ async function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export async function GET(request: NextRequest) {
-  const { limited, retryAfterMs } = rateLimit('snapshot', getClientIp(request), { windowMs: 60_000, maxRequests: 3 });
-  if (limited) {
-    return NextResponse.json(
-      { error: 'Too many requests. Please try again later.' },
-      { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
-    );
-  }
+interface OwnershipResult {
+  holdingsMap: Map<string, string[]>; // address -> tokenIds
+  scannedTokens: number;
+  failedTokens: number; // RPC errors; the owner is unknown
+  burnedTokens: number; // ownerOf reverted: burned or never minted at the snapshot block
+  failedRanges: BlockRange[];
+}
 
-  const searchParams = request.nextUrl.searchParams;
-  const collectionAddress = searchParams.get('collection');
+// Token ids handled per request; the client follows `nextCursor` until it is null
+const CHUNK_TOKENS = 500;
+// ownerOf / tokenByIndex calls in flight at once
+const CALL_BATCH_SIZE = 50;
+// Blocks of mint logs scanned per step when token ids come from mint logs
+const MINT_SEGMENT_BLOCKS = 200_000n;
+// A stream ends with a `continue` event after this many chunks or this long; the client
+// reconnects with its cursor, so no request holds a connection open indefinitely
+const STREAM_MAX_CHUNKS = 20;
+const STREAM_BUDGET_MS = 60_000;
 
-  if (!collectionAddress || !isValidAddress(collectionAddress)) {
-    return NextResponse.json({ error: 'Valid collection address is required' }, { status: 400 });
-  }
+// Where the next chunk starts: an ERC721Enumerable index, or a position in the mint logs
+// (`logIndex` set when the previous chunk stopped inside block `next`)
+type SnapshotCursor =
+  | { kind: 'index'; next: number }
+  | { kind: 'block'; next: bigint; logIndex?: number; deployBlock: bigint };
 
-  isDev && console.log('[Snapshot API] Building snapshot for', collectionAddress);
+interface ChunkProgress {
+  processed: number;
+  total: number;
+  unit: 'tokens' | 'blocks';
+}
 
-  try {
-    // First, get totalSupply to know how many tokens exist
-    let totalSupply: number;
-    let collectionName = 'Unknown';
+interface ChunkResult extends OwnershipResult {
+  nextCursor: SnapshotCursor | null;
+  progress: ChunkProgress;
+}
 
-    try {
-      const [supply, name] = await Promise.all([
-        client.readContract({
-          address: collectionAddress as Address,
-          abi: ERC721_ABI,
-          functionName: 'totalSupply',
-        }),
-        client.readContract({
-          address: collectionAddress as Address,
-          abi: ERC721_ABI,
-          functionName: 'name',
-        }).catch(() => 'Unknown'),
-      ]);
-      totalSupply = Number(supply);
-      collectionName = name as string;
-      isDev && console.log(`[Snapshot API] Collection: ${collectionName}, Total Supply: ${totalSupply}`);
-    } catch (error) {
-      console.error('[Snapshot API] Failed to get totalSupply:', error);
-      return NextResponse.json(
-        { error: 'Failed to read collection data. Is this a valid ERC-721 contract?' },
-        { status: 400 }
-      );
-    }
+// Hooks for a streamed snapshot (`stream=1`)
+interface SnapshotRunOptions {
+  onProgress?: (progress: ChunkProgress) => void; // Log scans inside a chunk or replay
+  signal?: AbortSignal; // Aborted when the client cancels or disconnects
+}
 
-    if (totalSupply === 0) {
-      return NextResponse.json({
-        collection: collectionAddress,
-        name: collectionName,
-        totalHolders: 0,
-        totalSupply: 0,
-        holders: [],
-      });
-    }
+/**
+ * Log scan progress as blocks done since `baseBlock`, for scans that are one part of a longer span
+ */
+function reportBlocks(
+  options: SnapshotRunOptions,
+  baseBlock: bigint,
+  totalBlocks: bigint
+): ((progress: LogScanProgress) => void) | undefined {
+  const { onProgress } = options;
+  if (!onProgress) return undefined;
+  return ({ scannedBlocks }) =>
+    onProgress({ processed: Number(baseBlock + scannedBlocks), total: Number(totalBlocks), unit: 'blocks' });
+}
 
-    // Query ownerOf for each token
-    // Use batching to avoid overwhelming the RPC
-    const holdingsMap = new Map<string, string[]>(); // address -> tokenIds
-    const batchSize = 50; // Query 50 tokens at a time
-    const maxTokens = Math.min(totalSupply, 10000); // Cap at 10k tokens for performance
-    let processedTokens = 0;
-    let failedTokens = 0;
+function signCursor(collectionAddress: string, blockNumber: bigint | string, body: string): Buffer {
+  if (!CURSOR_SECRET) throw new Error(MISSING_SECRET_ERROR);
+  return createHmac('sha256', CURSOR_SECRET)
+    .update(`${collectionAddress.toLowerCase()}:${blockNumber}:${body}`)
+    .digest();
+}
 
-    isDev && console.log(`[Snapshot API] Querying owners for ${maxTokens} tokens...`);
+/**
+ * Encode a cursor with a signature binding it to the collection and snapshot block
+ */
+function encodeCursor(collectionAddress: string, blockNumber: bigint, cursor: SnapshotCursor): string {
+  const body = cursor.kind === 'index'
+    ? `index:${cursor.next}`
+    : `block:${cursor.next}:${cursor.deployBlock}${cursor.logIndex !== undefined ? `:${cursor.logIndex}` : ''}`;
+  return `${body}.${signCursor(collectionAddress, blockNumber, body).toString('base64url')}`;
+}
 
-    for (let startId = 1; startId <= maxTokens; startId += batchSize) {
-      const endId = Math.min(startId + batchSize - 1, maxTokens);
-      const tokenIds = Array.from({ length: endId - startId + 1 }, (_, i) => startId + i);
+/**
+ * Parse a cursor from `encodeCursor`; null when it is malformed or was not issued
+ * for this collection and block
+ */
+function parseCursor(value: string, collectionAddress: string, blockNumber: bigint | string): SnapshotCursor | null {
+  const dot = value.lastIndexOf('.');
+  if (dot === -1) return null;
+  const body = value.slice(0, dot);
+  const signature = Buffer.from(value.slice(dot + 1), 'base64url');
+  const expected = signCursor(collectionAddress, blockNumber, body);
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null;
 
-      // Batch query owners
-      const ownerPromises = tokenIds.map(async (tokenId) => {
+  const index = /^index:(\d+)$/.exec(body);
+  if (index) return { kind: 'index', next: Number(index[1]) };
+  const block = /^block:(\d+):(\d+)(?::(\d+))?$/.exec(body);
+  if (block) {
+    return {
+      kind: 'block',
+      next: BigInt(block[1]),
+      logIndex: block[3] !== undefined ? Number(block[3]) : undefined,
+      deployBlock: BigInt(block[2]),
+    };
+  }
+  return null;
+}
+
+function addHolding(holdingsMap: Map<string, string[]>, owner: string, tokenId: string) {
+  if (ZERO_ADDRESSES.includes(owner)) return;
+  if (!holdingsMap.has(owner)) {
+    holdingsMap.set(owner, []);
+  }
+  holdingsMap.get(owner)!.push(tokenId);
+}
+
+function isRevert(error: unknown): boolean {
+  return error instanceof BaseError && !!error.walk((e) => e instanceof ContractFunctionRevertedError);
+}
+
+/**
+ * Owners via `ownerOf` at the snapshot block. Needs historical state for past blocks.
+ */
+async function ownersOf(
+  collectionAddress: Address,
+  tokenIds: bigint[],
+  blockNumber: bigint
+): Promise<OwnershipResult> {
+  const holdingsMap = new Map<string, string[]>();
+  let failedTokens = 0;
+  let burnedTokens = 0;
+
+  for (const batch of chunk(tokenIds, CALL_BATCH_SIZE)) {
+    const results = await Promise.all(
+      batch.map(async (tokenId) => {
         try {
           const owner = await client.readContract({
-            address: collectionAddress as Address,
+            address: collectionAddress,
             abi: ERC721_ABI,
             functionName: 'ownerOf',
-            args: [BigInt(tokenId)],
+            args: [tokenId],
+            blockNumber,
           });
-          return { tokenId: tokenId.toString(), owner: (owner as string).toLowerCase(), failed: false as const };
-        } catch {
-          // Could be burned/non-existent token OR an RPC error — caller must check failedTokens
-          return { tokenId: tokenId.toString(), owner: null, failed: true as const };
+          return { tokenId: tokenId.toString(), owner: owner.toLowerCase(), burned: false };
+        } catch (error) {
+          // A revert means the token doesn't exist at this block; anything else is an RPC error
+          return { tokenId: tokenId.toString(), owner: null, burned: isRevert(error) };
         }
+      })
+    );
+
+    for (const result of results) {
+      if (result.owner) {
+        addHolding(holdingsMap, result.owner, result.tokenId);
+      } else if (result.burned) {
+        burnedTokens++;
+      } else {
+        failedTokens++;
+      }
+    }
+
+    // Rate limit
+    await sleep(100);
+  }
+
+  return { holdingsMap, scannedTokens: tokenIds.length, failedTokens, burnedTokens, failedRanges: [] };
+}
+
+/**
+ * Next chunk of an ERC721Enumerable collection: ids from `tokenByIndex`, then their owners
+ */
+async function chunkByIndex(
+  collectionAddress: Address,
+  start: number,
+  totalSupply: number,
+  blockNumber: bigint
+): Promise<ChunkResult> {
+  const end = Math.min(start + CHUNK_TOKENS, totalSupply);
+  const indexes = Array.from({ length: end - start }, (_, i) => BigInt(start + i));
+  const tokenIds: bigint[] = [];
+  let failedIndexes = 0;
+
+  for (const batch of chunk(indexes, CALL_BATCH_SIZE)) {
+    const ids = await Promise.all(
+      batch.map((index) =>
+        client
+          .readContract({
+            address: collectionAddress,
+            abi: ERC721_ABI,
+            functionName: 'tokenByIndex',
+            args: [index],
+            blockNumber,
+          })
+          .catch(() => null)
+      )
+    );
+    for (const id of ids) {
+      if (id === null) failedIndexes++;
+      else tokenIds.push(id);
+    }
+  }
+
+  const ownership = await ownersOf(collectionAddress, tokenIds, blockNumber);
+  return {
+    ...ownership,
+    scannedTokens: end - start,
+    failedTokens: ownership.failedTokens + failedIndexes,
+    nextCursor: end < totalSupply ? { kind: 'index', next: end } : null,
+    progress: { processed: end, total: totalSupply, unit: 'tokens' },
+  };
+}
+
+/**
+ * Next chunk of a collection without enumeration: up to CHUNK_TOKENS ids minted after
+ * the cursor (Transfer from the zero address), then their owners at the snapshot block.
+ * Handles ids starting at 0, sparse or huge ids and collections without totalSupply.
+ */
+async function chunkByMints(
+  collectionAddress: Address,
+  cursor: Extract<SnapshotCursor, { kind: 'block' }>,
+  blockNumber: bigint,
+  options: SnapshotRunOptions
+): Promise<ChunkResult> {
+  const totalBlocks = blockNumber - cursor.deployBlock + 1n;
+  const mints = await scanMints(client, collectionAddress, {
+    from: { block: cursor.next, logIndex: cursor.logIndex },
+    toBlock: blockNumber,
+    maxTokens: CHUNK_TOKENS,
+    segmentBlocks: MINT_SEGMENT_BLOCKS,
+    onProgress: reportBlocks(options, cursor.next - cursor.deployBlock, totalBlocks),
+    signal: options.signal,
+  });
+
+  const ownership = await ownersOf(collectionAddress, mints.tokenIds, blockNumber);
+  const next = mints.next;
+  return {
+    ...ownership,
+    failedRanges: mints.failedRanges,
+    nextCursor: next ? { kind: 'block', next: next.block, logIndex: next.logIndex, deployBlock: cursor.deployBlock } : null,
+    progress: {
+      processed: Number((next?.block ?? blockNumber + 1n) - cursor.deployBlock),
+      total: Number(totalBlocks),
+      unit: 'blocks',
+    },
+  };
+}
+
+async function processChunk(
+  collectionAddress: Address,
+  cursor: SnapshotCursor,
+  blockNumber: bigint,
+  options: SnapshotRunOptions,
+  totalSupply?: number
+): Promise<ChunkResult> {
+  if (cursor.kind === 'block') return chunkByMints(collectionAddress, cursor, blockNumber, options);
+
+  const supply = totalSupply ?? Number(await client.readContract({
+    address: collectionAddress,
+    abi: ERC721_ABI,
+    functionName: 'totalSupply',
+    blockNumber,
+  }));
+  return chunkByIndex(collectionAddress, cursor.next, supply, blockNumber);
+}
+
+function toHolders(holdingsMap: Map<string, string[]>) {
+  return Array.from(holdingsMap.entries())
+    .map(([address, tokenIds]) => ({
+      address,
+      count: tokenIds.length,
+      tokenIds,
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Owners by replaying Transfer logs from the deploy block up to the snapshot block.
+ * Works without historical state; block ranges that fail are reported.
+ */
+async function ownersByLogs(
+  collectionAddress: Address,
+  blockNumber: bigint,
+  options: SnapshotRunOptions
+): Promise<OwnershipResult> {
+  const deployBlock = await searchDeployBlock(client, collectionAddress, blockNumber);
+
+  isDev && console.log(`[Snapshot API] Replaying transfers from block ${deployBlock} to ${blockNumber}...`);
+
+  const { items, failedRanges } = await scanLogs({
+    fromBlock: deployBlock,
+    toBlock: blockNumber,
+    fetchRange: async (fromBlock, toBlock) => {
+      const logs = await client.getLogs({
+        address: collectionAddress,
+        event: TRANSFER_EVENT,
+        fromBlock,
+        toBlock,
       });
+      return logs
+        .filter((log) => log.args.to && log.args.tokenId !== undefined)
+        .map((log) => ({
+          tokenId: log.args.tokenId!.toString(),
+          to: log.args.to!.toLowerCase(),
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+        }));
+    },
+    onProgress: reportBlocks(options, 0n, blockNumber - deployBlock + 1n),
+    signal: options.signal,
+  });
 
-      const results = await Promise.all(ownerPromises);
+  // Last transfer of each token wins
+  items.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+  );
+  const owners = new Map<string, string>();
+  for (const transfer of items) {
+    owners.set(transfer.tokenId, transfer.to);
+  }
 
-      for (const result of results) {
-        if (result.failed) {
-          failedTokens++;
-          continue;
-        }
-        if (result.owner && !ZERO_ADDRESSES.includes(result.owner)) {
-          if (!holdingsMap.has(result.owner)) {
-            holdingsMap.set(result.owner, []);
-          }
-          holdingsMap.get(result.owner)!.push(result.tokenId);
-        }
-      }
+  const holdingsMap = new Map<string, string[]>();
+  for (const [tokenId, owner] of owners) {
+    addHolding(holdingsMap, owner, tokenId);
+  }
+
+  return { holdingsMap, scannedTokens: owners.size, failedTokens: 0, burnedTokens: 0, failedRanges };
+}
+
+// Bad snapshot parameters or a collection that can't be read, answered with a 400
+class SnapshotParamError extends Error {}
 
-      processedTokens = endId;
+interface ERC1155Movement {
+  id: string;
+  from: string;
+  to: string;
+  value: bigint;
+}
 
-      // Progress logging every 500 tokens
-      if (processedTokens % 500 === 0 || processedTokens === maxTokens) {
-        const progress = Math.round((processedTokens / maxTokens) * 100);
-        isDev && console.log(`[Snapshot API] Progress: ${progress}% (${processedTokens}/${maxTokens} tokens)`);
+async function isERC1155(collectionAddress: Address): Promise<boolean> {
+  return client
+    .readContract({
+      address: collectionAddress,
+      abi: ERC165_ABI,
+      functionName: 'supportsInterface',
+      args: [INTERFACE_IDS.ERC1155],
+    })
+    .catch(() => false);
+}
+
+/**
+ * Per-holder, per-id balances of an ERC-1155 collection at the snapshot block, by
+ * replaying TransferSingle/TransferBatch logs from the deploy block. There is no
+ * enumerable owner lookup for ERC-1155, so this is the only method.
+ */
+async function balancesByLogs(
+  collectionAddress: Address,
+  blockNumber: bigint,
+  options: SnapshotRunOptions
+): Promise<{ balances: Map<string, Map<string, bigint>>; failedRanges: BlockRange[] }> {
+  const deployBlock = await searchDeployBlock(client, collectionAddress, blockNumber);
+
+  isDev && console.log(`[Snapshot API] Replaying ERC-1155 transfers from block ${deployBlock} to ${blockNumber}...`);
+
+  const { items, failedRanges } = await scanLogs<ERC1155Movement>({
+    fromBlock: deployBlock,
+    toBlock: blockNumber,
+    fetchRange: async (fromBlock, toBlock) => {
+      const [singleLogs, batchLogs] = await Promise.all([
+        client.getLogs({ address: collectionAddress, event: TRANSFER_SINGLE_EVENT, fromBlock, toBlock }),
+        client.getLogs({ address: collectionAddress, event: TRANSFER_BATCH_EVENT, fromBlock, toBlock }),
+      ]);
+
+      const movements: ERC1155Movement[] = [];
+      for (const log of singleLogs) {
+        const { from, to, id, value } = log.args;
+        if (!from || !to || id === undefined || value === undefined) continue;
+        movements.push({
+          id: id.toString(),
+          from: from.toLowerCase(),
+          to: to.toLowerCase(),
+          value,
+        });
       }
+      for (const log of batchLogs) {
+        const { from, to, ids, values } = log.args;
+        if (!from || !to || !ids || !values) continue;
+        ids.forEach((id, i) => {
+          movements.push({
+            id: id.toString(),
+            from: from.toLowerCase(),
+            to: to.toLowerCase(),
+            value: values[i],
+          });
+        });
+      }
+      return movements;
+    },
+    onProgress: reportBlocks(options, 0n, blockNumber - deployBlock + 1n),
+    signal: options.signal,
+  });
 
-      // Rate limit
-      await sleep(100);
+  const balances = new Map<string, Map<string, bigint>>(); // holder -> id -> balance
+  const adjust = (holder: string, id: string, delta: bigint) => {
+    if (!balances.has(holder)) balances.set(holder, new Map());
+    const holderBalances = balances.get(holder)!;
+    holderBalances.set(id, (holderBalances.get(id) ?? 0n) + delta);
+  };
+  for (const movement of items) {
+    adjust(movement.from, movement.id, -movement.value);
+    adjust(movement.to, movement.id, movement.value);
+  }
+
+  // Drop mint/burn addresses and emptied balances
+  for (const [holder, holderBalances] of balances) {
+    for (const [id, balance] of holderBalances) {
+      if (balance <= 0n) holderBalances.delete(id);
     }
+    if (ZERO_ADDRESSES.includes(holder) || holderBalances.size === 0) balances.delete(holder);
+  }
 
-    // Convert to output format
-    const holders = Array.from(holdingsMap.entries())
-      .map(([address, tokenIds]) => ({
-        address,
-        count: tokenIds.length,
-        tokenIds,
-      }))
+  return { balances, failedRanges };
+}
+
+/**
+ * Snapshot block from `blockNumber` or `timestamp` (unix seconds); the head when neither is set
+ */
+async function resolveSnapshotBlock(searchParams: URLSearchParams): Promise<bigint> {
+  const blockParam = searchParams.get('blockNumber');
+  const timestampParam = searchParams.get('timestamp');
+  const head = await client.getBlockNumber();
+
+  if (blockParam) {
+    if (!/^\d+$/.test(blockParam)) throw new SnapshotParamError('blockNumber must be a whole number');
+    const blockNumber = BigInt(blockParam);
+    if (blockNumber > head) throw new SnapshotParamError(`Block ${blockNumber} is not mined yet (head is ${head})`);
+    return blockNumber;
+  }
+  if (timestampParam) {
+    if (!/^\d+$/.test(timestampParam)) throw new SnapshotParamError('timestamp must be unix seconds');
+    return findBlockByTimestamp(client, Number(timestampParam));
+  }
+  return head;
+}
+
+function chunkResponse(collectionAddress: Address, blockNumber: bigint, result: ChunkResult) {
+  const { holdingsMap, scannedTokens, failedTokens, burnedTokens, failedRanges, nextCursor, progress } = result;
+  const holders = toHolders(holdingsMap);
+
+  isDev && console.log(`[Snapshot API] Chunk: ${progress.processed}/${progress.total} ${progress.unit}, ${holders.length} holders, ${failedTokens} failed queries`);
+
+  return {
+    totalHolders: holders.length,
+    scannedTokens,
+    failedTokens,
+    burnedTokens,
+    failedRanges: failedRanges.length,
+    incomplete: failedTokens > 0 || failedRanges.length > 0,
+    holders,
+    progress,
+    nextCursor: nextCursor ? encodeCursor(collectionAddress, blockNumber, nextCursor) : null,
+  };
+}
+
+// Response body of one request, or one `chunk` event of a stream
+type SnapshotChunk = Record<string, unknown> & { nextCursor?: string | null };
+
+/**
+ * Continue a chunked ERC-721 snapshot; everything else was settled by the first chunk
+ */
+async function nextChunk(
+  collectionAddress: Address,
+  cursor: SnapshotCursor,
+  blockNumber: bigint,
+  options: SnapshotRunOptions
+): Promise<SnapshotChunk> {
+  const result = await processChunk(collectionAddress, cursor, blockNumber, options);
+  return {
+    collection: collectionAddress,
+    standard: 'ERC721',
+    blockNumber: blockNumber.toString(),
+    method: 'call' satisfies SnapshotMethod,
+    ...chunkResponse(collectionAddress, blockNumber, result),
+  };
+}
+
+/**
+ * First chunk of a snapshot: detects the standard and ownership method, then either
+ * answers in one go (ERC-1155, log replay) or returns a cursor for the rest
+ */
+async function firstChunk(
+  collectionAddress: Address,
+  blockNumber: bigint,
+  methodParam: string | null,
+  options: SnapshotRunOptions
+): Promise<SnapshotChunk> {
+  const block = await client.getBlock({ blockNumber });
+  if (await isERC1155(collectionAddress)) {
+    if (methodParam === 'call') {
+      throw new SnapshotParamError('ERC-1155 snapshots replay transfer logs; method "call" is not supported');
+    }
+
+    const [name, { balances, failedRanges }] = await Promise.all([
+      client.readContract({
+        address: collectionAddress,
+        abi: ERC721_ABI,
+        functionName: 'name',
+      }).catch(() => 'Unknown'),
+      balancesByLogs(collectionAddress, blockNumber, options),
+    ]);
+
+    const holders = Array.from(balances.entries())
+      .map(([address, holderBalances]) => {
+        const tokenIds = Array.from(holderBalances.keys()).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+        const total = Array.from(holderBalances.values()).reduce((sum, balance) => sum + balance, 0n);
+        return {
+          address,
+          count: Number(total),
+          tokenIds,
+          quantities: Object.fromEntries(tokenIds.map((id) => [id, holderBalances.get(id)!.toString()])),
+        };
+      })
       .sort((a, b) => b.count - a.count);
 
-    isDev && console.log(`[Snapshot API] Complete: ${holders.length} unique holders, ${failedTokens} failed queries`);
+    const distinctIds = new Set(holders.flatMap((holder) => holder.tokenIds));
+
+    isDev && console.log(`[Snapshot API] Complete: ${holders.length} ERC-1155 holders of ${distinctIds.size} ids, ${failedRanges.length} failed ranges`);
 
-    return NextResponse.json({
+    return {
       collection: collectionAddress,
-      name: collectionName,
+      name: name as string,
+      standard: 'ERC1155',
+      totalHolders: holders.length,
+      totalSupply: holders.reduce((sum, holder) => sum + holder.count, 0),
+      scannedTokens: distinctIds.size,
+      failedTokens: 0,
+      failedRanges: failedRanges.length,
+      incomplete: failedRanges.length > 0,
+      holders,
+      blockNumber: blockNumber.toString(),
+      blockTimestamp: Number(block.timestamp),
+      method: 'logs' satisfies SnapshotMethod,
+      nextCursor: null,
+    };
+  }
+
+  // ownerOf at a past block needs historical state; without it fall back to
+  // replaying Transfer logs unless eth_call was asked for explicitly
+  let method: SnapshotMethod = methodParam === 'logs' ? 'logs' : 'call';
+  if (method === 'call') {
+    const hasState = await client
+      .getCode({ address: collectionAddress, blockNumber })
+      .then(() => true)
+      .catch(() => false);
+    if (!hasState) {
+      if (methodParam === 'call') {
+        throw new SnapshotParamError(`The RPC does not serve state at block ${blockNumber}; use method "logs"`);
+      }
+      isDev && console.log('[Snapshot API] No historical state, replaying Transfer logs instead');
+      method = 'logs';
+    }
+  }
+
+  const collectionName = await client
+    .readContract({
+      address: collectionAddress,
+      abi: ERC721_ABI,
+      functionName: 'name',
+    })
+    .catch(() => 'Unknown');
+
+  const blockInfo = {
+    collection: collectionAddress,
+    name: collectionName,
+    standard: 'ERC721',
+    blockNumber: blockNumber.toString(),
+    blockTimestamp: Number(block.timestamp),
+    method,
+  };
+
+  if (method === 'logs') {
+    let ownership: OwnershipResult;
+    try {
+      ownership = await ownersByLogs(collectionAddress, blockNumber, options);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('[Snapshot API] Failed to replay transfers:', error);
+      throw new SnapshotParamError('Failed to read collection data. Is this a valid ERC-721 contract?');
+    }
+    const holders = toHolders(ownership.holdingsMap);
+
+    isDev && console.log(`[Snapshot API] Complete: ${holders.length} unique holders, ${ownership.failedRanges.length} failed ranges`);
+
+    return {
+      ...blockInfo,
       totalHolders: holders.length,
-      totalSupply,
-      scannedTokens: maxTokens,
-      failedTokens,
-      incomplete: failedTokens > 0,
+      totalSupply: ownership.scannedTokens,
+      scannedTokens: ownership.scannedTokens,
+      failedTokens: 0,
+      burnedTokens: 0,
+      failedRanges: ownership.failedRanges.length,
+      incomplete: ownership.failedRanges.length > 0,
       holders,
-    });
+      nextCursor: null,
+    };
+  }
+
+  // Token ids come from ERC721Enumerable when supported, otherwise from mint logs
+  const enumerable = await client
+    .readContract({
+      address: collectionAddress,
+      abi: ERC165_ABI,
+      functionName: 'supportsInterface',
+      args: [INTERFACE_IDS.ERC721Enumerable],
+    })
+    .catch(() => false);
+  const totalSupply = enumerable
+    ? await client
+        .readContract({
+          address: collectionAddress,
+          abi: ERC721_ABI,
+          functionName: 'totalSupply',
+          blockNumber,
+        })
+        .then(Number)
+        .catch(() => undefined)
+    : undefined;
+
+  if (totalSupply === 0) {
+    return { ...blockInfo, totalHolders: 0, totalSupply: 0, holders: [], nextCursor: null };
+  }
+
+  let result: ChunkResult;
+  try {
+    let firstCursor: SnapshotCursor;
+    if (totalSupply !== undefined) {
+      firstCursor = { kind: 'index', next: 0 };
+    } else {
+      const deployBlock = await searchDeployBlock(client, collectionAddress, blockNumber);
+      firstCursor = { kind: 'block', next: deployBlock, deployBlock };
+    }
+    result = await processChunk(collectionAddress, firstCursor, blockNumber, options, totalSupply);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error('[Snapshot API] Failed to read owners:', error);
+    throw new SnapshotParamError('Failed to read collection data. Is this a valid ERC-721 contract?');
+  }
+
+  return {
+    ...blockInfo,
+    totalSupply,
+    discovery: totalSupply !== undefined ? 'enumerable' : 'mints',
+    ...chunkResponse(collectionAddress, blockNumber, result),
+  };
+}
+
+const encoder = new TextEncoder();
+
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream snapshot chunks as Server-Sent Events: `progress` during log scans, `chunk`
+ * with each chunk's body, then `done`, `error`, or `continue` with the `nextCursor`
+ * and `blockNumber` to reconnect with once the stream's chunk or time budget is spent.
+ * Work stops between chunks and log ranges once the client cancels or disconnects;
+ * it can resume from the last chunk's `nextCursor`.
+ */
+function streamSnapshot(
+  request: NextRequest,
+  collectionAddress: Address,
+  cursor: SnapshotCursor | null,
+  blockNumber: bigint,
+  methodParam: string | null
+): Response {
+  const controller = new AbortController();
+  const { signal } = controller;
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: string, data: unknown) => {
+        if (!signal.aborted) stream.enqueue(sseEvent(event, data));
+      };
+      const options: SnapshotRunOptions = { signal, onProgress: (progress) => send('progress', progress) };
+
+      const deadline = Date.now() + STREAM_BUDGET_MS;
+      try {
+        let chunk = cursor
+          ? await nextChunk(collectionAddress, cursor, blockNumber, options)
+          : await firstChunk(collectionAddress, blockNumber, methodParam, options);
+        send('chunk', chunk);
+
+        for (let sent = 1; chunk.nextCursor && !signal.aborted; sent++) {
+          if (sent >= STREAM_MAX_CHUNKS || Date.now() >= deadline) {
+            send('continue', { nextCursor: chunk.nextCursor, blockNumber: blockNumber.toString() });
+            break;
+          }
+          chunk = await nextChunk(collectionAddress, parseCursor(chunk.nextCursor, collectionAddress, blockNumber)!, blockNumber, options);
+          send('chunk', chunk);
+        }
+        if (!chunk.nextCursor) send('done', {});
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('[Snapshot API] Stream error:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Failed to build snapshot' });
+        }
+      }
+
+      if (!signal.aborted) stream.close();
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  if (!CURSOR_SECRET) {
+    console.error('[Snapshot API]', MISSING_SECRET_ERROR);
+    return NextResponse.json({ error: MISSING_SECRET_ERROR }, { status: 503 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const cursorParam = searchParams.get('cursor');
+  const stream = searchParams.get('stream') === '1';
+  const cursor = cursorParam
+    ? parseCursor(cursorParam, searchParams.get('collection') ?? '', searchParams.get('blockNumber') ?? '')
+    : null;
+
+  // Follow-up chunks get their own, looser budget: one request per chunk, or one
+  // reconnected stream per STREAM_MAX_CHUNKS chunks
+  const ip = getClientIp(request);
+  const { limited, retryAfterMs } = !cursor
+    ? rateLimit('snapshot', ip, { windowMs: 60_000, maxRequests: 3 })
+    : stream
+      ? rateLimit('snapshot-stream', ip, { windowMs: 60_000, maxRequests: 120 / STREAM_MAX_CHUNKS })
+      : rateLimit('snapshot-chunk', ip, { windowMs: 60_000, maxRequests: 120 });
+  if (limited) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+    );
+  }
+
+  const collectionAddress = searchParams.get('collection');
+  const methodParam = searchParams.get('method');
+
+  if (!collectionAddress || !isValidAddress(collectionAddress)) {
+    return NextResponse.json({ error: 'Valid collection address is required' }, { status: 400 });
+  }
+  if (methodParam && methodParam !== 'call' && methodParam !== 'logs') {
+    return NextResponse.json({ error: 'method must be "call" or "logs"' }, { status: 400 });
+  }
+
+  if (cursorParam && !cursor) {
+    return NextResponse.json(
+      { error: 'cursor must come from a previous response and be sent with its collection and blockNumber' },
+      { status: 400 }
+    );
+  }
+
+  isDev && console.log('[Snapshot API] Building snapshot for', collectionAddress, cursorParam ?? '');
+
+  try {
+    const blockNumber = await resolveSnapshotBlock(searchParams);
+
+    if (stream) {
+      return streamSnapshot(request, collectionAddress as Address, cursor, blockNumber, methodParam);
+    }
+
+    return NextResponse.json(
+      cursor
+        ? await nextChunk(collectionAddress as Address, cursor, blockNumber, {})
+        : await firstChunk(collectionAddress as Address, blockNumber, methodParam, {})
+    );
   } catch (error) {
+    if (error instanceof SnapshotParamError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('[Snapshot API] Error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to build snapshot' },
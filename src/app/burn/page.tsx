@@ -27,6 +27,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { NetworkGuard } from '@/components/network-guard';
+import { NFTQuantityList, parseNFTQuantity } from '@/components/nft-quantity-list';
 import { PageWrapper, PageHeader, AnimatedCard, EmptyState } from '@/components/ui/page-wrapper';
 import { db } from '@/lib/db';
 import { truncateAddress, formatMon } from '@/lib/utils';
@@ -62,11 +63,21 @@ const ERC721_ABI = parseAbi([
   'function burn(uint256 tokenId)',
 ]);
 
+const ERC1155_ABI = parseAbi([
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function burn(address account, uint256 id, uint256 value)',
+]);
+
 export default function BurnPage() {
   const { address } = useAccount();
   const { data: walletClient } = useWalletClient();
   const { data: monBalance } = useBalance({ address });
   const holdings = useLiveQuery(() => db.holdings.toArray()) ?? [];
+  const watchedCollections = useLiveQuery(
+    () => (address ? db.collections.where('walletAddress').equals(address.toLowerCase()).toArray() : []),
+    [address]
+  ) ?? [];
+  const collectionInfo = new Map(watchedCollections.map((c) => [c.address.toLowerCase(), c]));
 
   // UI State
   const [burnType, setBurnType] = useState<BurnType>('nft');
@@ -75,6 +86,7 @@ export default function BurnPage() {
   // NFT State
   const [selectedCollection, setSelectedCollection] = useState<string>('');
   const [selectedNFTs, setSelectedNFTs] = useState<Set<string>>(new Set());
+  const [nftQuantities, setNftQuantities] = useState<Record<string, string>>({});
 
   // Token State
   const [tokens, setTokens] = useState<TokenBalance[]>([]);
@@ -109,6 +121,14 @@ export default function BurnPage() {
       h.ownerAddress === address?.toLowerCase()
   );
 
+  // ERC-1155 ids need a quantity; ERC-721 ids are always 1
+  const selectedCollectionType = collectionInfo.get(selectedCollection.toLowerCase())?.type ?? 'ERC721';
+  const selectedHoldings = collectionNFTs.filter((n) => selectedNFTs.has(n.tokenId));
+  const quantityHoldings = selectedCollectionType === 'ERC1155' ? selectedHoldings : [];
+  const hasInvalidQuantity = quantityHoldings.some(
+    (h) => parseNFTQuantity(nftQuantities[h.tokenId], h.amount) === null
+  );
+
   // Load tokens
   useEffect(() => {
     if (burnType === 'token' && address && tokens.length === 0 && !loadingTokens) {
@@ -141,7 +161,10 @@ export default function BurnPage() {
   // Get confirmation message
   const getConfirmMessage = () => {
     if (burnType === 'nft') {
-      return `You are about to permanently burn ${selectedNFTs.size} NFT${selectedNFTs.size > 1 ? 's' : ''}. This action is IRREVERSIBLE.`;
+      const count = selectedCollectionType === 'ERC1155'
+        ? quantityHoldings.reduce((sum, h) => sum + (parseNFTQuantity(nftQuantities[h.tokenId], h.amount) ?? 0), 0)
+        : selectedNFTs.size;
+      return `You are about to permanently burn ${count} NFT${count > 1 ? 's' : ''}. This action is IRREVERSIBLE.`;
     } else if (burnType === 'token') {
       const token = tokens.find((t) => t.address === selectedToken);
       return `You are about to permanently burn ${tokenAmount} ${token?.symbol || 'tokens'}. This action is IRREVERSIBLE.`;
@@ -162,15 +185,49 @@ export default function BurnPage() {
       let hash: string;
 
       if (burnType === 'nft') {
+        const owner = address.toLowerCase();
+
         // Burn NFTs one by one
-        for (const tokenId of selectedNFTs) {
+        for (const holding of selectedHoldings) {
+          const tokenId = BigInt(holding.tokenId);
+
+          if (selectedCollectionType === 'ERC1155') {
+            const amount = parseNFTQuantity(nftQuantities[holding.tokenId], holding.amount);
+            if (amount === null) throw new Error(`Invalid quantity for #${holding.tokenId}`);
+            try {
+              // Try ERC1155Burnable first
+              hash = await walletClient.writeContract({
+                address: selectedCollection as Address,
+                abi: ERC1155_ABI,
+                functionName: 'burn',
+                args: [address, tokenId, BigInt(amount)],
+              });
+            } catch {
+              // Fallback to transfer to burn address
+              hash = await walletClient.writeContract({
+                address: selectedCollection as Address,
+                abi: ERC1155_ABI,
+                functionName: 'safeTransferFrom',
+                args: [address, BURN_ADDRESS, tokenId, BigInt(amount), '0x'],
+              });
+            }
+
+            // Keep the remaining balance in the local database
+            if (amount < holding.amount) {
+              await db.holdings.update(holding.id!, { amount: holding.amount - amount, lastUpdatedAt: Date.now() });
+            } else {
+              await db.holdings.delete(holding.id!);
+            }
+            continue;
+          }
+
           try {
             // Try native burn function first
             hash = await walletClient.writeContract({
               address: selectedCollection as Address,
               abi: ERC721_ABI,
               functionName: 'burn',
-              args: [BigInt(tokenId)],
+              args: [tokenId],
             });
           } catch {
             // Fallback to transfer to burn address
@@ -178,21 +235,21 @@ export default function BurnPage() {
               address: selectedCollection as Address,
               abi: ERC721_ABI,
               functionName: 'transferFrom',
-              args: [address, BURN_ADDRESS, BigInt(tokenId)],
+              args: [address, BURN_ADDRESS, tokenId],
             });
           }
+
+          // Remove burned NFT from local database
+          await db.holdings
+            .where('[collectionAddress+ownerAddress]')
+            .equals([selectedCollection, owner])
+            .and((h) => h.tokenId === holding.tokenId)
+            .delete();
         }
         setResult({ success: true, txHash: hash! });
 
-        // Remove burned NFTs from local database
-        const burnedTokenIds = Array.from(selectedNFTs);
-        await db.holdings
-          .where('collectionAddress')
-          .equals(selectedCollection)
-          .and((h) => burnedTokenIds.includes(h.tokenId))
-          .delete();
-
         setSelectedNFTs(new Set());
+        setNftQuantities({});
       } else if (burnType === 'token') {
         const token = tokens.find((t) => t.address === selectedToken);
         if (!token) throw new Error('Token not found');
@@ -230,12 +287,12 @@ export default function BurnPage() {
     } finally {
       setIsExecuting(false);
     }
-  }, [address, walletClient, burnType, selectedNFTs, selectedCollection, selectedToken, tokenAmount, tokens, monAmount]);
+  }, [address, walletClient, burnType, selectedHoldings, selectedCollection, selectedCollectionType, nftQuantities, selectedToken, tokenAmount, tokens, monAmount]);
 
   const selectedTokenData = tokens.find((t) => t.address === selectedToken);
 
   const canBurn = () => {
-    if (burnType === 'nft') return selectedNFTs.size > 0;
+    if (burnType === 'nft') return selectedNFTs.size > 0 && !hasInvalidQuantity;
     if (burnType === 'token') return selectedToken && tokenAmount && parseFloat(tokenAmount) > 0;
     if (burnType === 'mon') return monAmount && parseFloat(monAmount) > 0;
     return false;
@@ -334,6 +391,7 @@ export default function BurnPage() {
                   <Select value={selectedCollection} onValueChange={(v) => {
                     setSelectedCollection(v);
                     setSelectedNFTs(new Set());
+                    setNftQuantities({});
                   }}>
                     <SelectTrigger className="bg-white/[0.03] border-white/[0.08]">
                       <SelectValue placeholder="Select a collection" />
@@ -341,7 +399,7 @@ export default function BurnPage() {
                     <SelectContent>
                       {myCollections.map((c) => (
                         <SelectItem key={c.collectionAddress} value={c.collectionAddress}>
-                          {c.name || truncateAddress(c.collectionAddress)} ({holdings.filter(h => h.collectionAddress === c.collectionAddress && h.ownerAddress === address?.toLowerCase()).length} owned)
+                          {collectionInfo.get(c.collectionAddress.toLowerCase())?.name || truncateAddress(c.collectionAddress)} ({holdings.filter(h => h.collectionAddress === c.collectionAddress && h.ownerAddress === address?.toLowerCase()).length} owned)
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -419,6 +477,11 @@ export default function BurnPage() {
                                 </motion.div>
                               </motion.div>
                             )}
+                            {selectedCollectionType === 'ERC1155' && (
+                              <span className="absolute top-1 right-1 rounded bg-black/60 px-1 text-xs text-white">
+                                ×{nft.amount}
+                              </span>
+                            )}
                             <div className="absolute bottom-0 left-0 right-0 bg-black/60 px-1 py-0.5">
                               <span className="text-xs text-white truncate">#{nft.tokenId}</span>
                             </div>
@@ -426,6 +489,17 @@ export default function BurnPage() {
                         ))}
                       </motion.div>
                     )}
+
+                    {quantityHoldings.length > 0 && (
+                      <div className="space-y-2 pt-2 border-t border-white/[0.05]">
+                        <Label className="text-white/70">Quantities to burn</Label>
+                        <NFTQuantityList
+                          holdings={quantityHoldings}
+                          quantities={nftQuantities}
+                          onChange={(tokenId, value) => setNftQuantities((prev) => ({ ...prev, [tokenId]: value }))}
+                        />
+                      </div>
+                    )}
                   </div>
                 </AnimatedCard>
               )}
@@ -17,7 +17,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { db } from '@/lib/db';
-import { monadMainnet, MONAD_CHAIN_ID, DEFAULT_SCAN_BLOCK_RANGE } from '@/lib/chain';
+import { monadMainnet, MONAD_CHAIN_ID, DEFAULT_SCAN_BLOCK_RANGE, CONFIRMATION_DEPTH } from '@/lib/chain';
 import { getCurrentPlan, getPlanLimits, type PlanType } from '@/lib/db/plan';
 import { formatMon, truncateAddress } from '@/lib/utils';
 import {
@@ -85,6 +85,8 @@ export default function DeveloperPage() {
         await db.batches.clear();
         await db.transfers.clear();
         await db.syncState.clear();
+        await db.snapshots.clear();
+        await db.snapshotTokens.clear();
         break;
     }
   };
@@ -94,6 +96,7 @@ export default function DeveloperPage() {
     { key: 'NEXT_PUBLIC_MONAD_WS_URL', value: process.env.NEXT_PUBLIC_MONAD_WS_URL || 'Not set' },
     { key: 'NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID', value: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID ? '****' : 'Not set' },
     { key: 'NEXT_PUBLIC_SCAN_BLOCK_RANGE', value: `${DEFAULT_SCAN_BLOCK_RANGE.toLocaleString()} blocks` },
+    { key: 'NEXT_PUBLIC_CONFIRMATION_DEPTH', value: `${CONFIRMATION_DEPTH} blocks` },
   ];
 
   return (
@@ -264,8 +267,12 @@ export default function DeveloperPage() {
               <div className="font-medium">{limits.maxWatchedCollections}</div>
             </div>
             <div>
-              <div className="text-muted-foreground">Max Wallets</div>
-              <div className="font-medium">{limits.maxStoredWallets}</div>
+              <div className="text-muted-foreground">Max Address Book</div>
+              <div className="font-medium">{limits.maxAddressBookEntries}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Max Watched Wallets</div>
+              <div className="font-medium">{limits.maxWatchedWallets}</div>
             </div>
           </div>
         </CardContent>
@@ -72,14 +72,16 @@ export default function DonatePage() {
     { feature: 'Batch operations', value: `${PLAN_LIMITS.free.maxBatchSize} items` },
     { feature: 'Export rows', value: `${PLAN_LIMITS.free.maxExportRows} rows` },
     { feature: 'Watched collections', value: `${PLAN_LIMITS.free.maxWatchedCollections}` },
-    { feature: 'Stored wallets', value: `${PLAN_LIMITS.free.maxStoredWallets}` },
+    { feature: 'Address book entries', value: `${PLAN_LIMITS.free.maxAddressBookEntries}` },
+    { feature: 'Watched wallets', value: `${PLAN_LIMITS.free.maxWatchedWallets}` },
   ];
 
   const supporterFeatures = [
     { feature: 'Batch operations', value: `${PLAN_LIMITS.supporter.maxBatchSize} items`, highlight: true },
     { feature: 'Export rows', value: `${PLAN_LIMITS.supporter.maxExportRows} rows`, highlight: true },
     { feature: 'Watched collections', value: `${PLAN_LIMITS.supporter.maxWatchedCollections}`, highlight: true },
-    { feature: 'Stored wallets', value: `${PLAN_LIMITS.supporter.maxStoredWallets}`, highlight: true },
+    { feature: 'Address book entries', value: `${PLAN_LIMITS.supporter.maxAddressBookEntries}`, highlight: true },
+    { feature: 'Watched wallets', value: `${PLAN_LIMITS.supporter.maxWatchedWallets}`, highlight: true },
   ];
 
   return (
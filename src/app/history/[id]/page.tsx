@@ -0,0 +1,403 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAccount, useWalletClient } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { NetworkGuard } from '@/components/network-guard';
+import { BatchStatusBadge } from '@/components/batch-status-badge';
+import {
+  getBatch,
+  getBatchStats,
+  getBatchGasTotals,
+  getBatchDuration,
+  getChildBatches,
+  planRetry,
+  executeRetry,
+  type RetryPlan,
+} from '@/lib/batch-engine';
+import {
+  BATCH_TYPE_LABELS,
+  describeBatchItem,
+  exportBatchCSV,
+  exportBatchJSON,
+  formatBatchDuration,
+} from '@/features/history';
+import { formatMon, formatNumber, truncateAddress } from '@/lib/utils';
+import { useAddressLabels } from '@/hooks/use-address-labels';
+import { formatAddressLabel } from '@/features/address-book';
+import { ArrowLeft, Download, ExternalLink, FileJson, GitBranch, Loader2, RotateCcw } from 'lucide-react';
+
+export default function BatchDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const batchId = Number(params.id);
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const addressLabels = useAddressLabels();
+  const [retryPlan, setRetryPlan] = useState<RetryPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  // null = not found; undefined = still loading
+  const batch = useLiveQuery(
+    async () => (Number.isInteger(batchId) ? (await getBatch(batchId)) ?? null : null),
+    [batchId]
+  );
+
+  const childBatches = useLiveQuery(
+    () => (Number.isInteger(batchId) ? getChildBatches(batchId) : []),
+    [batchId]
+  ) ?? [];
+
+  const stats = batch ? getBatchStats(batch) : null;
+  const totals = batch ? getBatchGasTotals(batch) : null;
+  const parentBatchId = typeof batch?.metadata?.parentBatchId === 'number' ? batch.metadata.parentBatchId : null;
+  const isSigner = !!batch && address?.toLowerCase() === batch.signerAddress.toLowerCase();
+  // Failed items no retry batch has taken over yet
+  const retryableCount = batch?.items.filter((i) => i.status === 'failed' && i.retriedInBatchId === undefined).length ?? 0;
+  const canRetry = isSigner && retryableCount > 0 && batch?.status !== 'executing';
+  const retryBlockers = retryPlan
+    ? [
+        ...retryPlan.preflight.errors.filter((e) => e.index === -1).map((e) => e.message),
+        ...(retryPlan.preflight.approvals?.length ? ['Approve the collections on Transfer before retrying'] : []),
+      ]
+    : [];
+
+  const handlePlanRetry = async () => {
+    setIsPlanning(true);
+    try {
+      const plan = await planRetry(batchId);
+      setRetryPlan(plan);
+      if (plan.confirmed > 0) {
+        toast.success(`${plan.confirmed} item(s) were actually confirmed on-chain`);
+      }
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Preflight failed');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!retryPlan || !walletClient) return;
+
+    setIsRetrying(true);
+    try {
+      const childId = await executeRetry(retryPlan, walletClient);
+      setRetryPlan(null);
+      toast.success(`Retry batch #${childId} complete`);
+      router.push(`/history/${childId}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Retry failed');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <NetworkGuard requireConnection>
+      <div className="space-y-6">
+        {/* Back Button */}
+        <Link href="/history" className="inline-flex items-center text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to History
+        </Link>
+
+        {/* Loading */}
+        {batch === undefined && (
+          <Card>
+            <CardContent className="py-12 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading batch...
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Not Found */}
+        {batch === null && (
+          <Card className="border-destructive">
+            <CardContent className="py-12 text-center text-destructive">
+              Batch not found in this browser
+            </CardContent>
+          </Card>
+        )}
+
+        {batch && stats && totals && (
+          <>
+            {/* Summary */}
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-2xl flex items-center gap-3">
+                    {BATCH_TYPE_LABELS[batch.type]} #{batch.id}
+                    <BatchStatusBadge status={batch.status} />
+                  </CardTitle>
+                  <CardDescription>
+                    {new Date(batch.createdAt).toLocaleString()}
+                    {typeof batch.metadata?.mode === 'string' && ` · ${batch.metadata.mode} mode`}
+                    {parentBatchId !== null && (
+                      <>
+                        {' · retry of '}
+                        <Link href={`/history/${parentBatchId}`} className="text-purple-500 hover:text-purple-400">
+                          #{parentBatchId}
+                        </Link>
+                      </>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {canRetry && (
+                    <Button size="sm" variant="outline" onClick={handlePlanRetry} disabled={isPlanning || isRetrying}>
+                      {isPlanning ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                      )}
+                      Retry failed ({retryableCount})
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => exportBatchCSV(batch)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => exportBatchJSON(batch)}>
+                    <FileJson className="mr-2 h-4 w-4" />
+                    Export JSON
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Items</p>
+                    <p className="text-lg font-semibold tabular-nums">{stats.total}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Success / Failed / Skipped</p>
+                    <p className="text-lg font-semibold tabular-nums">
+                      <span className="text-green-400">{stats.success}</span>
+                      {' / '}
+                      <span className="text-red-400">{stats.failed}</span>
+                      {' / '}
+                      <span className="text-white/50">{stats.skipped}</span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Gas Used</p>
+                    <p className="text-lg font-semibold tabular-nums">{formatNumber(totals.gasUsed)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Fees Paid</p>
+                    <p className="text-lg font-semibold tabular-nums">{formatMon(totals.feePaid, 6)} MON</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Duration</p>
+                    <p className="text-lg font-semibold tabular-nums">
+                      {formatBatchDuration(getBatchDuration(batch))}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Retry Preflight */}
+            {retryPlan && (
+              <Card className="border-purple-500/30">
+                <CardHeader>
+                  <CardTitle>Retry Failed Items</CardTitle>
+                  <CardDescription>
+                    A new batch linked to #{batch.id} will be created with the items that pass preflight
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Ready to Retry</p>
+                      <p className="text-lg font-semibold tabular-nums">{retryPlan.items.length}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Failing Preflight</p>
+                      <p className="text-lg font-semibold tabular-nums text-red-400">
+                        {retryPlan.preflight.itemResults.filter((r) => !r.valid).length}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Confirmed / Still Pending</p>
+                      <p className="text-lg font-semibold tabular-nums">
+                        {retryPlan.confirmed} / {retryPlan.stillPending}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Estimated Gas</p>
+                      <p className="text-lg font-semibold tabular-nums">
+                        {formatNumber(retryPlan.preflight.estimatedGas)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {(retryBlockers.length > 0 || retryPlan.preflight.itemResults.some((r) => !r.valid)) && (
+                    <div className="space-y-1 text-sm text-red-400 max-h-40 overflow-y-auto">
+                      {retryBlockers.map((message, i) => (
+                        <p key={`blocker-${i}`}>{message}</p>
+                      ))}
+                      {retryPlan.preflight.itemResults
+                        .filter((r) => !r.valid)
+                        .map((r) => (
+                          <p key={r.index}>
+                            Item {retryPlan.checkedIndexes[r.index] + 1}: {r.error ?? 'Preflight failed'}
+                          </p>
+                        ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleRetry}
+                      disabled={!walletClient || isRetrying || retryPlan.items.length === 0 || retryBlockers.length > 0}
+                    >
+                      {isRetrying ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                      )}
+                      Retry {retryPlan.items.length} item(s)
+                    </Button>
+                    <Button variant="outline" onClick={() => setRetryPlan(null)} disabled={isRetrying}>
+                      Dismiss
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Child Batches */}
+            {childBatches.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitBranch className="h-5 w-5" />
+                    Retries
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {childBatches.map((child) => {
+                    const childStats = getBatchStats(child);
+                    return (
+                      <Link
+                        key={child.id}
+                        href={`/history/${child.id}`}
+                        className="flex items-center justify-between text-sm py-2 border-b border-white/[0.05] last:border-0 hover:text-purple-400"
+                      >
+                        <span>
+                          #{child.id} · {new Date(child.createdAt).toLocaleString()} · {childStats.success}/{childStats.total} delivered
+                        </span>
+                        <BatchStatusBadge status={child.status} />
+                      </Link>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Items */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>
+                  Signed by {truncateAddress(batch.signerAddress, 6)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Transaction</TableHead>
+                      <TableHead className="text-right">Gas</TableHead>
+                      <TableHead className="text-right">Fee (MON)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batch.items.map((item) => {
+                      const { recipient, recipientName, tokenId, amount, symbol } = describeBatchItem(batch, item);
+                      return (
+                        <TableRow key={item.index}>
+                          <TableCell className="text-muted-foreground">{item.index + 1}</TableCell>
+                          <TableCell>
+                            <code className="text-sm bg-muted px-2 py-1 rounded">
+                              {formatAddressLabel(recipient, addressLabels, 6)}
+                            </code>
+                            {recipientName && <p className="text-xs text-muted-foreground mt-1">{recipientName}</p>}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {tokenId ? `#${tokenId}${amount !== '1' ? ` × ${amount}` : ''}` : `${amount} ${symbol}`}
+                          </TableCell>
+                          <TableCell>
+                            <BatchStatusBadge status={item.status} />
+                            {item.error && (
+                              <p className="text-xs text-red-400 mt-1 max-w-[240px] truncate" title={item.error}>
+                                {item.error}
+                              </p>
+                            )}
+                            {item.retriedInBatchId !== undefined && (
+                              <Link
+                                href={`/history/${item.retriedInBatchId}`}
+                                className="block text-xs text-purple-500 hover:text-purple-400 mt-1"
+                              >
+                                Retried in #{item.retriedInBatchId}
+                              </Link>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {item.txHash ? (
+                              <a
+                                href={`https://monadvision.com/tx/${item.txHash}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-sm text-purple-500 hover:text-purple-400 inline-flex items-center gap-1"
+                              >
+                                {truncateAddress(item.txHash, 6)}
+                                <ExternalLink className="h-3 w-3" />
+                              </a>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                            {item.chunkIndex !== undefined && (
+                              <p className="text-xs text-muted-foreground">chunk {item.chunkIndex + 1}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums text-sm">
+                            {item.gasUsed ? formatNumber(BigInt(item.gasUsed)) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums text-sm">
+                            {item.feePaid ? formatMon(BigInt(item.feePaid), 6) : '—'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </NetworkGuard>
+  );
+}
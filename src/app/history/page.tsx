@@ -0,0 +1,163 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { NetworkGuard } from '@/components/network-guard';
+import { PageWrapper, PageHeader, StatCard, EmptyState } from '@/components/ui/page-wrapper';
+import { BatchStatusBadge } from '@/components/batch-status-badge';
+import {
+  getRecentBatches,
+  getBatchStats,
+  getBatchGasTotals,
+  getBatchDuration,
+} from '@/lib/batch-engine';
+import { BATCH_TYPE_LABELS, formatBatchDuration } from '@/features/history';
+import { formatMon, formatNumber } from '@/lib/utils';
+import { History, Layers, CheckCircle2, Fuel, ChevronRight, Send } from 'lucide-react';
+
+// Enough for a full working session; older batches stay in IndexedDB
+const HISTORY_LIMIT = 100;
+
+export default function HistoryPage() {
+  const { address } = useAccount();
+
+  const batches = useLiveQuery(
+    () => (address ? getRecentBatches(address, HISTORY_LIMIT) : []),
+    [address]
+  );
+
+  const totals = (batches ?? []).reduce(
+    (acc, batch) => {
+      const stats = getBatchStats(batch);
+      acc.items += stats.total;
+      acc.succeeded += stats.success;
+      acc.feePaid += getBatchGasTotals(batch).feePaid;
+      return acc;
+    },
+    { items: 0, succeeded: 0, feePaid: 0n }
+  );
+
+  return (
+    <NetworkGuard requireConnection>
+      <PageWrapper>
+        <PageHeader
+          title="Batch History"
+          description="Every batch run from this browser, with per-item receipts"
+          icon={<History className="h-6 w-6 md:h-8 md:w-8 text-purple-500" />}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4">
+          <StatCard
+            label="Batches"
+            value={formatNumber(batches?.length ?? 0)}
+            icon={<Layers className="h-5 w-5 text-white" />}
+            gradient="from-purple-500 to-violet-500"
+          />
+          <StatCard
+            label="Items Delivered"
+            value={`${formatNumber(totals.succeeded)} / ${formatNumber(totals.items)}`}
+            icon={<CheckCircle2 className="h-5 w-5 text-white" />}
+            gradient="from-green-500 to-emerald-500"
+            delay={0.05}
+          />
+          <StatCard
+            label="Fees Paid"
+            value={`${formatMon(totals.feePaid, 6)} MON`}
+            icon={<Fuel className="h-5 w-5 text-white" />}
+            gradient="from-amber-500 to-orange-500"
+            delay={0.1}
+          />
+        </div>
+
+        {batches && batches.length === 0 ? (
+          <EmptyState
+            icon={<History className="h-8 w-8 text-white/20" />}
+            title="No batches yet"
+            description="Batches you run from Transfer show up here"
+            action={
+              <Link href="/transfer" className="inline-flex items-center text-sm text-purple-400 hover:text-purple-300">
+                <Send className="mr-2 h-4 w-4" />
+                Start a transfer
+              </Link>
+            }
+          />
+        ) : (
+          <div className="space-y-3">
+            {(batches ?? []).map((batch, idx) => {
+              const stats = getBatchStats(batch);
+              const { gasUsed, feePaid } = getBatchGasTotals(batch);
+
+              return (
+                <motion.div
+                  key={batch.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                >
+                  <Link href={`/history/${batch.id}`}>
+                    <div className="glass-card rounded-2xl p-4 md:p-5 hover:border-purple-500/30 transition-colors cursor-pointer">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-semibold text-white/90">
+                              {BATCH_TYPE_LABELS[batch.type]}
+                              {typeof batch.metadata?.tokenSymbol === 'string' && ` · ${batch.metadata.tokenSymbol}`}
+                            </p>
+                            <span className="text-xs text-white/30">#{batch.id}</span>
+                            {typeof batch.metadata?.parentBatchId === 'number' && (
+                              <span className="text-xs text-purple-400/70">retry of #{batch.metadata.parentBatchId}</span>
+                            )}
+                          </div>
+                          <p className="text-sm text-white/40">
+                            {new Date(batch.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <BatchStatusBadge status={batch.status} />
+                          <ChevronRight className="h-4 w-4 text-white/30" />
+                        </div>
+                      </div>
+
+                      <div className="mt-3 grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                        <div>
+                          <span className="text-white/40">Items </span>
+                          <span className="text-white/80 tabular-nums">{stats.total}</span>
+                        </div>
+                        <div>
+                          <span className="text-white/40">Success </span>
+                          <span className="text-green-400 tabular-nums">{stats.success}</span>
+                          {stats.failed > 0 && (
+                            <span className="text-red-400 tabular-nums"> · {stats.failed} failed</span>
+                          )}
+                          {stats.skipped > 0 && (
+                            <span className="text-white/50 tabular-nums"> · {stats.skipped} skipped</span>
+                          )}
+                        </div>
+                        <div>
+                          <span className="text-white/40">Gas </span>
+                          <span className="text-white/80 tabular-nums">{formatNumber(gasUsed)}</span>
+                        </div>
+                        <div>
+                          <span className="text-white/40">Fees </span>
+                          <span className="text-white/80 tabular-nums">{formatMon(feePaid, 6)} MON</span>
+                        </div>
+                        <div>
+                          <span className="text-white/40">Duration </span>
+                          <span className="text-white/80 tabular-nums">
+                            {formatBatchDuration(getBatchDuration(batch))}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  </Link>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </PageWrapper>
+    </NetworkGuard>
+  );
+}
@@ -1,13 +1,21 @@
 'use client';
 
 import { useState } from 'react';
-import { useAccount } from 'wagmi';
+import Link from 'next/link';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { db } from '@/lib/db';
-import { useWalletSync } from '@/hooks';
+import { useWalletSync, useWalletScope } from '@/hooks';
+import { formatSyncChanges } from '@/features/wallets';
+import {
+  getBackfillStateKey,
+  getGapCounts,
+  getGapStateKey,
+  getPendingBackfills,
+} from '@/features/inventory';
+import { WalletScopeSelect } from '@/components/wallet-scope-select';
 import { truncateAddress, cn } from '@/lib/utils';
 import { PageWrapper, PageHeader, AnimatedCard, EmptyState, StatCard } from '@/components/ui/page-wrapper';
 import {
@@ -21,31 +29,54 @@ import {
   Layers,
   Hash,
   AlertTriangle,
+  CheckCircle2,
 } from 'lucide-react';
 
 export default function InventoryPage() {
-  const { address, isConnected } = useAccount();
-  const { isLoading, isSyncingNFTs, progress, warning, refresh } = useWalletSync();
+  const { isLoading, isSyncingNFTs, progress, warning, changes, refresh, refreshWallet } = useWalletSync();
+  const { wallets, scope, setScope, addresses, isCombined } = useWalletScope();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
-  // Get collections and holdings for connected wallet
-  const collections = useLiveQuery(
-    () => address
-      ? db.collections.where('walletAddress').equals(address.toLowerCase()).toArray()
+  // Get collections and holdings for the wallets in scope
+  const walletCollections = useLiveQuery(
+    () => addresses.length > 0
+      ? db.collections.where('walletAddress').anyOf(addresses).toArray()
       : [],
-    [address]
+    [addresses]
   ) ?? [];
 
   const holdings = useLiveQuery(
-    () => address
-      ? db.holdings.where('ownerAddress').equals(address.toLowerCase()).toArray()
+    () => addresses.length > 0
+      ? db.holdings.where('ownerAddress').anyOf(addresses).toArray()
       : [],
-    [address]
+    [addresses]
   ) ?? [];
 
+  // The same collection held by several wallets is shown once in the combined view
+  const collections = Array.from(new Map(walletCollections.map((c) => [c.address.toLowerCase(), c])).values());
+  const walletLabels = new Map(wallets.map((w) => [w.address, w.label]));
+
+  // Block ranges that failed to scan and are still waiting to be re-scanned
+  const gapCounts = useLiveQuery(() => getGapCounts()) ?? new Map<string, number>();
+  const gapsByCollection = walletCollections.reduce((acc, c) => {
+    const key = c.address.toLowerCase();
+    acc[key] = (acc[key] ?? 0) + (gapCounts.get(getGapStateKey(c.walletAddress, c.address)) ?? 0);
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Collections whose history before the first synced window is still being scanned
+  const pendingBackfills = useLiveQuery(() => getPendingBackfills());
+  const backfilling = new Set(
+    walletCollections
+      .filter((c) => pendingBackfills?.has(getBackfillStateKey(c.walletAddress, c.address)))
+      .map((c) => c.address.toLowerCase())
+  );
+
+  const handleRefresh = () => (scope === 'all' ? refresh() : refreshWallet(scope));
+
   // Group holdings by collection
   const holdingsByCollection = holdings.reduce((acc, holding) => {
-    const key = holding.collectionAddress;
+    const key = holding.collectionAddress.toLowerCase();
     if (!acc[key]) acc[key] = [];
     acc[key].push(holding);
     return acc;
@@ -53,7 +84,7 @@ export default function InventoryPage() {
 
   const totalNFTs = holdings.length;
 
-  if (!isConnected) {
+  if (wallets.length === 0) {
     return (
       <PageWrapper>
         <PageHeader
@@ -64,6 +95,12 @@ export default function InventoryPage() {
         <EmptyState
           icon={<Wallet className="h-8 w-8 text-white/30" />}
           title="Connect your wallet to view NFTs"
+          description="Or watch a wallet read-only"
+          action={
+            <Button asChild variant="outline" className="border-white/[0.1]">
+              <Link href="/wallets">Watch a Wallet</Link>
+            </Button>
+          }
         />
       </PageWrapper>
     );
@@ -73,10 +110,13 @@ export default function InventoryPage() {
     <PageWrapper>
       <PageHeader
         title="Inventory"
-        description={`${totalNFTs} NFTs across ${collections.length} collections`}
+        description={`${totalNFTs} NFTs across ${collections.length} collections${
+          isCombined ? ` in ${addresses.length} wallets` : ''
+        }`}
         icon={<Image className="h-6 w-6 md:h-8 md:w-8 text-purple-500" />}
         action={
           <div className="flex items-center gap-3">
+            <WalletScopeSelect wallets={wallets} value={scope} onChange={setScope} />
             {/* View toggle */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
@@ -110,7 +150,7 @@ export default function InventoryPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={refresh}
+                onClick={handleRefresh}
                 disabled={isLoading}
                 className="border-white/[0.1] bg-white/[0.02]"
               >
@@ -186,6 +226,23 @@ export default function InventoryPage() {
         )}
       </AnimatePresence>
 
+      {/* Last Sync Summary */}
+      <AnimatePresence>
+        {changes && !isSyncingNFTs && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="glass-card rounded-2xl p-4"
+          >
+            <div className="flex items-center gap-3">
+              <CheckCircle2 className="h-5 w-5 text-emerald-400 shrink-0" />
+              <span className="text-sm text-white/70">Synced: {formatSyncChanges(changes)}</span>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* No NFTs */}
       {!isLoading && totalNFTs === 0 && (
         <EmptyState
@@ -194,7 +251,7 @@ export default function InventoryPage() {
           description="Try refreshing to sync your NFTs from Monad"
           action={
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
-              <Button onClick={refresh} variant="outline" className="border-white/[0.1]">
+              <Button onClick={handleRefresh} variant="outline" className="border-white/[0.1]">
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Refresh
               </Button>
@@ -215,8 +272,9 @@ export default function InventoryPage() {
           className="space-y-6"
         >
           {collections.map((collection, index) => {
-            const collectionHoldings = holdingsByCollection[collection.address] || [];
+            const collectionHoldings = holdingsByCollection[collection.address.toLowerCase()] || [];
             if (collectionHoldings.length === 0) return null;
+            const gaps = gapsByCollection[collection.address.toLowerCase()] ?? 0;
 
             return (
               <motion.div
@@ -252,6 +310,23 @@ export default function InventoryPage() {
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
+                    {backfilling.has(collection.address.toLowerCase()) && (
+                      <Badge
+                        variant="secondary"
+                        className="bg-white/[0.05]"
+                        title="Older transfers are still being scanned from the deploy block"
+                      >
+                        Backfilling
+                      </Badge>
+                    )}
+                    {gaps > 0 && (
+                      <Badge
+                        className="bg-amber-500/20 text-amber-300 border-amber-500/30"
+                        title={`${gaps} block range${gaps === 1 ? '' : 's'} still to re-scan`}
+                      >
+                        Incomplete
+                      </Badge>
+                    )}
                     <Badge variant="secondary" className="bg-white/[0.05]">
                       {collection.type}
                     </Badge>
@@ -303,6 +378,11 @@ export default function InventoryPage() {
                           <div className="text-sm font-medium text-white/80 truncate">
                             {holding.name || `Token #${holding.tokenId}`}
                           </div>
+                          {isCombined && (
+                            <div className="text-xs text-white/40 truncate">
+                              {walletLabels.get(holding.ownerAddress)}
+                            </div>
+                          )}
                           {holding.amount > 1 && (
                             <div className="text-xs text-white/40">
                               x{holding.amount}
@@ -351,6 +431,7 @@ export default function InventoryPage() {
                               </div>
                               <div className="text-xs text-white/40">
                                 {collection.name}
+                                {isCombined && ` · ${walletLabels.get(holding.ownerAddress)}`}
                               </div>
                             </div>
                           </div>
@@ -9,6 +9,7 @@ import { Toaster } from 'sonner';
 import { GoogleAnalytics } from '@/components/google-analytics';
 import { DonationPrompt } from '@/components/donation-prompt';
 import { ConsentBanner } from '@/components/consent-banner';
+import { BatchReconciler } from '@/components/batch-reconciler';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -38,6 +39,7 @@ export default function RootLayout({
           </ErrorBoundary>
           <DonationPrompt />
           <ConsentBanner />
+          <BatchReconciler />
           <Toaster
             position="bottom-right"
             toastOptions={{
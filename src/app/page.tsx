@@ -7,7 +7,9 @@ import { formatEther } from 'viem';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { OnboardingChecklist } from '@/components/onboarding-checklist';
-import { useNetworkGuard, useWalletSync } from '@/hooks';
+import { WalletScopeSelect } from '@/components/wallet-scope-select';
+import { useNetworkGuard, useWalletSync, useWalletScope } from '@/hooks';
+import { combineTokenBalances } from '@/features/wallets';
 import { db } from '@/lib/db';
 import { getCurrentPlan, getPlanLimits } from '@/lib/db/plan';
 import { cn } from '@/lib/utils';
@@ -306,19 +308,23 @@ export default function DashboardPage() {
   const { data: balance } = useBalance({ address });
   const { isConnected } = useNetworkGuard();
   const { isLoading: isSyncing, progress, refresh } = useWalletSync();
+  const { wallets, scope, setScope, addresses } = useWalletScope();
 
-  const collections = useLiveQuery(
-    () => address ? db.collections.where('walletAddress').equals(address.toLowerCase()).toArray() : [],
-    [address]
+  const walletCollections = useLiveQuery(
+    () => addresses.length > 0 ? db.collections.where('walletAddress').anyOf(addresses).toArray() : [],
+    [addresses]
   ) ?? [];
   const holdings = useLiveQuery(
-    () => address ? db.holdings.where('ownerAddress').equals(address.toLowerCase()).toArray() : [],
-    [address]
+    () => addresses.length > 0 ? db.holdings.where('ownerAddress').anyOf(addresses).toArray() : [],
+    [addresses]
   ) ?? [];
-  const tokens = useLiveQuery(() =>
-    address ? db.tokens.where('walletAddress').equals(address.toLowerCase()).toArray() : [],
-    [address]
+  const walletTokens = useLiveQuery(() =>
+    addresses.length > 0 ? db.tokens.where('walletAddress').anyOf(addresses).toArray() : [],
+    [addresses]
   ) ?? [];
+  const collections = Array.from(new Set(walletCollections.map((c) => c.address)));
+  const tokens = combineTokenBalances(walletTokens);
+  const watchedCount = wallets.filter((w) => !w.isConnected).length;
   const batches = useLiveQuery(() =>
     db.batches.orderBy('createdAt').reverse().limit(5).toArray()
   ) ?? [];
@@ -480,7 +486,11 @@ export default function DashboardPage() {
           <StatCard
             label="Wallet"
             value={isConnected ? 'Connected' : 'Not Connected'}
-            subValue={address ? `${address.slice(0, 6)}...${address.slice(-4)}` : undefined}
+            subValue={
+              address
+                ? `${address.slice(0, 6)}...${address.slice(-4)}${watchedCount > 0 ? ` +${watchedCount} watched` : ''}`
+                : watchedCount > 0 ? `${watchedCount} watched` : undefined
+            }
             icon={Wallet}
             gradient="from-blue-500 to-cyan-600"
             index={2}
@@ -499,7 +509,7 @@ export default function DashboardPage() {
 
         {/* Token Portfolio */}
         <AnimatePresence>
-          {isConnected && tokens.length > 0 && (
+          {tokens.length > 0 && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -512,18 +522,21 @@ export default function DashboardPage() {
                   <h3 className="font-semibold text-white/90">Token Portfolio</h3>
                   <p className="text-xs md:text-sm text-white/40">{tokens.length} tokens found</p>
                 </div>
-                <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-white/50 hover:text-white/80"
-                    onClick={refresh}
-                    disabled={isSyncing}
-                  >
-                    <RefreshCw className={cn("h-4 w-4 mr-2", isSyncing && "animate-spin")} />
-                    Refresh
-                  </Button>
-                </motion.div>
+                <div className="flex items-center gap-2">
+                  <WalletScopeSelect wallets={wallets} value={scope} onChange={setScope} />
+                  <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-white/50 hover:text-white/80"
+                      onClick={refresh}
+                      disabled={isSyncing}
+                    >
+                      <RefreshCw className={cn("h-4 w-4 mr-2", isSyncing && "animate-spin")} />
+                      Refresh
+                    </Button>
+                  </motion.div>
+                </div>
               </div>
               <div className="p-4">
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useAccount } from 'wagmi';
 import { useLiveQuery } from 'dexie-react-hooks';
+import { type Address } from 'viem';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -24,12 +25,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { db } from '@/lib/db';
+import { db, type StoredSnapshot } from '@/lib/db';
 import { getPlanLimits } from '@/lib/db/plan';
+import { getPublicClient } from '@/lib/chain';
+import { findBlockByTimestamp } from '@/lib/scanner';
 import { truncateAddress } from '@/lib/utils';
+import { useAddressLabels } from '@/hooks/use-address-labels';
+import { formatAddressLabel } from '@/features/address-book';
 import {
+  createClientSnapshot,
+  deleteClientSnapshot,
   exportSnapshotCSV,
+  getClientSnapshotHolders,
+  getClientSnapshots,
+  isClientSnapshotRunning,
+  mergeHolders,
+  runClientSnapshot,
+  streamSnapshot,
   type HolderSnapshot,
+  type SnapshotChunk,
+  type SnapshotChunkProgress,
   type SnapshotProgress,
 } from '@/features/snapshots';
 import {
@@ -39,10 +54,34 @@ import {
   Loader2,
   ExternalLink,
   Search,
+  Trash2,
+  XCircle,
 } from 'lucide-react';
 
+interface SnapshotBlock {
+  blockNumber: string;
+  blockTimestamp: number;
+  method: 'call' | 'logs';
+  standard: 'ERC721' | 'ERC1155';
+}
+
+// Where a snapshot stopped, so a failed or cancelled run can be resumed
+type SnapshotResume =
+  | { engine: 'server'; params: URLSearchParams; cursor: string } // Params pinned to the first chunk's block
+  | { engine: 'browser'; snapshotId: number };
+
+const SNAPSHOT_CANCELLED = 'Snapshot cancelled';
+
+interface SnapshotTotals {
+  holders: Map<string, HolderSnapshot>;
+  scannedTokens: number;
+  failedTokens: number;
+  failedRanges: number;
+}
+
 export default function SnapshotsPage() {
   const { address } = useAccount();
+  const addressLabels = useAddressLabels();
   const collections = useLiveQuery(() => db.collections.toArray()) ?? [];
   const limits = getPlanLimits(address);
 
@@ -51,21 +90,206 @@ export default function SnapshotsPage() {
   const [excludeZero, setExcludeZero] = useState(true);
   const [excludeContracts, setExcludeContracts] = useState(false);
   const [includeTokenIds, setIncludeTokenIds] = useState(true);
+  const [asOf, setAsOf] = useState<'latest' | 'block' | 'time'>('latest');
+  const [blockInput, setBlockInput] = useState('');
+  const [timeInput, setTimeInput] = useState('');
+  const [method, setMethod] = useState<'auto' | 'call' | 'logs'>('auto');
+  const [engine, setEngine] = useState<'server' | 'browser'>('server');
 
   const [isBuilding, setIsBuilding] = useState(false);
   const [progress, setProgress] = useState<SnapshotProgress | null>(null);
   const [snapshot, setSnapshot] = useState<HolderSnapshot[] | null>(null);
   const [snapshotName, setSnapshotName] = useState('');
   const [snapshotWarning, setSnapshotWarning] = useState<string | null>(null);
+  const [snapshotBlock, setSnapshotBlock] = useState<SnapshotBlock | null>(null);
+  const [resume, setResume] = useState<SnapshotResume | null>(null);
+  const totals = useRef<SnapshotTotals>({ holders: new Map(), scannedTokens: 0, failedTokens: 0, failedRanges: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+  const savedSnapshots = useLiveQuery(() => getClientSnapshots()) ?? [];
+
+  /**
+   * Show finished holders, warning when token reads or log ranges failed
+   */
+  const showResults = useCallback((merged: HolderSnapshot[], counts: Omit<SnapshotTotals, 'holders'>) => {
+    const { scannedTokens, failedTokens, failedRanges } = counts;
+
+    // Warn if data is incomplete
+    if (failedTokens > 0) {
+      setSnapshotWarning(
+        `${failedTokens} of ${scannedTokens} tokens could not be queried (RPC errors). This snapshot may be missing holders.`
+      );
+    } else if (failedRanges > 0) {
+      setSnapshotWarning(
+        `${failedRanges} block range(s) of logs could not be fetched. This snapshot may be missing tokens or have stale owners.`
+      );
+    }
+
+    // Map to expected format
+    const holders: HolderSnapshot[] = [...merged]
+      .sort((a, b) => b.count - a.count)
+      .map((h) => ({
+        address: h.address,
+        count: h.count,
+        tokenIds: includeTokenIds ? h.tokenIds : [],
+        quantities: includeTokenIds ? h.quantities : undefined,
+      }));
+
+    setSnapshot(holders);
+    setProgress({ stage: 'complete', currentBlock: 0n, targetBlock: 0n, holdersFound: holders.length });
+  }, [includeTokenIds]);
+
+  /**
+   * Stream the snapshot from the route, merging holders chunk by chunk. The first
+   * chunk pins the snapshot block so a cancelled or failed run can resume from the
+   * last chunk's cursor.
+   */
+  const runSnapshot = useCallback(async (params: URLSearchParams, startCursor: string | null) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBuilding(true);
+    setResume(null);
+    let cursor = startCursor;
+    let pinned = startCursor !== null;
+
+    const showProgress = (chunkProgress?: SnapshotChunkProgress) => {
+      const { holders, failedTokens, failedRanges } = totals.current;
+      setProgress({
+        stage: 'fetching',
+        currentBlock: 0n,
+        targetBlock: 0n,
+        holdersFound: holders.size,
+        processed: chunkProgress?.processed,
+        total: chunkProgress?.total,
+        unit: chunkProgress?.unit,
+        failures: failedTokens + failedRanges,
+      });
+    };
+
+    const handleChunk = (data: SnapshotChunk) => {
+      if (!pinned) {
+        pinned = true;
+        // Use name from API if available
+        if (data.name && data.name !== 'Unknown') {
+          setSnapshotName(data.name);
+        }
+        setSnapshotBlock({
+          blockNumber: data.blockNumber,
+          blockTimestamp: data.blockTimestamp ?? 0,
+          method: data.method,
+          standard: data.standard,
+        });
+        params.set('blockNumber', data.blockNumber);
+        params.delete('timestamp');
+      }
+
+      const current = totals.current;
+      mergeHolders(current.holders, data.holders);
+      current.scannedTokens += data.scannedTokens ?? 0;
+      current.failedTokens += data.failedTokens ?? 0;
+      current.failedRanges += data.failedRanges ?? 0;
+
+      cursor = data.nextCursor ?? null;
+      showProgress(data.progress);
+    };
+
+    try {
+      const streamParams = new URLSearchParams(params);
+      if (cursor) streamParams.set('cursor', cursor);
+      await streamSnapshot(streamParams, {
+        onChunk: handleChunk,
+        onProgress: showProgress,
+        signal: controller.signal,
+      });
+
+      showResults(Array.from(totals.current.holders.values()), totals.current);
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      if (!cancelled) console.error('Snapshot error:', error);
+      // Holders merged so far are kept; the block is already pinned
+      if (cursor) {
+        setResume({ engine: 'server', params, cursor });
+      }
+      setProgress({
+        stage: 'error',
+        currentBlock: 0n,
+        targetBlock: 0n,
+        holdersFound: totals.current.holders.size,
+        error: cancelled
+          ? SNAPSHOT_CANCELLED
+          : error instanceof Error ? error.message : 'Failed to build snapshot',
+      });
+    }
+
+    abortRef.current = null;
+    setIsBuilding(false);
+  }, [showResults]);
+
+  const showBrowserSnapshot = useCallback(async (stored: StoredSnapshot) => {
+    if (stored.name !== 'Unknown') setSnapshotName(stored.name);
+    setSnapshotBlock({
+      blockNumber: String(stored.blockNumber),
+      blockTimestamp: stored.blockTimestamp,
+      method: 'call',
+      standard: 'ERC721',
+    });
+    showResults(await getClientSnapshotHolders(stored.id!), stored);
+  }, [showResults]);
+
+  /**
+   * Build (or resume) a snapshot in the browser. Progress is stored step by step,
+   * so a cancelled run or a reload continues from the last stored token.
+   */
+  const runBrowserSnapshot = useCallback(async (snapshotId: number) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBuilding(true);
+    setResume(null);
+    setSnapshot(null);
+    setSnapshotWarning(null);
+
+    const stop = (error: string) => {
+      setResume({ engine: 'browser', snapshotId });
+      setProgress((prev) => ({
+        stage: 'error',
+        currentBlock: 0n,
+        targetBlock: 0n,
+        holdersFound: prev?.holdersFound ?? 0,
+        error,
+      }));
+    };
+
+    try {
+      const stored = await runClientSnapshot(snapshotId, {
+        signal: controller.signal,
+        onProgress: ({ processed, total, unit, holdersFound, failures }) =>
+          setProgress({ stage: 'fetching', currentBlock: 0n, targetBlock: 0n, holdersFound, processed, total, unit, failures }),
+      });
+      if (stored.status === 'completed') {
+        await showBrowserSnapshot(stored);
+      } else {
+        stop(SNAPSHOT_CANCELLED);
+      }
+    } catch (error) {
+      console.error('Snapshot error:', error);
+      stop(error instanceof Error ? error.message : 'Failed to build snapshot');
+    }
+
+    abortRef.current = null;
+    setIsBuilding(false);
+  }, [showBrowserSnapshot]);
+
+  // Also checked on build: the browser engine turns the block input into a BigInt
+  const asOfMissing = (asOf === 'block' && !/^\d+$/.test(blockInput.trim())) || (asOf === 'time' && !timeInput);
 
   const handleBuildSnapshot = useCallback(async () => {
     const address = selectedCollection || customAddress;
-    if (!address) return;
+    if (!address || asOfMissing) return;
 
-    setIsBuilding(true);
     setProgress({ stage: 'fetching', currentBlock: 0n, targetBlock: 0n, holdersFound: 0 });
     setSnapshot(null);
     setSnapshotWarning(null);
+    setSnapshotBlock(null);
+    totals.current = { holders: new Map(), scannedTokens: 0, failedTokens: 0, failedRanges: 0 };
 
     // Set snapshot name
     const watchedCollection = collections.find((c) => c.address.toLowerCase() === address.toLowerCase());
@@ -75,53 +299,76 @@ export default function SnapshotsPage() {
       setSnapshotName(`Collection-${truncateAddress(address)}`);
     }
 
-    try {
-      // Use API to fetch holders via Moralis
-      const response = await fetch(`/api/snapshot?collection=${address}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to build snapshot');
-      }
-
-      // Use name from API if available
-      if (data.name && data.name !== 'Unknown') {
-        setSnapshotName(data.name);
+    if (engine === 'browser') {
+      setIsBuilding(true);
+      try {
+        const blockNumber = asOf === 'block'
+          ? BigInt(blockInput.trim())
+          : asOf === 'time'
+            ? await findBlockByTimestamp(getPublicClient(), Math.floor(new Date(timeInput).getTime() / 1000))
+            : undefined;
+        const stored = await createClientSnapshot(address as Address, blockNumber);
+        if (stored.name !== 'Unknown') setSnapshotName(stored.name);
+        await runBrowserSnapshot(stored.id!);
+      } catch (error) {
+        console.error('Snapshot error:', error);
+        setProgress({
+          stage: 'error',
+          currentBlock: 0n,
+          targetBlock: 0n,
+          holdersFound: 0,
+          error: error instanceof Error ? error.message : 'Failed to build snapshot',
+        });
+        setIsBuilding(false);
       }
+      return;
+    }
 
-      // Warn if data is incomplete
-      if (data.incomplete && data.failedTokens > 0) {
-        setSnapshotWarning(
-          `${data.failedTokens} of ${data.scannedTokens} tokens could not be queried (RPC errors). This snapshot may be missing holders.`
-        );
-      }
+    const params = new URLSearchParams({ collection: address });
+    if (asOf === 'block' && blockInput.trim()) params.set('blockNumber', blockInput.trim());
+    if (asOf === 'time' && timeInput) {
+      params.set('timestamp', String(Math.floor(new Date(timeInput).getTime() / 1000)));
+    }
+    if (method !== 'auto') params.set('method', method);
 
-      // Map to expected format
-      const holders: HolderSnapshot[] = data.holders.map((h: { address: string; count: number; tokenIds: string[] }) => ({
-        address: h.address,
-        count: h.count,
-        tokenIds: includeTokenIds ? h.tokenIds : [],
-      }));
+    await runSnapshot(params, null);
+  }, [selectedCollection, customAddress, collections, asOf, asOfMissing, blockInput, timeInput, method, engine, runSnapshot, runBrowserSnapshot]);
 
-      setSnapshot(holders);
-      setProgress({ stage: 'complete', currentBlock: 0n, targetBlock: 0n, holdersFound: holders.length });
-    } catch (error) {
-      console.error('Snapshot error:', error);
-      setProgress({
-        stage: 'error',
-        currentBlock: 0n,
-        targetBlock: 0n,
-        holdersFound: 0,
-        error: error instanceof Error ? error.message : 'Failed to build snapshot',
-      });
+  const handleResume = () => {
+    if (!resume) return;
+    if (resume.engine === 'browser') {
+      void runBrowserSnapshot(resume.snapshotId);
+      return;
     }
+    setProgress({ stage: 'fetching', currentBlock: 0n, targetBlock: 0n, holdersFound: totals.current.holders.size });
+    void runSnapshot(resume.params, resume.cursor);
+  };
 
-    setIsBuilding(false);
-  }, [selectedCollection, customAddress, collections, includeTokenIds]);
+  const handleResumeSaved = (stored: StoredSnapshot) => {
+    setSnapshotName(stored.name !== 'Unknown' ? stored.name : `Collection-${truncateAddress(stored.collectionAddress)}`);
+    setProgress({ stage: 'fetching', currentBlock: 0n, targetBlock: 0n, holdersFound: 0 });
+    void runBrowserSnapshot(stored.id!);
+  };
+
+  const handleLoadSaved = async (stored: StoredSnapshot) => {
+    setSnapshotName(`Collection-${truncateAddress(stored.collectionAddress)}`);
+    setSnapshotWarning(null);
+    setResume(null);
+    await showBrowserSnapshot(stored);
+  };
+
+  const handleDeleteSaved = async (stored: StoredSnapshot) => {
+    if (!confirm(`Delete the saved snapshot of ${stored.name} at block ${stored.blockNumber.toLocaleString()}?`)) return;
+    await deleteClientSnapshot(stored.id!);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
   const handleExport = () => {
     if (!snapshot) return;
-    exportSnapshotCSV(snapshot, snapshotName, includeTokenIds);
+    exportSnapshotCSV(snapshot, snapshotName, includeTokenIds, snapshotBlock?.blockNumber);
   };
 
   const collectionAddress = selectedCollection || customAddress;
@@ -178,6 +425,68 @@ export default function SnapshotsPage() {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>As Of</Label>
+              <div className="flex gap-2">
+                <Select value={asOf} onValueChange={(v) => setAsOf(v as typeof asOf)}>
+                  <SelectTrigger className="w-[160px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latest">Latest block</SelectItem>
+                    <SelectItem value="block">Block number</SelectItem>
+                    <SelectItem value="time">Date &amp; time</SelectItem>
+                  </SelectContent>
+                </Select>
+                {asOf === 'block' && (
+                  <Input
+                    placeholder="Block number"
+                    inputMode="numeric"
+                    value={blockInput}
+                    onChange={(e) => setBlockInput(e.target.value)}
+                  />
+                )}
+                {asOf === 'time' && (
+                  <Input
+                    type="datetime-local"
+                    value={timeInput}
+                    onChange={(e) => setTimeInput(e.target.value)}
+                  />
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Ownership Source</Label>
+              <Select
+                value={engine === 'browser' ? 'call' : method}
+                onValueChange={(v) => setMethod(v as typeof method)}
+                disabled={engine === 'browser'}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto</SelectItem>
+                  <SelectItem value="call">ownerOf at block (needs archive RPC)</SelectItem>
+                  <SelectItem value="logs">Replay Transfer logs</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Engine</Label>
+              <Select value={engine} onValueChange={(v) => setEngine(v as typeof engine)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="server">Server (streamed)</SelectItem>
+                  <SelectItem value="browser">Browser multicall (resumable, ERC-721)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="flex flex-wrap gap-4">
             <label className="flex items-center gap-2">
               <input
@@ -210,7 +519,7 @@ export default function SnapshotsPage() {
 
           <Button
             onClick={handleBuildSnapshot}
-            disabled={!collectionAddress || isBuilding}
+            disabled={!collectionAddress || isBuilding || asOfMissing}
             className="w-full md:w-auto"
           >
             {isBuilding ? (
@@ -231,15 +540,34 @@ export default function SnapshotsPage() {
       {/* Progress */}
       {progress && progress.stage !== 'complete' && !progress.error && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin" />
               Building Snapshot
             </CardTitle>
+            <Button size="sm" variant="outline" onClick={handleCancel} disabled={!isBuilding}>
+              <XCircle className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
           </CardHeader>
           <CardContent className="space-y-4">
+            {progress.total ? (
+              <div className="space-y-2">
+                <Progress value={Math.min(100, ((progress.processed ?? 0) / progress.total) * 100)} />
+                <p className="text-xs text-muted-foreground">
+                  {(progress.processed ?? 0).toLocaleString()} / {progress.total.toLocaleString()} {progress.unit}
+                  {' · '}
+                  {progress.holdersFound.toLocaleString()} holders so far
+                  {progress.failures ? ` · ${progress.failures.toLocaleString()} failed` : ''}
+                </p>
+              </div>
+            ) : null}
             <p className="text-sm text-muted-foreground">
-              Querying token owners from the blockchain. This may take 1-2 minutes for large collections...
+              {engine === 'browser'
+                ? 'Reading owners with batched multicalls from your browser. Progress is saved, so the snapshot resumes after a reload...'
+                : method === 'logs'
+                ? 'Replaying Transfer logs from the collection deploy block. This may take a few minutes for older collections...'
+                : 'Querying token owners from the blockchain. This may take 1-2 minutes for large collections...'}
             </p>
             <div className="h-2 bg-muted rounded-full overflow-hidden">
               <div className="h-full bg-primary/50 rounded-full animate-pulse w-full" />
@@ -252,10 +580,93 @@ export default function SnapshotsPage() {
       {progress?.error && (
         <Card className="border-destructive">
           <CardHeader>
-            <CardTitle className="text-destructive">Snapshot Failed</CardTitle>
+            <CardTitle className="text-destructive">
+              {progress.error === SNAPSHOT_CANCELLED ? 'Snapshot Cancelled' : 'Snapshot Failed'}
+            </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-3">
             <p className="text-sm text-destructive">{progress.error}</p>
+            {resume && (
+              <div className="flex items-center gap-3">
+                <Button size="sm" variant="outline" onClick={handleResume} disabled={isBuilding}>
+                  Resume
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  {progress.holdersFound.toLocaleString()} holders found so far are kept
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Saved Browser Snapshots */}
+      {savedSnapshots.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Browser Snapshots</CardTitle>
+            <CardDescription>
+              Snapshots built in this browser, kept across reloads
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Collection</TableHead>
+                  <TableHead>Block</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-40" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {savedSnapshots.map((stored) => {
+                  const isRunning = isClientSnapshotRunning(stored.id!);
+                  // A 'running' snapshot this tab isn't building was cut off by a reload
+                  const status = stored.status === 'running' && !isRunning ? 'interrupted' : stored.status;
+                  return (
+                    <TableRow key={stored.id}>
+                      <TableCell className="font-medium">
+                        {stored.name !== 'Unknown' ? stored.name : truncateAddress(stored.collectionAddress)}
+                      </TableCell>
+                      <TableCell className="tabular-nums">
+                        {stored.blockNumber.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {stored.scannedTokens.toLocaleString()}
+                        {stored.totalSupply !== undefined && ` / ${stored.totalSupply.toLocaleString()}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={stored.status === 'failed' ? 'destructive' : 'secondary'}>
+                          {status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {stored.status === 'completed' ? (
+                          <Button size="sm" variant="ghost" onClick={() => handleLoadSaved(stored)} disabled={isBuilding}>
+                            Load
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="ghost" onClick={() => handleResumeSaved(stored)} disabled={isBuilding}>
+                            Resume
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDeleteSaved(stored)}
+                          disabled={isRunning}
+                          aria-label="Delete snapshot"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
           </CardContent>
         </Card>
       )}
@@ -281,9 +692,23 @@ export default function SnapshotsPage() {
               <CardTitle>Snapshot Results</CardTitle>
               <CardDescription>
                 {snapshot.length} unique holders found
+                {snapshotBlock && (
+                  <>
+                    {' '}at block {Number(snapshotBlock.blockNumber).toLocaleString()} (
+                    {new Date(snapshotBlock.blockTimestamp * 1000).toLocaleString()})
+                  </>
+                )}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
+              {snapshotBlock && (
+                <Badge variant="secondary">{snapshotBlock.standard}</Badge>
+              )}
+              {snapshotBlock && (
+                <Badge variant="secondary">
+                  {snapshotBlock.method === 'logs' ? 'Transfer log replay' : 'ownerOf at block'}
+                </Badge>
+              )}
               <Badge variant="secondary">
                 Export limit: {limits.maxExportRows} rows
               </Badge>
@@ -305,7 +730,9 @@ export default function SnapshotsPage() {
                   <TableRow>
                     <TableHead className="w-12">#</TableHead>
                     <TableHead>Address</TableHead>
-                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">
+                      {snapshotBlock?.standard === 'ERC1155' ? 'Quantity' : 'Count'}
+                    </TableHead>
                     {includeTokenIds && <TableHead>Token IDs</TableHead>}
                   </TableRow>
                 </TableHeader>
@@ -318,7 +745,7 @@ export default function SnapshotsPage() {
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <code className="text-sm bg-muted px-2 py-1 rounded">
-                            {truncateAddress(holder.address, 8)}
+                            {formatAddressLabel(holder.address, addressLabels, 8)}
                           </code>
                           <a
                             href={`https://monadvision.com/address/${holder.address}`}
@@ -336,7 +763,10 @@ export default function SnapshotsPage() {
                       {includeTokenIds && (
                         <TableCell>
                           <div className="max-w-[300px] truncate text-sm text-muted-foreground">
-                            {holder.tokenIds.slice(0, 5).join(', ')}
+                            {holder.tokenIds
+                              .slice(0, 5)
+                              .map((id) => (holder.quantities ? `${id} ×${holder.quantities[id]}` : id))
+                              .join(', ')}
                             {holder.tokenIds.length > 5 && ` +${holder.tokenIds.length - 5} more`}
                           </div>
                         </TableCell>
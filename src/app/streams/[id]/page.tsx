@@ -12,6 +12,7 @@ import { Progress } from '@/components/ui/progress';
 import { NetworkGuard } from '@/components/network-guard';
 import { getPublicClient } from '@/lib/chain/client';
 import { TOKEN_STREAM_ADDRESS } from '@/lib/contracts';
+import { useAddressLabels } from '@/hooks/use-address-labels';
 import {
   Waves,
   ArrowLeft,
@@ -61,6 +62,7 @@ export default function StreamDetailPage() {
   const router = useRouter();
   const { address } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const addressLabels = useAddressLabels();
 
   const streamId = params.id as string;
 
@@ -415,7 +417,12 @@ export default function StreamDetailPage() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
-                    <p className="text-sm text-muted-foreground mb-1">Sender</p>
+                    <p className="text-sm text-muted-foreground mb-1">
+                      Sender
+                      {addressLabels.get(stream.sender.toLowerCase()) && (
+                        <span className="ml-2 text-foreground">{addressLabels.get(stream.sender.toLowerCase())}</span>
+                      )}
+                    </p>
                     <div className="flex items-center gap-2">
                       <code className="text-sm bg-white/5 px-2 py-1 rounded">
                         {stream.sender.slice(0, 10)}...{stream.sender.slice(-8)}
@@ -444,7 +451,12 @@ export default function StreamDetailPage() {
                     )}
                   </div>
                   <div>
-                    <p className="text-sm text-muted-foreground mb-1">Recipient</p>
+                    <p className="text-sm text-muted-foreground mb-1">
+                      Recipient
+                      {addressLabels.get(stream.recipient.toLowerCase()) && (
+                        <span className="ml-2 text-foreground">{addressLabels.get(stream.recipient.toLowerCase())}</span>
+                      )}
+                    </p>
                     <div className="flex items-center gap-2">
                       <code className="text-sm bg-white/5 px-2 py-1 rounded">
                         {stream.recipient.slice(0, 10)}...{stream.recipient.slice(-8)}
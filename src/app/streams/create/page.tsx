@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAccount, useWalletClient } from 'wagmi';
-import { parseUnits, formatUnits, type Address, erc20Abi, parseAbi, isAddress } from 'viem';
+import { parseUnits, formatUnits, type Address, erc20Abi, parseAbi, isAddress, getAddress } from 'viem';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -44,6 +44,11 @@ import {
 import { NetworkGuard } from '@/components/network-guard';
 import { getPublicClient } from '@/lib/chain/client';
 import { TOKEN_STREAM_ADDRESS } from '@/lib/contracts';
+import { isNameInput, resolveNames, resolveRecipient } from '@/lib/names';
+import { markAddressesUsed } from '@/features/address-book';
+import { RecipientInput } from '@/components/recipient-input';
+import { RecipientResolutionHint } from '@/components/recipient-resolution';
+import { useResolvedRecipient } from '@/hooks/use-resolved-recipient';
 import {
   Waves,
   ArrowLeft,
@@ -73,10 +78,29 @@ interface TokenBalance {
 }
 
 interface BatchRecipient {
-  address: string;
+  address: string; // As entered: hex address or name
   amount: string;
   isValid: boolean;
   error?: string;
+  resolvedAddress?: Address; // Checksummed address used for the stream
+  name?: string; // Set when `address` was a name
+  isResolving?: boolean;
+}
+
+/**
+ * Validate a batch row against its resolved address; names must be resolved first
+ */
+function validateBatchRecipient(r: BatchRecipient, self?: string): BatchRecipient {
+  const fail = (error?: string) => ({ ...r, isValid: false, error });
+
+  if (!r.address) return fail(undefined);
+  if (r.isResolving) return fail(undefined);
+  if (!r.resolvedAddress) return fail(r.name ? `Could not resolve "${r.name}"` : 'Invalid address');
+  if (r.resolvedAddress.toLowerCase() === self?.toLowerCase()) return fail('Cannot stream to self');
+  if (!r.amount || isNaN(parseFloat(r.amount)) || parseFloat(r.amount) <= 0) {
+    return fail(r.amount ? 'Invalid amount' : undefined);
+  }
+  return { ...r, isValid: true, error: undefined };
 }
 
 interface PreflightWarning {
@@ -107,6 +131,8 @@ export default function CreateStreamPage() {
 
   // Single Stream State
   const [recipient, setRecipient] = useState('');
+  const recipientLookup = useResolvedRecipient(recipient);
+  const recipientAddress = recipientLookup.resolution?.address;
   const [amount, setAmount] = useState('');
   const [startDate, setStartDate] = useState('');
   const [startTime, setStartTime] = useState('12:00');
@@ -158,52 +184,38 @@ export default function CreateStreamPage() {
 
   const selectedTokenData = tokens.find((t) => t.address === selectedToken);
 
-  // Parse CSV file
-  const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+  // Parse CSV file; names are resolved once here and frozen into the rows
+  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-
-      // Skip header if present
-      const startIndex = lines[0].toLowerCase().includes('address') ? 1 : 0;
-
-      const recipients: BatchRecipient[] = [];
-      for (let i = startIndex; i < lines.length; i++) {
-        const parts = lines[i].split(',').map(p => p.trim());
-        if (parts.length >= 2) {
-          const addr = parts[0];
-          const amt = parts[1];
-
-          let isValid = true;
-          let error: string | undefined;
-
-          if (!isAddress(addr)) {
-            isValid = false;
-            error = 'Invalid address';
-          } else if (addr.toLowerCase() === address?.toLowerCase()) {
-            isValid = false;
-            error = 'Cannot stream to self';
-          } else if (!amt || isNaN(parseFloat(amt)) || parseFloat(amt) <= 0) {
-            isValid = false;
-            error = 'Invalid amount';
-          }
-
-          recipients.push({ address: addr, amount: amt, isValid, error });
-        }
-      }
-
-      setBatchRecipients(recipients);
-    };
-    reader.readAsText(file);
-
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+
+    const text = await file.text();
+    const lines = text.split('\n').filter(line => line.trim());
+
+    // Skip header if present
+    const startIndex = lines[0].toLowerCase().includes('address') ? 1 : 0;
+
+    const rows = lines
+      .slice(startIndex)
+      .map(line => line.split(',').map(p => p.trim()))
+      .filter(parts => parts.length >= 2);
+    const names = await resolveNames(rows.map(([addr]) => addr).filter(isNameInput));
+
+    const recipients = rows.map(([addr, amt]) => {
+      const isName = isNameInput(addr);
+      const resolved = isName ? names.get(addr.toLowerCase())?.address : isAddress(addr) ? getAddress(addr) : undefined;
+      return validateBatchRecipient(
+        { address: addr, amount: amt, isValid: false, resolvedAddress: resolved, name: isName ? addr : undefined },
+        address
+      );
+    });
+
+    setBatchRecipients(recipients);
   }, [address]);
 
   // Add manual batch recipient
@@ -214,29 +226,32 @@ export default function CreateStreamPage() {
   // Update batch recipient
   const updateBatchRecipient = (index: number, field: 'address' | 'amount', value: string) => {
     const updated = [...batchRecipients];
-    updated[index][field] = value;
-
-    // Validate
-    const addr = updated[index].address;
-    const amt = updated[index].amount;
-
-    if (!addr || !isAddress(addr)) {
-      updated[index].isValid = false;
-      updated[index].error = addr ? 'Invalid address' : undefined;
-    } else if (addr.toLowerCase() === address?.toLowerCase()) {
-      updated[index].isValid = false;
-      updated[index].error = 'Cannot stream to self';
-    } else if (!amt || isNaN(parseFloat(amt)) || parseFloat(amt) <= 0) {
-      updated[index].isValid = false;
-      updated[index].error = amt ? 'Invalid amount' : undefined;
-    } else {
-      updated[index].isValid = true;
-      updated[index].error = undefined;
+    const row = { ...updated[index], [field]: value };
+
+    if (field === 'address') {
+      const isName = isNameInput(value);
+      row.name = isName ? value.trim() : undefined;
+      row.resolvedAddress = !isName && isAddress(value) ? getAddress(value) : undefined;
+      row.isResolving = isName;
+      if (isName) resolveBatchRecipientName(index, value);
     }
 
+    updated[index] = validateBatchRecipient(row, address);
     setBatchRecipients(updated);
   };
 
+  // Resolve a name typed into a batch row; ignored if the row changed meanwhile
+  const resolveBatchRecipientName = async (index: number, value: string) => {
+    const resolution = await resolveRecipient(value);
+    setBatchRecipients((rows) =>
+      rows.map((r, i) =>
+        i === index && r.address === value
+          ? validateBatchRecipient({ ...r, resolvedAddress: resolution.address, isResolving: false }, address)
+          : r
+      )
+    );
+  };
+
   // Remove batch recipient
   const removeBatchRecipient = (index: number) => {
     setBatchRecipients(batchRecipients.filter((_, i) => i !== index));
@@ -318,14 +333,14 @@ export default function CreateStreamPage() {
         }
       } else {
         // Single mode checks
-        if (recipient && !isAddress(recipient)) {
+        if (recipient && !recipientAddress) {
           warnings.push({
             type: 'invalid_recipient',
-            message: 'Recipient address is invalid.',
+            message: recipientLookup.resolution?.error ?? 'Recipient address is invalid.',
             severity: 'error',
           });
         }
-        if (recipient && recipient.toLowerCase() === address?.toLowerCase()) {
+        if (recipientAddress && recipientAddress.toLowerCase() === address?.toLowerCase()) {
           warnings.push({
             type: 'invalid_recipient',
             message: 'Cannot create a stream to yourself.',
@@ -341,7 +356,7 @@ export default function CreateStreamPage() {
     } finally {
       setCheckingPreflight(false);
     }
-  }, [selectedToken, selectedTokenData, mode, amount, totalBatchAmount, batchRecipients, recipient, address]);
+  }, [selectedToken, selectedTokenData, mode, amount, totalBatchAmount, batchRecipients, recipient, recipientAddress, recipientLookup.resolution, address]);
 
   // Get timestamp from date and time inputs
   const getTimestamp = (date: string, time: string) => {
@@ -352,7 +367,7 @@ export default function CreateStreamPage() {
 
   // Create single stream
   const handleCreateSingleStream = useCallback(async () => {
-    if (!walletClient || !selectedTokenData || !TOKEN_STREAM_ADDRESS) return;
+    if (!walletClient || !selectedTokenData || !TOKEN_STREAM_ADDRESS || !recipientAddress) return;
 
     setIsExecuting(true);
     setResult(null);
@@ -380,7 +395,7 @@ export default function CreateStreamPage() {
         abi: STREAM_ABI,
         functionName: 'createStream',
         args: [
-          recipient as Address,
+          recipientAddress,
           selectedToken as Address,
           amountWei,
           BigInt(start),
@@ -396,6 +411,7 @@ export default function CreateStreamPage() {
         txHash: createHash,
         streamIds: ['View on explorer'],
       });
+      markAddressesUsed([recipientAddress]);
 
       // Clear form
       setRecipient('');
@@ -409,7 +425,7 @@ export default function CreateStreamPage() {
     } finally {
       setIsExecuting(false);
     }
-  }, [walletClient, selectedToken, selectedTokenData, recipient, amount, startDate, startTime, endDate, endTime, cliffMonths]);
+  }, [walletClient, selectedToken, selectedTokenData, recipientAddress, amount, startDate, startTime, endDate, endTime, cliffMonths]);
 
   // Create batch streams
   const handleCreateBatchStreams = useCallback(async () => {
@@ -420,7 +436,7 @@ export default function CreateStreamPage() {
 
     try {
       const validRecipients = batchRecipients.filter(r => r.isValid);
-      const addresses = validRecipients.map(r => r.address as Address);
+      const addresses = validRecipients.map(r => r.resolvedAddress!);
       const amounts = validRecipients.map(r => parseUnits(r.amount, selectedTokenData.decimals));
       const totalAmount = amounts.reduce((a, b) => a + b, 0n);
 
@@ -461,6 +477,7 @@ export default function CreateStreamPage() {
         txHash: createHash,
         streamIds: [`${validRecipients.length} streams created`],
       });
+      markAddressesUsed(addresses);
 
       setBatchRecipients([]);
       setConfirmDialogOpen(false);
@@ -475,8 +492,8 @@ export default function CreateStreamPage() {
   }, [walletClient, selectedToken, selectedTokenData, batchRecipients, batchStartDate, batchStartTime, batchEndDate, batchEndTime, batchCliffMonths]);
 
   // Form validation
-  const isSingleFormValid = selectedToken && recipient && amount && startDate && endDate &&
-    isAddress(recipient) && recipient.toLowerCase() !== address?.toLowerCase() &&
+  const isSingleFormValid = selectedToken && recipientAddress && amount && startDate && endDate &&
+    recipientAddress.toLowerCase() !== address?.toLowerCase() &&
     parseFloat(amount) > 0 && getTimestamp(startDate, startTime) >= Date.now() / 1000 &&
     getTimestamp(endDate, endTime) > getTimestamp(startDate, startTime);
 
@@ -582,13 +599,14 @@ export default function CreateStreamPage() {
                     <div className="space-y-2">
                       <Label className="flex items-center gap-2">
                         <User className="h-4 w-4" />
-                        Recipient Address
+                        Recipient
                       </Label>
-                      <Input
-                        placeholder="0x..."
+                      <RecipientInput
+                        placeholder="0x... or name"
                         value={recipient}
-                        onChange={(e) => setRecipient(e.target.value)}
+                        onChange={setRecipient}
                       />
+                      <RecipientResolutionHint {...recipientLookup} />
                     </div>
 
                     {/* Amount */}
@@ -755,7 +773,7 @@ export default function CreateStreamPage() {
                             Click to upload or drag & drop
                           </p>
                           <p className="text-xs text-muted-foreground mt-1">
-                            CSV format: address,amount
+                            CSV format: address,amount (address may be a name)
                           </p>
                         </label>
                       </div>
@@ -784,12 +802,17 @@ export default function CreateStreamPage() {
                               {batchRecipients.map((r, i) => (
                                 <TableRow key={i}>
                                   <TableCell>
-                                    <Input
+                                    <RecipientInput
                                       value={r.address}
-                                      onChange={(e) => updateBatchRecipient(i, 'address', e.target.value)}
-                                      placeholder="0x..."
+                                      onChange={(value) => updateBatchRecipient(i, 'address', value)}
+                                      placeholder="0x... or name"
                                       className="h-8"
                                     />
+                                    {r.name && r.resolvedAddress && (
+                                      <p className="text-xs text-muted-foreground font-mono mt-1">
+                                        → {r.resolvedAddress.slice(0, 10)}...{r.resolvedAddress.slice(-8)}
+                                      </p>
+                                    )}
                                   </TableCell>
                                   <TableCell>
                                     <Input
@@ -801,7 +824,9 @@ export default function CreateStreamPage() {
                                     />
                                   </TableCell>
                                   <TableCell>
-                                    {r.isValid ? (
+                                    {r.isResolving ? (
+                                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                    ) : r.isValid ? (
                                       <CheckCircle2 className="h-4 w-4 text-green-500" />
                                     ) : r.error ? (
                                       <span className="text-xs text-destructive">{r.error}</span>
@@ -1005,7 +1030,10 @@ export default function CreateStreamPage() {
                     <p>You are about to create a stream:</p>
                     <ul className="list-disc list-inside text-sm space-y-1">
                       <li><strong>{amount}</strong> {selectedTokenData?.symbol}</li>
-                      <li>To: {recipient?.slice(0, 10)}...{recipient?.slice(-8)}</li>
+                      <li>
+                        To: {recipientLookup.resolution?.name && <>{recipientLookup.resolution.name} → </>}
+                        {recipientAddress?.slice(0, 10)}...{recipientAddress?.slice(-8)}
+                      </li>
                       <li>Duration: {startDate} to {endDate}</li>
                       {parseInt(cliffMonths) > 0 && <li>Cliff: {cliffMonths} month(s)</li>}
                     </ul>
@@ -1015,6 +1043,11 @@ export default function CreateStreamPage() {
                     <p>You are about to create {batchRecipients.filter(r => r.isValid).length} streams:</p>
                     <ul className="list-disc list-inside text-sm space-y-1">
                       <li>Total: <strong>{totalBatchAmount.toFixed(4)}</strong> {selectedTokenData?.symbol}</li>
+                      {batchRecipients.filter(r => r.isValid && r.name).map((r, i) => (
+                        <li key={i} className="font-mono text-xs">
+                          {r.name} → {r.resolvedAddress}
+                        </li>
+                      ))}
                       <li>Duration: {batchStartDate} to {batchEndDate}</li>
                       {parseInt(batchCliffMonths) > 0 && <li>Cliff: {batchCliffMonths} month(s)</li>}
                     </ul>
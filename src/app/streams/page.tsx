@@ -19,6 +19,10 @@ import { PageWrapper, PageHeader, StatCard, AnimatedCard, EmptyState } from '@/c
 import { getPublicClient } from '@/lib/chain/client';
 import { TOKEN_STREAM_ADDRESS } from '@/lib/contracts';
 import { cn } from '@/lib/utils';
+import { useAddressLabels } from '@/hooks/use-address-labels';
+import { useWalletScope } from '@/hooks/use-wallet-scope';
+import { WalletScopeSelect } from '@/components/wallet-scope-select';
+import { formatAddressLabel } from '@/features/address-book';
 import {
   Waves,
   Plus,
@@ -63,6 +67,9 @@ const tokenCache: Record<string, { symbol: string; decimals: number }> = {};
 
 export default function StreamsPage() {
   const { address } = useAccount();
+  const addressLabels = useAddressLabels();
+  const { wallets, scope, setScope, addresses, isCombined } = useWalletScope();
+  const walletLabels = new Map(wallets.map((w) => [w.address, w.label]));
   const { data: walletClient } = useWalletClient();
 
   const [tab, setTab] = useState<'incoming' | 'outgoing'>('incoming');
@@ -106,7 +113,7 @@ export default function StreamsPage() {
   };
 
   const loadStreams = useCallback(async () => {
-    if (!address || !TOKEN_STREAM_ADDRESS) return;
+    if (addresses.length === 0 || !TOKEN_STREAM_ADDRESS) return;
 
     setLoading(true);
     setError(null);
@@ -114,12 +121,18 @@ export default function StreamsPage() {
     try {
       const client = getPublicClient();
 
-      const streamIds = await client.readContract({
-        address: TOKEN_STREAM_ADDRESS,
-        abi: STREAM_ABI,
-        functionName: tab === 'incoming' ? 'getRecipientStreams' : 'getSenderStreams',
-        args: [address],
-      }) as bigint[];
+      // One lookup per wallet in scope; a stream between two of them is listed once
+      const idLists = await Promise.all(
+        addresses.map((wallet) =>
+          client.readContract({
+            address: TOKEN_STREAM_ADDRESS!,
+            abi: STREAM_ABI,
+            functionName: tab === 'incoming' ? 'getRecipientStreams' : 'getSenderStreams',
+            args: [wallet as Address],
+          }) as Promise<bigint[]>
+        )
+      );
+      const streamIds = Array.from(new Set(idLists.flat()));
 
       const streamDetails = await Promise.all(
         streamIds.map(async (id) => {
@@ -177,13 +190,17 @@ export default function StreamsPage() {
     } finally {
       setLoading(false);
     }
-  }, [address, tab, getTokenInfo]);
+  }, [addresses, tab, getTokenInfo]);
 
   useEffect(() => {
-    if (address && isContractDeployed) {
+    if (addresses.length > 0 && isContractDeployed) {
       loadStreams();
     }
-  }, [address, tab, isContractDeployed, loadStreams]);
+  }, [addresses, tab, isContractDeployed, loadStreams]);
+
+  // Only the connected wallet can withdraw; watched wallets' streams are read-only
+  const canWithdraw = (stream: StreamInfo) =>
+    !!address && stream.recipient.toLowerCase() === address.toLowerCase();
 
   const handleWithdraw = useCallback(async (streamId: bigint) => {
     if (!walletClient || !TOKEN_STREAM_ADDRESS) return;
@@ -210,7 +227,7 @@ export default function StreamsPage() {
   const handleWithdrawAll = useCallback(async () => {
     if (!walletClient || !TOKEN_STREAM_ADDRESS) return;
 
-    const withdrawableStreams = streams.filter(s => s.withdrawable > 0n);
+    const withdrawableStreams = streams.filter(s => s.withdrawable > 0n && canWithdraw(s));
     if (withdrawableStreams.length === 0) return;
 
     setWithdrawing(-1n);
@@ -230,7 +247,7 @@ export default function StreamsPage() {
     } finally {
       setWithdrawing(null);
     }
-  }, [walletClient, streams, loadStreams]);
+  }, [walletClient, streams, loadStreams, address]);
 
   const getProgress = (stream: StreamInfo) => {
     const now = Date.now() / 1000;
@@ -272,7 +289,8 @@ export default function StreamsPage() {
     );
   };
 
-  const totalWithdrawable = streams.reduce((acc, s) => acc + s.withdrawable, 0n);
+  const claimableStreams = streams.filter(s => s.withdrawable > 0n && canWithdraw(s));
+  const totalWithdrawable = claimableStreams.reduce((acc, s) => acc + s.withdrawable, 0n);
   const totalStreaming = streams.filter(s => s.status === 'streaming').length;
 
   return (
@@ -283,14 +301,17 @@ export default function StreamsPage() {
           description="Manage your token streams and vesting schedules"
           icon={<Waves className="h-6 w-6 md:h-8 md:w-8 text-cyan-500" />}
           action={
-            <Link href="/streams/create">
-              <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
-                <Button className="bg-gradient-to-r from-cyan-500 to-blue-500 w-full sm:w-auto shadow-lg shadow-cyan-500/25">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Create Stream
-                </Button>
-              </motion.div>
-            </Link>
+            <div className="flex items-center gap-2">
+              <WalletScopeSelect wallets={wallets} value={scope} onChange={setScope} />
+              <Link href="/streams/create">
+                <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <Button className="bg-gradient-to-r from-cyan-500 to-blue-500 w-full sm:w-auto shadow-lg shadow-cyan-500/25">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create Stream
+                  </Button>
+                </motion.div>
+              </Link>
+            </div>
           }
         />
 
@@ -362,7 +383,7 @@ export default function StreamsPage() {
                   <div>
                     <p className="font-semibold text-white/90">Claim All Available Tokens</p>
                     <p className="text-sm text-white/50">
-                      {streams.filter(s => s.withdrawable > 0n).length} streams have withdrawable tokens
+                      {claimableStreams.length} streams have withdrawable tokens
                     </p>
                   </div>
                   <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
@@ -504,8 +525,13 @@ export default function StreamsPage() {
                       </p>
                       <p className="text-sm text-white/50">
                         {type === 'incoming' ? 'From' : 'To'}:{' '}
-                        {(type === 'incoming' ? stream.sender : stream.recipient).slice(0, 6)}...
-                        {(type === 'incoming' ? stream.sender : stream.recipient).slice(-4)}
+                        {formatAddressLabel(type === 'incoming' ? stream.sender : stream.recipient, addressLabels)}
+                        {isCombined && (
+                          <span className="text-white/30">
+                            {' · '}
+                            {walletLabels.get((type === 'incoming' ? stream.recipient : stream.sender).toLowerCase())}
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -535,23 +561,27 @@ export default function StreamsPage() {
                         {formatAmount(stream.withdrawable, stream.tokenDecimals)} {stream.tokenSymbol} available
                       </p>
                     </div>
-                    <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
-                      <Button
-                        size="sm"
-                        onClick={(e) => {
-                          e.preventDefault();
-                          handleWithdraw(stream.id);
-                        }}
-                        disabled={withdrawing !== null}
-                        className="bg-green-600 hover:bg-green-500"
-                      >
-                        {withdrawing === stream.id ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          'Withdraw'
-                        )}
-                      </Button>
-                    </motion.div>
+                    {canWithdraw(stream) ? (
+                      <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                        <Button
+                          size="sm"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            handleWithdraw(stream.id);
+                          }}
+                          disabled={withdrawing !== null}
+                          className="bg-green-600 hover:bg-green-500"
+                        >
+                          {withdrawing === stream.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Withdraw'
+                          )}
+                        </Button>
+                      </motion.div>
+                    ) : (
+                      <Badge variant="secondary" className="bg-white/[0.05]">Watch-only</Badge>
+                    )}
                   </motion.div>
                 )}
               </div>
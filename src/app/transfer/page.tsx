@@ -3,7 +3,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useAccount, useWalletClient, useBalance } from 'wagmi';
 import { useLiveQuery } from 'dexie-react-hooks';
-import Papa from 'papaparse';
 import { parseEther, formatEther, type Address, erc20Abi } from 'viem';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
@@ -19,14 +18,34 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { NetworkGuard } from '@/components/network-guard';
+import { StuckBatchItems } from '@/components/stuck-batch-items';
+import { RecipientInput } from '@/components/recipient-input';
+import { RecipientResolutionHint } from '@/components/recipient-resolution';
+import { AddressBookFileButton } from '@/components/address-book-file-button';
+import { ImportIssuesCard, PreflightSummary } from '@/components/import-review';
+import { BulkDisperse } from '@/components/bulk-disperse';
+import { NFTQuantityList, parseNFTQuantity } from '@/components/nft-quantity-list';
+import { useResolvedRecipient } from '@/hooks/use-resolved-recipient';
 import { PageWrapper, PageHeader, AnimatedCard, EmptyState } from '@/components/ui/page-wrapper';
 import { db, type NFTHolding } from '@/lib/db';
 import { getPlanLimits } from '@/lib/db/plan';
+import {
+  detectImportLayout,
+  importNFTTransfers,
+  parseImportText,
+  readImportFile,
+  resolveImportNames,
+  type ImportResult,
+} from '@/features/import';
+import { markAddressesUsed, formatAddressLabel } from '@/features/address-book';
+import { useAddressLabels } from '@/hooks/use-address-labels';
 import { truncateAddress, formatMon } from '@/lib/utils';
 import { getPublicClient } from '@/lib/chain/client';
 import {
   executeNFTTransfers,
+  preflightNFTTransfers,
   type NFTTransferItem,
+  type PreflightResult,
 } from '@/lib/batch-engine';
 import {
   Send,
@@ -42,6 +61,8 @@ import {
   CircleDollarSign,
   Check,
   ArrowRight,
+  FileSpreadsheet,
+  ShieldCheck,
 } from 'lucide-react';
 
 type TabType = 'nft' | 'token' | 'mon';
@@ -61,6 +82,12 @@ export default function TransferPage() {
   const { data: walletClient } = useWalletClient();
   const { data: monBalance } = useBalance({ address });
   const holdings = useLiveQuery(() => db.holdings.toArray()) ?? [];
+  const addressLabels = useAddressLabels();
+  const watchedCollections = useLiveQuery(
+    () => (address ? db.collections.where('walletAddress').equals(address.toLowerCase()).toArray() : []),
+    [address]
+  ) ?? [];
+  const collectionInfo = new Map(watchedCollections.map((c) => [c.address.toLowerCase(), c]));
   const limits = getPlanLimits(address);
 
   // UI State
@@ -70,6 +97,7 @@ export default function TransferPage() {
   // NFT State
   const [selectedCollection, setSelectedCollection] = useState<string>('');
   const [selectedNFTs, setSelectedNFTs] = useState<Set<string>>(new Set());
+  const [nftQuantities, setNftQuantities] = useState<Record<string, string>>({});
   const [nftRecipient, setNftRecipient] = useState('');
 
   // Token State
@@ -83,9 +111,20 @@ export default function TransferPage() {
   const [monAmount, setMonAmount] = useState('');
   const [monRecipient, setMonRecipient] = useState('');
 
+  // Recipients may be names; sends use the resolved address
+  const nftRecipientLookup = useResolvedRecipient(nftRecipient);
+  const tokenRecipientLookup = useResolvedRecipient(tokenRecipient);
+  const monRecipientLookup = useResolvedRecipient(monRecipient);
+  const nftRecipientAddress = nftRecipientLookup.resolution?.address;
+  const tokenRecipientAddress = tokenRecipientLookup.resolution?.address;
+  const monRecipientAddress = monRecipientLookup.resolution?.address;
+
   // Pro Mode State
   const [csvInput, setCsvInput] = useState('');
-  const [parsedItems, setParsedItems] = useState<NFTTransferItem[]>([]);
+  const [importResult, setImportResult] = useState<ImportResult<NFTTransferItem> | null>(null);
+  const parsedItems = importResult?.items ?? [];
+  const [bulkPreflight, setBulkPreflight] = useState<PreflightResult | null>(null);
+  const [checkingPreflight, setCheckingPreflight] = useState(false);
 
   // Execution State
   const [isExecuting, setIsExecuting] = useState(false);
@@ -111,6 +150,14 @@ export default function TransferPage() {
       h.ownerAddress === address?.toLowerCase()
   );
 
+  // ERC-1155 ids need a quantity; ERC-721 ids are always 1
+  const selectedCollectionType = collectionInfo.get(selectedCollection.toLowerCase())?.type ?? 'ERC721';
+  const selectedHoldings = collectionNFTs.filter((n) => selectedNFTs.has(n.tokenId));
+  const quantityHoldings = selectedCollectionType === 'ERC1155' ? selectedHoldings : [];
+  const hasInvalidQuantity = quantityHoldings.some(
+    (h) => parseNFTQuantity(nftQuantities[h.tokenId], h.amount) === null
+  );
+
   // Load tokens when Token tab is active
   useEffect(() => {
     if (activeTab === 'token' && address && tokens.length === 0 && !loadingTokens) {
@@ -148,20 +195,25 @@ export default function TransferPage() {
   // Clear selection
   const clearSelection = () => {
     setSelectedNFTs(new Set());
+    setNftQuantities({});
   };
 
   // Execute NFT transfer (Lite mode)
   const handleNFTTransfer = useCallback(async () => {
-    if (!address || !walletClient || selectedNFTs.size === 0 || !nftRecipient) return;
+    if (!address || !walletClient || selectedHoldings.length === 0 || !nftRecipientAddress || hasInvalidQuantity) return;
 
     setIsExecuting(true);
     setExecutionResult(null);
 
-    const items: NFTTransferItem[] = Array.from(selectedNFTs).map((tokenId) => ({
-      to: nftRecipient,
-      tokenId,
+    const items: NFTTransferItem[] = selectedHoldings.map((holding) => ({
+      to: nftRecipientAddress,
+      ...(nftRecipientLookup.resolution?.name ? { toName: nftRecipientLookup.resolution.name } : {}),
+      tokenId: holding.tokenId,
+      ...(selectedCollectionType === 'ERC1155'
+        ? { amount: parseNFTQuantity(nftQuantities[holding.tokenId], holding.amount)! }
+        : {}),
       collectionAddress: selectedCollection,
-      collectionType: 'ERC721',
+      collectionType: selectedCollectionType,
     }));
 
     try {
@@ -175,6 +227,8 @@ export default function TransferPage() {
         onBatchComplete: () => {
           setIsExecuting(false);
           setSelectedNFTs(new Set());
+          setNftQuantities({});
+          markAddressesUsed([nftRecipientAddress]);
         },
         onBatchFailed: (error) => {
           setIsExecuting(false);
@@ -188,11 +242,11 @@ export default function TransferPage() {
         error: error instanceof Error ? error.message : 'Transfer failed',
       });
     }
-  }, [address, walletClient, selectedNFTs, nftRecipient, selectedCollection]);
+  }, [address, walletClient, selectedHoldings, nftRecipientAddress, nftRecipientLookup.resolution, selectedCollection, selectedCollectionType, nftQuantities, hasInvalidQuantity]);
 
   // Execute Token transfer
   const handleTokenTransfer = useCallback(async () => {
-    if (!address || !walletClient || !selectedToken || !tokenAmount || !tokenRecipient) return;
+    if (!address || !walletClient || !selectedToken || !tokenAmount || !tokenRecipientAddress) return;
 
     setIsExecuting(true);
     setExecutionResult(null);
@@ -207,10 +261,11 @@ export default function TransferPage() {
         address: selectedToken as Address,
         abi: erc20Abi,
         functionName: 'transfer',
-        args: [tokenRecipient as Address, amount],
+        args: [tokenRecipientAddress, amount],
       });
 
       setExecutionResult({ success: true, txHash: hash });
+      markAddressesUsed([tokenRecipientAddress]);
       setTokenAmount('');
       setTokenRecipient('');
     } catch (error) {
@@ -221,22 +276,23 @@ export default function TransferPage() {
     } finally {
       setIsExecuting(false);
     }
-  }, [address, walletClient, selectedToken, tokenAmount, tokenRecipient, tokens]);
+  }, [address, walletClient, selectedToken, tokenAmount, tokenRecipientAddress, tokens]);
 
   // Execute MON transfer
   const handleMONTransfer = useCallback(async () => {
-    if (!address || !walletClient || !monAmount || !monRecipient) return;
+    if (!address || !walletClient || !monAmount || !monRecipientAddress) return;
 
     setIsExecuting(true);
     setExecutionResult(null);
 
     try {
       const hash = await walletClient.sendTransaction({
-        to: monRecipient as Address,
+        to: monRecipientAddress,
         value: parseEther(monAmount),
       });
 
       setExecutionResult({ success: true, txHash: hash });
+      markAddressesUsed([monRecipientAddress]);
       setMonAmount('');
       setMonRecipient('');
     } catch (error) {
@@ -247,26 +303,102 @@ export default function TransferPage() {
     } finally {
       setIsExecuting(false);
     }
-  }, [address, walletClient, monAmount, monRecipient]);
-
-  // Pro mode CSV parse
-  const handleCSVParse = () => {
-    const parsed = Papa.parse<string[]>(csvInput.trim(), { skipEmptyLines: true });
-    const items: NFTTransferItem[] = [];
-
-    for (const row of parsed.data) {
-      if (row.length >= 2) {
-        const [to, tokenId] = row;
-        items.push({
-          to: to.trim(),
-          tokenId: tokenId.trim(),
-          collectionAddress: selectedCollection,
-          collectionType: 'ERC721',
-        });
-      }
+  }, [address, walletClient, monAmount, monRecipientAddress]);
+
+  // Pro mode import: validate rows into typed transfers, keeping every rejected row
+  const runImport = async (rows: string[][]) => {
+    const layout = detectImportLayout(rows, 'nft');
+    const collectionTypes = new Map(
+      watchedCollections.map((c) => [c.address.toLowerCase(), c.type] as const)
+    );
+    setBulkPreflight(null);
+    setImportResult(
+      importNFTTransfers(rows, layout, {
+        names: await resolveImportNames(rows, layout),
+        collectionTypes,
+        defaultCollection: selectedCollection || undefined,
+        maxItems: limits.maxBatchSize,
+      })
+    );
+  };
+
+  const handleCSVParse = async () => {
+    try {
+      await runImport(parseImportText(csvInput));
+    } catch (error) {
+      setImportResult(null);
+      setExecutionResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import rows',
+      });
     }
+  };
 
-    setParsedItems(items.slice(0, limits.maxBatchSize));
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await runImport(await readImportFile(file));
+    } catch (error) {
+      setImportResult(null);
+      setExecutionResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read file',
+      });
+    }
+  };
+
+  // Pro mode: imported transfers must pass preflight before they can be sent
+  const handleBulkPreflight = async () => {
+    if (!address || parsedItems.length === 0) return;
+
+    setCheckingPreflight(true);
+    try {
+      setBulkPreflight(await preflightNFTTransfers(parsedItems, address));
+    } catch (error) {
+      setExecutionResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Preflight failed',
+      });
+    } finally {
+      setCheckingPreflight(false);
+    }
+  };
+
+  const handleBulkNFTTransfer = async () => {
+    if (!address || !walletClient || !bulkPreflight?.valid) return;
+
+    setIsExecuting(true);
+    setExecutionResult(null);
+
+    try {
+      await executeNFTTransfers(parsedItems, address, walletClient, {
+        onItemComplete: (index, txHash) => {
+          setExecutionResult({ success: true, txHash });
+        },
+        onItemFailed: (index, error) => {
+          setExecutionResult({ success: false, error });
+        },
+        onBatchComplete: () => {
+          markAddressesUsed(parsedItems.map((item) => item.to));
+          setImportResult(null);
+          setBulkPreflight(null);
+          setCsvInput('');
+        },
+        onBatchFailed: (error) => {
+          setExecutionResult({ success: false, error });
+        },
+      });
+    } catch (error) {
+      setExecutionResult({
+        success: false,
+        error: error instanceof Error ? error.message : 'Transfer failed',
+      });
+    } finally {
+      setIsExecuting(false);
+    }
   };
 
   const selectedTokenData = tokens.find((t) => t.address === selectedToken);
@@ -364,6 +496,7 @@ export default function TransferPage() {
                       <Select value={selectedCollection} onValueChange={(v) => {
                         setSelectedCollection(v);
                         setSelectedNFTs(new Set());
+                        setNftQuantities({});
                       }}>
                         <SelectTrigger className="bg-white/[0.03] border-white/[0.08]">
                           <SelectValue placeholder="Select a collection" />
@@ -371,7 +504,7 @@ export default function TransferPage() {
                         <SelectContent>
                           {myCollections.map((c) => (
                             <SelectItem key={c.collectionAddress} value={c.collectionAddress}>
-                              {c.name || truncateAddress(c.collectionAddress)} ({holdings.filter(h => h.collectionAddress === c.collectionAddress && h.ownerAddress === address?.toLowerCase()).length} owned)
+                              {collectionInfo.get(c.collectionAddress.toLowerCase())?.name || truncateAddress(c.collectionAddress)} ({holdings.filter(h => h.collectionAddress === c.collectionAddress && h.ownerAddress === address?.toLowerCase()).length} owned)
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -451,6 +584,11 @@ export default function TransferPage() {
                                     </div>
                                   </motion.div>
                                 )}
+                                {selectedCollectionType === 'ERC1155' && (
+                                  <span className="absolute top-1 right-1 rounded bg-black/60 px-1 text-xs text-white">
+                                    ×{nft.amount}
+                                  </span>
+                                )}
                                 <div className="absolute bottom-0 left-0 right-0 bg-black/60 px-1 py-0.5">
                                   <span className="text-xs text-white truncate">#{nft.tokenId}</span>
                                 </div>
@@ -476,19 +614,30 @@ export default function TransferPage() {
                               <Send className="h-5 w-5 text-purple-500" />
                               Send {selectedNFTs.size} NFT{selectedNFTs.size > 1 ? 's' : ''}
                             </h3>
+                            {quantityHoldings.length > 0 && (
+                              <div className="space-y-2">
+                                <Label className="text-white/70">Quantities</Label>
+                                <NFTQuantityList
+                                  holdings={quantityHoldings}
+                                  quantities={nftQuantities}
+                                  onChange={(tokenId, value) => setNftQuantities((prev) => ({ ...prev, [tokenId]: value }))}
+                                />
+                              </div>
+                            )}
                             <div className="space-y-2">
-                              <Label className="text-white/70">Recipient Address</Label>
-                              <Input
-                                placeholder="0x..."
+                              <Label className="text-white/70">Recipient</Label>
+                              <RecipientInput
+                                placeholder="0x... or name"
                                 value={nftRecipient}
-                                onChange={(e) => setNftRecipient(e.target.value)}
+                                onChange={setNftRecipient}
                                 className="bg-white/[0.03] border-white/[0.08]"
                               />
+                              <RecipientResolutionHint {...nftRecipientLookup} />
                             </div>
                             <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
                               <Button
                                 onClick={handleNFTTransfer}
-                                disabled={!nftRecipient || isExecuting}
+                                disabled={!nftRecipientAddress || hasInvalidQuantity || isExecuting}
                                 className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 shadow-lg shadow-purple-500/25"
                               >
                                 {isExecuting ? (
@@ -515,7 +664,9 @@ export default function TransferPage() {
                           <Terminal className="h-5 w-5 text-purple-500" />
                           Bulk NFT Transfer
                         </h3>
-                        <p className="text-sm text-white/40">Paste CSV data: recipient,tokenId (one per line)</p>
+                        <p className="text-sm text-white/40">
+                          Paste CSV or upload CSV/XLSX: recipient, tokenId, optional amount (ERC-1155) and collection
+                        </p>
                       </div>
                       <div className="space-y-2">
                         <Label className="text-white/70">Collection</Label>
@@ -535,7 +686,7 @@ export default function TransferPage() {
                       <div className="space-y-2">
                         <Label className="text-white/70">CSV Data</Label>
                         <Textarea
-                          placeholder="0x123...abc,1&#10;0x456...def,2&#10;0x789...ghi,3"
+                          placeholder="address,tokenId,amount&#10;0x123...abc,1&#10;0x456...def,2,5"
                           value={csvInput}
                           onChange={(e) => setCsvInput(e.target.value)}
                           className="font-mono text-sm h-40 bg-white/[0.03] border-white/[0.08]"
@@ -548,13 +699,30 @@ export default function TransferPage() {
                             Parse CSV
                           </Button>
                         </motion.div>
+                        <Button asChild variant="secondary" className="bg-white/[0.05]">
+                          <label className="cursor-pointer">
+                            <FileSpreadsheet className="mr-2 h-4 w-4" />
+                            Upload File
+                            <input
+                              type="file"
+                              accept=".csv,.txt,.xlsx"
+                              className="hidden"
+                              onChange={handleImportFile}
+                            />
+                          </label>
+                        </Button>
                         <Badge variant="secondary" className="bg-white/[0.05]">
                           Max {limits.maxBatchSize} items
                         </Badge>
+                        <div className="ml-auto">
+                          <AddressBookFileButton />
+                        </div>
                       </div>
                     </div>
                   </AnimatedCard>
 
+                  {importResult && <ImportIssuesCard result={importResult} maxItems={limits.maxBatchSize} />}
+
                   {parsedItems.length > 0 && (
                     <AnimatedCard delay={0.2}>
                       <div className="p-5 md:p-6 space-y-4">
@@ -568,9 +736,14 @@ export default function TransferPage() {
                               transition={{ delay: i * 0.02 }}
                               className="flex justify-between items-center text-sm py-2 border-b border-white/[0.05]"
                             >
-                              <code className="text-white/70">{truncateAddress(item.to)}</code>
+                              <span className="text-white/70">
+                                {item.toName && <span className="mr-2">{item.toName}</span>}
+                                <code className={item.toName ? 'text-white/40' : ''}>{formatAddressLabel(item.to, addressLabels)}</code>
+                              </span>
                               <ArrowRight className="h-4 w-4 text-white/30" />
-                              <span className="text-white/50">#{item.tokenId}</span>
+                              <span className="text-white/50">
+                                #{item.tokenId}{item.amount !== undefined && ` × ${item.amount}`}
+                              </span>
                             </motion.div>
                           ))}
                           {parsedItems.length > 20 && (
@@ -579,12 +752,42 @@ export default function TransferPage() {
                             </p>
                           )}
                         </div>
-                        <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
-                          <Button className="w-full bg-gradient-to-r from-purple-500 to-pink-500" disabled={isExecuting}>
-                            <Send className="mr-2 h-4 w-4" />
-                            Execute Batch Transfer
+                        {bulkPreflight && (
+                          <PreflightSummary
+                            preflight={bulkPreflight}
+                            items={parsedItems}
+                            sourceRows={importResult!.sourceRows}
+                          />
+                        )}
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={handleBulkPreflight}
+                            variant="secondary"
+                            className="bg-white/[0.05]"
+                            disabled={checkingPreflight || isExecuting}
+                          >
+                            {checkingPreflight ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <ShieldCheck className="mr-2 h-4 w-4" />
+                            )}
+                            Run Preflight
                           </Button>
-                        </motion.div>
+                          <motion.div className="flex-1" whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                            <Button
+                              onClick={handleBulkNFTTransfer}
+                              className="w-full bg-gradient-to-r from-purple-500 to-pink-500"
+                              disabled={!bulkPreflight?.valid || isExecuting}
+                            >
+                              {isExecuting ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <Send className="mr-2 h-4 w-4" />
+                              )}
+                              Execute Batch Transfer
+                            </Button>
+                          </motion.div>
+                        </div>
                       </div>
                     </AnimatedCard>
                   )}
@@ -643,7 +846,18 @@ export default function TransferPage() {
                         </Select>
                       </div>
 
-                      {selectedTokenData && (
+                      {selectedTokenData && mode === 'pro' && (
+                        <BulkDisperse
+                          key={selectedTokenData.address}
+                          token={{
+                            address: selectedTokenData.address,
+                            symbol: selectedTokenData.symbol,
+                            decimals: selectedTokenData.decimals,
+                          }}
+                        />
+                      )}
+
+                      {selectedTokenData && mode === 'lite' && (
                         <motion.div
                           initial={{ opacity: 0, height: 0 }}
                           animate={{ opacity: 1, height: 'auto' }}
@@ -669,19 +883,20 @@ export default function TransferPage() {
                           </div>
 
                           <div className="space-y-2">
-                            <Label className="text-white/70">Recipient Address</Label>
-                            <Input
-                              placeholder="0x..."
+                            <Label className="text-white/70">Recipient</Label>
+                            <RecipientInput
+                              placeholder="0x... or name"
                               value={tokenRecipient}
-                              onChange={(e) => setTokenRecipient(e.target.value)}
+                              onChange={setTokenRecipient}
                               className="bg-white/[0.03] border-white/[0.08]"
                             />
+                            <RecipientResolutionHint {...tokenRecipientLookup} />
                           </div>
 
                           <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
                             <Button
                               onClick={handleTokenTransfer}
-                              disabled={!tokenAmount || !tokenRecipient || isExecuting}
+                              disabled={!tokenAmount || !tokenRecipientAddress || isExecuting}
                               className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 shadow-lg shadow-cyan-500/25"
                             >
                               {isExecuting ? (
@@ -730,51 +945,58 @@ export default function TransferPage() {
                     </div>
                   </motion.div>
 
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <Label className="text-white/70">Amount</Label>
-                      {monBalance && (
-                        <button
-                          className="text-xs text-green-500 hover:text-green-400 transition-colors"
-                          onClick={() => setMonAmount(formatEther(monBalance.value))}
-                        >
-                          Max: {formatMon(monBalance.value)}
-                        </button>
-                      )}
-                    </div>
-                    <Input
-                      type="number"
-                      placeholder="0.0"
-                      value={monAmount}
-                      onChange={(e) => setMonAmount(e.target.value)}
-                      className="bg-white/[0.03] border-white/[0.08]"
-                    />
-                  </div>
+                  {mode === 'pro' ? (
+                    <BulkDisperse />
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <div className="flex justify-between">
+                          <Label className="text-white/70">Amount</Label>
+                          {monBalance && (
+                            <button
+                              className="text-xs text-green-500 hover:text-green-400 transition-colors"
+                              onClick={() => setMonAmount(formatEther(monBalance.value))}
+                            >
+                              Max: {formatMon(monBalance.value)}
+                            </button>
+                          )}
+                        </div>
+                        <Input
+                          type="number"
+                          placeholder="0.0"
+                          value={monAmount}
+                          onChange={(e) => setMonAmount(e.target.value)}
+                          className="bg-white/[0.03] border-white/[0.08]"
+                        />
+                      </div>
 
-                  <div className="space-y-2">
-                    <Label className="text-white/70">Recipient Address</Label>
-                    <Input
-                      placeholder="0x..."
-                      value={monRecipient}
-                      onChange={(e) => setMonRecipient(e.target.value)}
-                      className="bg-white/[0.03] border-white/[0.08]"
-                    />
-                  </div>
+                      <div className="space-y-2">
+                        <Label className="text-white/70">Recipient</Label>
+                        <RecipientInput
+                          placeholder="0x... or name"
+                          value={monRecipient}
+                          onChange={setMonRecipient}
+                          className="bg-white/[0.03] border-white/[0.08]"
+                        />
+                        <RecipientResolutionHint {...monRecipientLookup} />
+                      </div>
 
-                  <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
-                    <Button
-                      onClick={handleMONTransfer}
-                      disabled={!monAmount || !monRecipient || isExecuting}
-                      className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 shadow-lg shadow-green-500/25"
-                    >
-                      {isExecuting ? (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      ) : (
-                        <Send className="mr-2 h-4 w-4" />
-                      )}
-                      Send MON
-                    </Button>
-                  </motion.div>
+                      <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                        <Button
+                          onClick={handleMONTransfer}
+                          disabled={!monAmount || !monRecipientAddress || isExecuting}
+                          className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 shadow-lg shadow-green-500/25"
+                        >
+                          {isExecuting ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Send className="mr-2 h-4 w-4" />
+                          )}
+                          Send MON
+                        </Button>
+                      </motion.div>
+                    </>
+                  )}
                 </div>
               </AnimatedCard>
             </motion.div>
@@ -826,6 +1048,8 @@ export default function TransferPage() {
             </motion.div>
           )}
         </AnimatePresence>
+
+        <StuckBatchItems />
       </PageWrapper>
     </NetworkGuard>
   );
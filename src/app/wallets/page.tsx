@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PageWrapper, PageHeader, AnimatedCard, EmptyState } from '@/components/ui/page-wrapper';
+import { db } from '@/lib/db';
+import { getPlanLimits } from '@/lib/db/plan';
+import { truncateAddress } from '@/lib/utils';
+import { useWalletSync, useWalletScope } from '@/hooks';
+import {
+  addWatchedWallet,
+  removeWatchedWallet,
+  getWatchedWallets,
+  getLastWalletSync,
+  isWatchedWalletError,
+} from '@/features/wallets';
+import { Wallet, Eye, Plus, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+
+interface WalletStats {
+  nfts: number;
+  collections: number;
+  tokens: number;
+  lastSyncAt?: number;
+}
+
+export default function WalletsPage() {
+  const { address } = useAccount();
+  const limits = getPlanLimits(address);
+  const { isLoading, syncingAddress, refreshWallet } = useWalletSync();
+  const { wallets } = useWalletScope();
+  const watched = useLiveQuery(() => getWatchedWallets()) ?? [];
+
+  const [newAddress, setNewAddress] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+
+  const stats = useLiveQuery(async () => {
+    const entries = await Promise.all(
+      wallets.map(async (w): Promise<[string, WalletStats]> => [
+        w.address,
+        {
+          nfts: await db.holdings.where('ownerAddress').equals(w.address).count(),
+          collections: await db.collections.where('walletAddress').equals(w.address).count(),
+          tokens: await db.tokens.where('walletAddress').equals(w.address).count(),
+          lastSyncAt: await getLastWalletSync(w.address),
+        },
+      ])
+    );
+    return new Map(entries);
+  }, [wallets]);
+
+  const handleAdd = async () => {
+    const result = await addWatchedWallet({ address: newAddress.trim(), label: newLabel }, address);
+    if (isWatchedWalletError(result)) {
+      toast.error(result.message);
+      return;
+    }
+    toast.success(`Watching ${result.label ?? truncateAddress(result.address)}`);
+    setNewAddress('');
+    setNewLabel('');
+  };
+
+  const handleRemove = async (walletAddress: string) => {
+    const wallet = watched.find((w) => w.address === walletAddress);
+    if (!wallet) return;
+    await removeWatchedWallet(wallet.id!, address);
+  };
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="Wallets"
+        description="Watch treasury and hot wallets read-only alongside your connected wallet"
+        icon={<Wallet className="h-6 w-6 md:h-8 md:w-8 text-purple-500" />}
+      />
+
+      {/* Add Wallet */}
+      <AnimatedCard delay={0.1} hover={false}>
+        <div className="p-5 md:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">Watch a Wallet</h3>
+            <Badge variant="secondary" className="bg-white/[0.05]">
+              {watched.length} / {limits.maxWatchedWallets}
+            </Badge>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-white/70">Address</Label>
+              <Input
+                placeholder="0x..."
+                value={newAddress}
+                onChange={(e) => setNewAddress(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08] font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white/70">Label</Label>
+              <Input
+                placeholder="Treasury"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                className="bg-white/[0.03] border-white/[0.08]"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-white/40">
+            Watched wallets are synced into Inventory, the dashboard token portfolio and Streams.
+            Nothing can be signed from them.
+          </p>
+          <Button onClick={handleAdd} disabled={!newAddress}>
+            <Plus className="mr-2 h-4 w-4" />
+            Watch Wallet
+          </Button>
+        </div>
+      </AnimatedCard>
+
+      {/* Wallets */}
+      {wallets.length === 0 ? (
+        <EmptyState
+          icon={<Eye className="h-8 w-8 text-white/20" />}
+          title="No wallets yet"
+          description="Connect a wallet or watch one by address"
+        />
+      ) : (
+        <AnimatedCard delay={0.15} hover={false}>
+          <div className="p-5 md:p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Wallet</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead className="text-right">NFTs</TableHead>
+                  <TableHead className="text-right">Collections</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead>Last Sync</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {wallets.map((wallet) => {
+                  const walletStats = stats?.get(wallet.address);
+                  const isSyncing = syncingAddress === wallet.address;
+                  return (
+                    <TableRow key={wallet.address}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {wallet.label}
+                          <Badge variant="secondary" className="text-xs">
+                            {wallet.isConnected ? 'Connected' : 'Watch-only'}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <a
+                          href={`https://monadvision.com/address/${wallet.address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-purple-500 hover:text-purple-400 font-mono"
+                        >
+                          {truncateAddress(wallet.address, 6)}
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{walletStats?.nfts ?? '—'}</TableCell>
+                      <TableCell className="text-right tabular-nums">{walletStats?.collections ?? '—'}</TableCell>
+                      <TableCell className="text-right tabular-nums">{walletStats?.tokens ?? '—'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {walletStats?.lastSyncAt ? new Date(walletStats.lastSyncAt).toLocaleString() : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => refreshWallet(wallet.address)}
+                          disabled={isLoading}
+                          aria-label="Sync"
+                        >
+                          {isSyncing ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                        </Button>
+                        {!wallet.isConnected && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleRemove(wallet.address)}
+                            aria-label="Stop watching"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </AnimatedCard>
+      )}
+    </PageWrapper>
+  );
+}
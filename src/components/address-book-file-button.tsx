@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  clearAddressBookFile,
+  getAddressBookFile,
+  loadAddressBookFile,
+  type AddressBookFile,
+} from '@/lib/names';
+import { BookUser, X } from 'lucide-react';
+
+/**
+ * Load a name,address file that recipient fields resolve names against
+ */
+export function AddressBookFileButton() {
+  const [book, setBook] = useState<AddressBookFile | null>(null);
+
+  useEffect(() => {
+    setBook(getAddressBookFile());
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = await loadAddressBookFile(file);
+      setBook(loaded);
+      toast.success(`Loaded ${Object.keys(loaded.entries).length} names from ${loaded.filename}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load address book');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button asChild variant="secondary" size="sm" className="bg-white/[0.05]">
+        <label className="cursor-pointer">
+          <BookUser className="mr-2 h-4 w-4" />
+          {book ? `${book.filename} (${Object.keys(book.entries).length})` : 'Load Address Book'}
+          <input type="file" accept=".csv,.txt,.json" className="hidden" onChange={handleFile} />
+        </label>
+      </Button>
+      {book && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            clearAddressBookFile();
+            setBook(null);
+          }}
+          aria-label="Unload address book"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
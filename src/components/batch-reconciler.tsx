@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useBatchReconciler } from '@/hooks/use-batch-reconciler';
+
+/**
+ * Settles batch transactions left pending by a previous session.
+ * Renders nothing; reports recovered transactions as a toast.
+ */
+export function BatchReconciler() {
+  const summary = useBatchReconciler();
+
+  useEffect(() => {
+    if (!summary) return;
+
+    const settled = summary.confirmed + summary.failed;
+    if (settled === 0) return;
+
+    if (summary.failed > 0) {
+      toast.warning(
+        `Recovered ${settled} pending batch transaction${settled > 1 ? 's' : ''}: ${summary.confirmed} confirmed, ${summary.failed} failed`
+      );
+    } else {
+      toast.success(
+        `Recovered ${settled} pending batch transaction${settled > 1 ? 's' : ''}`
+      );
+    }
+  }, [summary]);
+
+  return null;
+}
@@ -0,0 +1,31 @@
+import { Badge } from '@/components/ui/badge';
+import { type BatchStatus, type BatchItemStatus } from '@/lib/batch-engine';
+import { CheckCircle2, Clock, Loader2, PauseCircle, XCircle, MinusCircle, Send } from 'lucide-react';
+
+const STATUS_CONFIG: Record<
+  BatchStatus | BatchItemStatus,
+  { icon: React.ElementType; color: string; label: string; spin?: boolean }
+> = {
+  pending: { icon: Clock, color: 'bg-white/10 text-white/60', label: 'Pending' },
+  simulating: { icon: Loader2, color: 'bg-blue-500/20 text-blue-400', label: 'Simulating', spin: true },
+  executing: { icon: Loader2, color: 'bg-blue-500/20 text-blue-400', label: 'Executing', spin: true },
+  submitted: { icon: Send, color: 'bg-blue-500/20 text-blue-400', label: 'Submitted' },
+  paused: { icon: PauseCircle, color: 'bg-yellow-500/20 text-yellow-400', label: 'Paused' },
+  completed: { icon: CheckCircle2, color: 'bg-green-500/20 text-green-400', label: 'Completed' },
+  success: { icon: CheckCircle2, color: 'bg-green-500/20 text-green-400', label: 'Success' },
+  failed: { icon: XCircle, color: 'bg-red-500/20 text-red-400', label: 'Failed' },
+  skipped: { icon: MinusCircle, color: 'bg-white/10 text-white/50', label: 'Skipped' },
+};
+
+/**
+ * Status pill shared by batch lists and per-item tables
+ */
+export function BatchStatusBadge({ status }: { status: BatchStatus | BatchItemStatus }) {
+  const { icon: Icon, color, label, spin } = STATUS_CONFIG[status];
+  return (
+    <Badge className={`${color} border-0 gap-1`}>
+      <Icon className={`h-3 w-3${spin ? ' animate-spin' : ''}`} />
+      {label}
+    </Badge>
+  );
+}
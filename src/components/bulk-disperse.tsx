@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useWalletClient } from 'wagmi';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AddressBookFileButton } from '@/components/address-book-file-button';
+import { ImportIssuesCard, PreflightSummary } from '@/components/import-review';
+import { getPlanLimits } from '@/lib/db/plan';
+import {
+  detectImportLayout,
+  importDisperseItems,
+  parseImportText,
+  readImportFile,
+  resolveImportNames,
+  type ImportResult,
+} from '@/features/import';
+import { markAddressesUsed } from '@/features/address-book';
+import {
+  executeDisperseERC20,
+  executeDisperseMon,
+  preflightDisperseERC20,
+  preflightDisperseMon,
+  type DisperseItem,
+  type PreflightResult,
+} from '@/lib/batch-engine';
+import { FileSpreadsheet, Loader2, Send, ShieldCheck, Upload } from 'lucide-react';
+
+interface BulkDisperseProps {
+  token?: { address: string; symbol: string; decimals: number }; // Omit for MON
+}
+
+/**
+ * Pro mode disperse: import recipient,amount rows, preflight them, then send the
+ * batch. Amounts are in whole units of MON or the token.
+ */
+export function BulkDisperse({ token }: BulkDisperseProps) {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const limits = getPlanLimits(address);
+  const symbol = token?.symbol ?? 'MON';
+
+  const [csvInput, setCsvInput] = useState('');
+  const [importResult, setImportResult] = useState<ImportResult<DisperseItem> | null>(null);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [executing, setExecuting] = useState(false);
+  const items = importResult?.items ?? [];
+
+  const runImport = async (rows: string[][]) => {
+    const layout = detectImportLayout(rows, 'disperse');
+    setPreflight(null);
+    setImportResult(
+      importDisperseItems(rows, layout, {
+        names: await resolveImportNames(rows, layout),
+        decimals: token?.decimals ?? 18,
+        maxItems: limits.maxBatchSize,
+      })
+    );
+  };
+
+  const handleParse = async () => {
+    try {
+      await runImport(parseImportText(csvInput));
+    } catch (error) {
+      setImportResult(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to import rows');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await runImport(await readImportFile(file));
+    } catch (error) {
+      setImportResult(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const handlePreflight = async () => {
+    if (!address || items.length === 0) return;
+
+    setChecking(true);
+    try {
+      setPreflight(
+        token
+          ? await preflightDisperseERC20(items, address, token.address)
+          : await preflightDisperseMon(items, address)
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Preflight failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!address || !walletClient || !preflight?.valid) return;
+
+    setExecuting(true);
+    let failed = 0;
+    const callbacks = {
+      onItemFailed: () => {
+        failed++;
+      },
+    };
+    try {
+      const batchId = token
+        ? await executeDisperseERC20(items, address, token.address, walletClient, callbacks)
+        : await executeDisperseMon(items, address, walletClient, callbacks);
+      if (failed > 0) {
+        toast.error(`Batch #${batchId}: ${failed} of ${items.length} transfers failed; retry them from History`);
+      } else {
+        toast.success(`Batch #${batchId}: sent ${symbol} to ${items.length} recipients`);
+      }
+      markAddressesUsed(items.map((item) => item.to));
+      setImportResult(null);
+      setPreflight(null);
+      setCsvInput('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Transfer failed');
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-white/70">Recipients</Label>
+        <Textarea
+          placeholder="address,amount&#10;0x123...abc,1.5&#10;alice.mon,20"
+          value={csvInput}
+          onChange={(e) => setCsvInput(e.target.value)}
+          className="font-mono text-sm h-40 bg-white/[0.03] border-white/[0.08]"
+        />
+        <p className="text-xs text-white/40">Amounts in {symbol}, not the smallest unit</p>
+      </div>
+      <div className="flex gap-2 items-center">
+        <Button onClick={handleParse} variant="secondary" className="bg-white/[0.05]">
+          <Upload className="mr-2 h-4 w-4" />
+          Parse CSV
+        </Button>
+        <Button asChild variant="secondary" className="bg-white/[0.05]">
+          <label className="cursor-pointer">
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Upload File
+            <input type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleFile} />
+          </label>
+        </Button>
+        <Badge variant="secondary" className="bg-white/[0.05]">
+          Max {limits.maxBatchSize} items
+        </Badge>
+        <div className="ml-auto">
+          <AddressBookFileButton />
+        </div>
+      </div>
+
+      {importResult && <ImportIssuesCard result={importResult} maxItems={limits.maxBatchSize} />}
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm text-white/70">{items.length} transfers ready</p>
+          {preflight && (
+            <PreflightSummary preflight={preflight} items={items} sourceRows={importResult!.sourceRows} />
+          )}
+          <div className="flex gap-2">
+            <Button
+              onClick={handlePreflight}
+              variant="secondary"
+              className="bg-white/[0.05]"
+              disabled={checking || executing}
+            >
+              {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+              Run Preflight
+            </Button>
+            <motion.div className="flex-1" whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+              <Button
+                onClick={handleExecute}
+                disabled={!preflight?.valid || !walletClient || executing}
+                className="w-full bg-gradient-to-r from-purple-500 to-pink-500"
+              >
+                {executing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                Send {symbol} to {items.length} recipients
+              </Button>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import {
   Settings,
   Search,
   Command,
+  History,
+  BookUser,
 } from 'lucide-react';
 
 interface CommandItem {
@@ -32,10 +34,12 @@ interface CommandItem {
 
 const commands: CommandItem[] = [
   { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard, href: '/', shortcut: 'G D' },
-  { id: 'wallets', label: 'Wallets', description: 'Manage wallet addresses', icon: Wallet, href: '/wallets', shortcut: 'G W' },
+  { id: 'wallets', label: 'Wallets', description: 'Connected and watched wallets', icon: Wallet, href: '/wallets', shortcut: 'G W' },
   { id: 'inventory', label: 'Inventory', description: 'View NFT holdings', icon: Image, href: '/inventory', shortcut: 'G I' },
   { id: 'snapshots', label: 'Snapshots', description: 'Export holder lists', icon: Camera, href: '/snapshots', shortcut: 'G S' },
   { id: 'transfer', label: 'Transfer', description: 'Send NFTs, tokens, or MON', icon: Send, href: '/transfer', shortcut: 'G T' },
+  { id: 'history', label: 'History', description: 'Past batches and receipts', icon: History, href: '/history', shortcut: 'G H' },
+  { id: 'address-book', label: 'Address Book', description: 'Saved recipient labels', icon: BookUser, href: '/address-book', shortcut: 'G A' },
   { id: 'burn', label: 'Burn', description: 'Burn tokens or NFTs forever', icon: Flame, href: '/burn', shortcut: 'G B' },
   { id: 'lock', label: 'Token Lock', description: 'Lock tokens with vesting', icon: Lock, href: '/lock', shortcut: 'G L' },
   { id: 'developer', label: 'Developer', description: 'Debug tools', icon: Settings, href: '/developer' },
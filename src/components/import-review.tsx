@@ -0,0 +1,115 @@
+'use client';
+
+import { AnimatedCard } from '@/components/ui/page-wrapper';
+import { formatAddressLabel } from '@/features/address-book';
+import { useAddressLabels } from '@/hooks/use-address-labels';
+import type { ImportResult } from '@/features/import';
+import type { PreflightResult } from '@/lib/batch-engine';
+import { formatNumber } from '@/lib/utils';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+
+interface ImportIssuesCardProps {
+  result: ImportResult<unknown>;
+  maxItems: number;
+}
+
+/**
+ * Rows an import dropped or flagged, and valid rows left out by the plan's batch size.
+ * Renders nothing for a clean import.
+ */
+export function ImportIssuesCard({ result, maxItems }: ImportIssuesCardProps) {
+  if (result.errors.length === 0 && result.warnings.length === 0 && result.truncated === 0) return null;
+
+  return (
+    <AnimatedCard delay={0.2}>
+      <div className="p-5 md:p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-500" />
+          Import Issues
+        </h3>
+        {result.truncated > 0 && (
+          <p className="text-sm text-yellow-400">
+            {result.truncated} valid row(s) were left out: your plan allows {maxItems} items per batch
+          </p>
+        )}
+        <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+          {result.errors.map((issue, i) => (
+            <p key={`e-${i}`} className="text-red-400">
+              Row {issue.row}: {issue.message}
+            </p>
+          ))}
+          {result.warnings.map((issue, i) => (
+            <p key={`w-${i}`} className="text-yellow-400">
+              Row {issue.row}: {issue.message}
+            </p>
+          ))}
+        </div>
+      </div>
+    </AnimatedCard>
+  );
+}
+
+interface PreflightSummaryProps {
+  preflight: PreflightResult;
+  items: { to: string; toName?: string }[];
+  sourceRows: number[]; // Import row of each item
+}
+
+/**
+ * Preflight outcome for imported items: estimated gas, the names recipients resolved
+ * to, and every row that would fail
+ */
+export function PreflightSummary({ preflight, items, sourceRows }: PreflightSummaryProps) {
+  const addressLabels = useAddressLabels();
+  const batchErrors = preflight.errors.filter((e) => e.index === -1);
+  const failed = preflight.itemResults.filter((r) => !r.valid);
+  const named = Array.from(
+    new Map(items.filter((item) => item.toName).map((item) => [item.toName!, item.to])).entries()
+  );
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/[0.08] bg-white/[0.02] p-4 text-sm">
+      <div className="flex items-center gap-2 font-medium text-white">
+        {preflight.valid ? (
+          <CheckCircle2 className="h-4 w-4 text-green-500" />
+        ) : (
+          <XCircle className="h-4 w-4 text-red-500" />
+        )}
+        {preflight.valid
+          ? `All ${items.length} items passed preflight`
+          : `${failed.length} of ${items.length} items fail preflight`}
+        <span className="ml-auto text-white/40 tabular-nums">~{formatNumber(preflight.estimatedGas)} gas</span>
+      </div>
+
+      {named.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-white/50">Names resolved</p>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {named.map(([name, to]) => (
+              <p key={name} className="text-white/70">
+                {name} <span className="text-white/30">→</span> <code className="text-white/50">{to}</code>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(batchErrors.length > 0 || failed.length > 0) && (
+        <div className="max-h-48 overflow-y-auto space-y-1 text-red-400">
+          {batchErrors.map((e, i) => (
+            <p key={`b-${i}`}>{e.message}</p>
+          ))}
+          {failed.map((r) => {
+            const item = items[r.index];
+            return (
+              <p key={r.index}>
+                Row {sourceRows[r.index]}: {item.toName ? `${item.toName} (${formatAddressLabel(item.to, addressLabels)})` : formatAddressLabel(item.to, addressLabels)}
+                {' — '}{r.error ?? 'Preflight failed'}
+              </p>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { type NFTHolding } from '@/lib/db';
+
+/**
+ * Whole number between 1 and the owned balance, or null when the entry is invalid.
+ * An empty entry means 1.
+ */
+export function parseNFTQuantity(value: string | undefined, owned: number): number | null {
+  const trimmed = value?.trim() || '1';
+  if (!/^\d+$/.test(trimmed)) return null;
+  const quantity = Number(trimmed);
+  return quantity >= 1 && quantity <= owned ? quantity : null;
+}
+
+interface NFTQuantityListProps {
+  holdings: NFTHolding[]; // Selected ERC-1155 holdings
+  quantities: Record<string, string>; // tokenId -> entered quantity
+  onChange: (tokenId: string, value: string) => void;
+}
+
+/**
+ * Quantity inputs for selected ERC-1155 ids, capped at the synced balance
+ */
+export function NFTQuantityList({ holdings, quantities, onChange }: NFTQuantityListProps) {
+  if (holdings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {holdings.map((holding) => {
+        const value = quantities[holding.tokenId] ?? '1';
+        const isValid = parseNFTQuantity(value, holding.amount) !== null;
+        return (
+          <div key={holding.tokenId} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-white/70 truncate">
+              {holding.name || `#${holding.tokenId}`}
+            </span>
+            <div className="flex items-center gap-2 shrink-0">
+              <Input
+                type="number"
+                min={1}
+                max={holding.amount}
+                step={1}
+                value={value}
+                onChange={(e) => onChange(holding.tokenId, e.target.value)}
+                className={`h-8 w-24 bg-white/[0.03] border-white/[0.08] ${isValid ? '' : 'border-red-500/60'}`}
+                aria-label={`Quantity of #${holding.tokenId}`}
+              />
+              <span className="text-xs text-white/40 w-16">of {holding.amount}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Input, type InputProps } from '@/components/ui/input';
+import { searchAddressBook } from '@/features/address-book';
+import { truncateAddress } from '@/lib/utils';
+
+interface RecipientInputProps extends Omit<InputProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Recipient field with address-book autocomplete: matches on label, tag or address
+ * and fills in the saved address when a suggestion is picked
+ */
+export function RecipientInput({ value, onChange, onFocus, onBlur, ...props }: RecipientInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useLiveQuery(
+    () => (isFocused ? searchAddressBook(value) : []),
+    [isFocused, value]
+  ) ?? [];
+  // Nothing to suggest once the field holds exactly a saved address
+  const visible = suggestions.filter((s) => s.address !== value.trim().toLowerCase());
+  const isOpen = isFocused && visible.length > 0;
+
+  const pick = (address: string) => {
+    onChange(address);
+    setIsFocused(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        {...props}
+        value={value}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+        }}
+        onFocus={(e) => {
+          setIsFocused(true);
+          onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          setIsFocused(false);
+          onBlur?.(e);
+        }}
+        onKeyDown={(e) => {
+          if (!isOpen) return;
+          if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlighted((i) => Math.min(i + 1, visible.length - 1));
+          } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted((i) => Math.max(i - 1, 0));
+          } else if (e.key === 'Enter') {
+            e.preventDefault();
+            pick(visible[Math.min(highlighted, visible.length - 1)].address);
+          } else if (e.key === 'Escape') {
+            setIsFocused(false);
+          }
+        }}
+      />
+      {isOpen && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border border-white/[0.08] bg-popover shadow-lg overflow-hidden">
+          {visible.map((entry, i) => (
+            <button
+              key={entry.id}
+              type="button"
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(entry.address)}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm ${
+                i === highlighted ? 'bg-white/[0.08]' : 'hover:bg-white/[0.05]'
+              }`}
+            >
+              <span className="truncate">
+                <span className="text-white/90">{entry.label}</span>
+                {entry.tags.length > 0 && (
+                  <span className="ml-2 text-xs text-white/40">{entry.tags.map((t) => `#${t}`).join(' ')}</span>
+                )}
+              </span>
+              <code className="text-xs text-white/40 shrink-0">{truncateAddress(entry.address)}</code>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
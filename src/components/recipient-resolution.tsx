@@ -0,0 +1,38 @@
+'use client';
+
+import type { RecipientResolution } from '@/lib/names';
+import { Loader2 } from 'lucide-react';
+
+interface RecipientResolutionHintProps {
+  resolution: RecipientResolution | null;
+  isResolving: boolean;
+}
+
+/**
+ * One-line status under a recipient input: the address a name resolved to,
+ * or why it could not be used. Silent for plain valid addresses.
+ */
+export function RecipientResolutionHint({ resolution, isResolving }: RecipientResolutionHintProps) {
+  if (isResolving) {
+    return (
+      <p className="text-xs text-white/40 flex items-center gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Resolving...
+      </p>
+    );
+  }
+  if (!resolution) return null;
+
+  if (resolution.error) {
+    return <p className="text-xs text-red-400">{resolution.error}</p>;
+  }
+  if (resolution.name && resolution.address) {
+    return (
+      <p className="text-xs text-green-400 font-mono break-all">
+        {resolution.name} → {resolution.address}
+        {resolution.resolverLabel && <span className="text-white/40 font-sans"> ({resolution.resolverLabel})</span>}
+      </p>
+    );
+  }
+  return null;
+}
@@ -20,13 +20,19 @@ import {
   Heart,
   Shield,
   FileText,
+  History,
+  BookUser,
+  Wallet,
 } from 'lucide-react';
 
 const navItems = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard, color: 'from-purple-500 to-violet-500' },
+  { href: '/wallets', label: 'Wallets', icon: Wallet, color: 'from-blue-500 to-cyan-500' },
   { href: '/inventory', label: 'Inventory', icon: Image, color: 'from-pink-500 to-rose-500' },
   { href: '/snapshots', label: 'Snapshots', icon: Camera, color: 'from-amber-500 to-orange-500' },
   { href: '/transfer', label: 'Transfer', icon: Send, color: 'from-emerald-500 to-teal-500' },
+  { href: '/history', label: 'History', icon: History, color: 'from-indigo-500 to-purple-500' },
+  { href: '/address-book', label: 'Address Book', icon: BookUser, color: 'from-sky-500 to-indigo-500' },
   { href: '/burn', label: 'Burn', icon: Flame, color: 'from-red-500 to-rose-500' },
   { href: '/lock', label: 'Token Lock', icon: Lock, color: 'from-cyan-500 to-blue-500' },
   { href: '/streams', label: 'Streams', icon: Waves, color: 'from-violet-500 to-purple-500' },
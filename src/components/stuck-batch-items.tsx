@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useWalletClient } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { toast } from 'sonner';
+import { db } from '@/lib/db';
+import { speedUpBatchItem, cancelBatchItem, type ReplacementAction } from '@/lib/batch-engine';
+import { Button } from '@/components/ui/button';
+import { truncateAddress } from '@/lib/utils';
+import { Clock, ExternalLink, Loader2, Zap, XCircle } from 'lucide-react';
+
+// Submitted txs younger than this are just waiting for the next block
+const STUCK_AFTER_MS = 30_000;
+
+interface StuckTransaction {
+  batchId: number;
+  itemIndexes: number[];
+  txHash: string;
+  submittedAt: number;
+  isCancel: boolean;
+}
+
+/**
+ * Lists the connected wallet's batch transactions that have been pending for a while,
+ * with speed-up and cancel actions. Renders nothing when nothing is stuck.
+ */
+export function StuckBatchItems() {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const batches = useLiveQuery(
+    () =>
+      address
+        ? db.batches
+            .where('signerAddress')
+            .equals(address.toLowerCase())
+            .filter((b) => b.items.some((i) => i.status === 'submitted'))
+            .toArray()
+        : [],
+    [address]
+  ) ?? [];
+
+  // One row per transaction: chunk items share theirs
+  const stuck = new Map<string, StuckTransaction>();
+  for (const batch of batches) {
+    for (const item of batch.items) {
+      if (item.status !== 'submitted' || !item.txHash) continue;
+      if (now - (item.submittedAt ?? now) < STUCK_AFTER_MS) continue;
+
+      const existing = stuck.get(item.txHash);
+      if (existing) {
+        existing.itemIndexes.push(item.index);
+      } else {
+        stuck.set(item.txHash, {
+          batchId: batch.id!,
+          itemIndexes: [item.index],
+          txHash: item.txHash,
+          submittedAt: item.submittedAt ?? now,
+          isCancel: item.cancelTxHash === item.txHash,
+        });
+      }
+    }
+  }
+
+  if (stuck.size === 0) return null;
+
+  const handleReplace = async (tx: StuckTransaction, action: ReplacementAction) => {
+    if (!walletClient) return;
+
+    setBusy(tx.txHash);
+    try {
+      const replace = action === 'cancel' ? cancelBatchItem : speedUpBatchItem;
+      await replace(tx.batchId, tx.itemIndexes[0], walletClient);
+      toast.success(action === 'cancel' ? 'Cancel transaction sent' : 'Speed-up transaction sent');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to replace transaction');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-2xl p-5 space-y-3 border-yellow-500/30">
+      <div className="flex items-center gap-2">
+        <Clock className="h-5 w-5 text-yellow-500" />
+        <h3 className="font-semibold text-white">Pending Transactions</h3>
+      </div>
+      <p className="text-sm text-white/40">
+        These batch transactions have not confirmed yet. Speed up re-sends with a higher fee;
+        cancel replaces them with an empty transaction.
+      </p>
+
+      <div className="space-y-2">
+        {Array.from(stuck.values()).map((tx) => (
+          <div
+            key={tx.txHash}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-2 border-b border-white/[0.05] last:border-0"
+          >
+            <div className="text-sm">
+              <div className="text-white/70">
+                Batch #{tx.batchId} · {tx.itemIndexes.length > 1 ? `${tx.itemIndexes.length} items` : `item ${tx.itemIndexes[0] + 1}`}
+                {tx.isCancel && <span className="text-yellow-400"> · cancelling</span>}
+              </div>
+              <a
+                href={`https://monadvision.com/tx/${tx.txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-purple-500 hover:text-purple-400 flex items-center gap-1"
+              >
+                {truncateAddress(tx.txHash)} · {Math.floor((now - tx.submittedAt) / 1000)}s ago
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!walletClient || busy !== null}
+                onClick={() => handleReplace(tx, 'speed-up')}
+              >
+                {busy === tx.txHash ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Zap className="mr-1 h-3 w-3" />
+                )}
+                Speed up
+              </Button>
+              {!tx.isCancel && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!walletClient || busy !== null}
+                  onClick={() => handleReplace(tx, 'cancel')}
+                >
+                  <XCircle className="mr-1 h-3 w-3" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { type WalletOption } from '@/hooks/use-wallet-scope';
+
+interface WalletScopeSelectProps {
+  wallets: WalletOption[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Switch a view between all wallets combined and a single connected or watched wallet.
+ * Hidden when there is only one wallet to show.
+ */
+export function WalletScopeSelect({ wallets, value, onChange }: WalletScopeSelectProps) {
+  if (wallets.length < 2) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 w-[180px] bg-white/[0.03] border-white/[0.08]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All wallets ({wallets.length})</SelectItem>
+        {wallets.map((wallet) => (
+          <SelectItem key={wallet.address} value={wallet.address}>
+            {wallet.label}
+            {!wallet.isConnected && <span className="ml-2 text-xs text-white/40">watch-only</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,91 @@
+import Papa from 'papaparse';
+import { db, type AddressBookEntry } from '@/lib/db';
+import { toCSV, downloadFile, isValidAddress } from '@/lib/utils';
+import { addAddressBookEntry, isAddressBookError, normalizeTags } from './address-book-store';
+
+export interface AddressBookImportResult {
+  added: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+}
+
+const CSV_HEADERS = ['Label', 'Address', 'Tags', 'Notes', 'First Seen', 'Last Used'];
+
+/**
+ * Export the address book to CSV; tags are space separated
+ */
+export function exportAddressBookCSV(entries: AddressBookEntry[]): void {
+  const toISO = (ms?: number) => (ms ? new Date(ms).toISOString() : '');
+
+  const rows = entries.map((e) => [
+    e.label,
+    e.address,
+    e.tags.join(' '),
+    e.notes ?? '',
+    toISO(e.firstSeenAt),
+    toISO(e.lastUsedAt),
+  ]);
+
+  const date = new Date().toISOString().split('T')[0];
+  downloadFile(toCSV(CSV_HEADERS, rows), `monops-address-book-${date}.csv`);
+}
+
+/**
+ * Import `label,address[,tags[,notes]]` rows (header optional, any column order when
+ * a header is present). Existing addresses get their label, tags and notes replaced.
+ */
+export async function importAddressBookCSV(
+  text: string,
+  walletAddress?: string
+): Promise<AddressBookImportResult> {
+  const result: AddressBookImportResult = { added: 0, updated: 0, errors: [] };
+  const rows = Papa.parse<string[]>(text.trim(), { skipEmptyLines: 'greedy' }).data.map((row) =>
+    row.map((cell) => cell.trim())
+  );
+  if (rows.length === 0) return result;
+
+  // Header row: find columns by name; otherwise fixed label,address,tags,notes order
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const hasHeader = header.includes('address');
+  const column = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+  const cols = {
+    label: column('label', 0),
+    address: column('address', 1),
+    tags: column('tags', 2),
+    notes: column('notes', 3),
+  };
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? '' : '');
+
+  for (let i = hasHeader ? 1 : 0; i < rows.length; i++) {
+    const row = rows[i];
+    const address = cell(row, cols.address);
+    const label = cell(row, cols.label);
+    const tags = normalizeTags(cell(row, cols.tags));
+    const notes = cell(row, cols.notes);
+
+    if (!isValidAddress(address)) {
+      result.errors.push({ row: i + 1, message: `Invalid address "${address}"` });
+      continue;
+    }
+    if (!label) {
+      result.errors.push({ row: i + 1, message: 'Missing label' });
+      continue;
+    }
+
+    const existing = await db.addressBook.where('address').equals(address.toLowerCase()).first();
+    if (existing) {
+      await db.addressBook.update(existing.id!, { label, tags, notes: notes || undefined });
+      result.updated++;
+      continue;
+    }
+
+    const added = await addAddressBookEntry({ address, label, tags, notes }, walletAddress);
+    if (isAddressBookError(added)) {
+      result.errors.push({ row: i + 1, message: added.message });
+      continue;
+    }
+    result.added++;
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { db, type AddressBookEntry } from '@/lib/db';
+import { getPlanLimits } from '@/lib/db/plan';
+import { isValidAddress, truncateAddress } from '@/lib/utils';
+
+export interface AddressBookInput {
+  address: string;
+  label: string;
+  tags?: string[];
+  notes?: string;
+}
+
+export interface AddressBookStoreError {
+  code: 'INVALID_ADDRESS' | 'INVALID_LABEL' | 'DUPLICATE' | 'LIMIT_REACHED' | 'NOT_FOUND';
+  message: string;
+}
+
+/**
+ * Lowercase, trimmed, deduplicated tags; accepts a list or a comma/space separated string
+ */
+export function normalizeTags(tags: string[] | string | undefined): string[] {
+  const list = typeof tags === 'string' ? tags.split(/[,\s]+/) : tags ?? [];
+  return Array.from(new Set(list.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function isAddressBookError(
+  result: AddressBookEntry | AddressBookStoreError
+): result is AddressBookStoreError {
+  return 'code' in result;
+}
+
+export async function addAddressBookEntry(
+  input: AddressBookInput,
+  walletAddress?: string
+): Promise<AddressBookEntry | AddressBookStoreError> {
+  if (!isValidAddress(input.address)) {
+    return { code: 'INVALID_ADDRESS', message: 'Invalid address' };
+  }
+  const label = input.label.trim();
+  if (!label) {
+    return { code: 'INVALID_LABEL', message: 'Label is required' };
+  }
+
+  const address = input.address.toLowerCase();
+  const existing = await db.addressBook.where('address').equals(address).first();
+  if (existing) {
+    return { code: 'DUPLICATE', message: `Already saved as "${existing.label}"` };
+  }
+
+  const limits = getPlanLimits(walletAddress);
+  if ((await db.addressBook.count()) >= limits.maxAddressBookEntries) {
+    return {
+      code: 'LIMIT_REACHED',
+      message: `Maximum ${limits.maxAddressBookEntries} address book entries on your plan`,
+    };
+  }
+
+  const entry: Omit<AddressBookEntry, 'id'> = {
+    address,
+    label,
+    tags: normalizeTags(input.tags),
+    notes: input.notes?.trim() || undefined,
+    firstSeenAt: Date.now(),
+  };
+
+  const id = await db.addressBook.add(entry);
+  return { ...entry, id };
+}
+
+export async function updateAddressBookEntry(
+  id: number,
+  changes: Partial<Pick<AddressBookInput, 'label' | 'tags' | 'notes'>>
+): Promise<AddressBookEntry | AddressBookStoreError> {
+  const entry = await db.addressBook.get(id);
+  if (!entry) return { code: 'NOT_FOUND', message: 'Entry not found' };
+
+  const update: Partial<AddressBookEntry> = {};
+  if (changes.label !== undefined) {
+    const label = changes.label.trim();
+    if (!label) return { code: 'INVALID_LABEL', message: 'Label is required' };
+    update.label = label;
+  }
+  if (changes.tags !== undefined) update.tags = normalizeTags(changes.tags);
+  if (changes.notes !== undefined) update.notes = changes.notes.trim() || undefined;
+
+  await db.addressBook.update(id, update);
+  return { ...entry, ...update };
+}
+
+export async function deleteAddressBookEntry(id: number): Promise<void> {
+  await db.addressBook.delete(id);
+}
+
+/**
+ * All entries, most recently used first (never-used entries by label)
+ */
+export async function getAddressBook(): Promise<AddressBookEntry[]> {
+  const entries = await db.addressBook.toArray();
+  return entries.sort(
+    (a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0) || a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Entries whose label, tag or address contains the query, best matches first
+ */
+export async function searchAddressBook(query: string, limit = 8): Promise<AddressBookEntry[]> {
+  const q = query.trim().toLowerCase();
+  const entries = await getAddressBook();
+  if (!q) return entries.slice(0, limit);
+
+  const score = (e: AddressBookEntry) => {
+    const label = e.label.toLowerCase();
+    if (label.startsWith(q)) return 0;
+    if (label.includes(q)) return 1;
+    if (e.tags.some((t) => t.startsWith(q))) return 2;
+    if (e.address.includes(q)) return 3;
+    return -1;
+  };
+
+  return entries
+    .map((entry) => ({ entry, rank: score(entry) }))
+    .filter((m) => m.rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map((m) => m.entry);
+}
+
+/**
+ * Stamp lastUsedAt on saved addresses that were just sent to; unknown addresses are ignored
+ */
+export async function markAddressesUsed(addresses: string[]): Promise<void> {
+  const unique = Array.from(new Set(addresses.map((a) => a.toLowerCase())));
+  const now = Date.now();
+  await db.addressBook.where('address').anyOf(unique).modify({ lastUsedAt: now });
+}
+
+/**
+ * Lowercase address -> label, for display
+ */
+export function buildAddressLabels(entries: AddressBookEntry[]): Map<string, string> {
+  return new Map(entries.map((e) => [e.address, e.label]));
+}
+
+/**
+ * The saved label for an address, or the truncated address when there is none
+ */
+export function formatAddressLabel(address: string, labels: Map<string, string>, chars = 4): string {
+  return labels.get(address.toLowerCase()) ?? truncateAddress(address, chars);
+}
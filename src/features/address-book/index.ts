@@ -0,0 +1,2 @@
+export * from './address-book-store';
+export * from './address-book-csv';
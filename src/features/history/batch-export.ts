@@ -0,0 +1,211 @@
+import { formatEther, formatUnits } from 'viem';
+import { toCSV, downloadFile } from '@/lib/utils';
+import {
+  getBatchStats,
+  getBatchGasTotals,
+  type Batch,
+  type BatchItem,
+  type BatchType,
+  type DisperseItem,
+  type NFTTransferItem,
+} from '@/lib/batch-engine';
+
+export const BATCH_TYPE_LABELS: Record<BatchType, string> = {
+  TRANSFER_NFT: 'NFT Transfer',
+  DISPERSE_MON: 'MON Disperse',
+  DISPERSE_ERC20: 'Token Disperse',
+};
+
+export interface BatchReceipt {
+  batchId: number;
+  batchType: BatchType;
+  index: number;
+  status: BatchItem['status'];
+  recipient: string;
+  recipientName: string; // Name the recipient was entered as, if any
+  asset: string; // Collection or token address, 'MON' for native transfers
+  tokenId: string;
+  amount: string; // Human-readable (decimals applied)
+  txHash: string;
+  explorerUrl: string;
+  chunkIndex: string;
+  nonce: string;
+  gasUsed: string;
+  effectiveGasPrice: string; // Wei
+  feePaid: string; // MON
+  submittedAt: string; // ISO 8601
+  completedAt: string; // ISO 8601
+  error: string;
+}
+
+/**
+ * Recipient, asset and amount of a batch item, by batch type
+ */
+export function describeBatchItem(
+  batch: Batch,
+  item: BatchItem
+): { recipient: string; recipientName: string; asset: string; tokenId: string; amount: string; symbol: string } {
+  switch (batch.type) {
+    case 'TRANSFER_NFT': {
+      const data = item.data as unknown as NFTTransferItem;
+      return {
+        recipient: data.to,
+        recipientName: data.toName ?? '',
+        asset: data.collectionAddress,
+        tokenId: data.tokenId,
+        amount: String(data.amount ?? 1),
+        symbol: data.collectionType,
+      };
+    }
+    case 'DISPERSE_MON': {
+      const data = item.data as unknown as DisperseItem;
+      return {
+        recipient: data.to,
+        recipientName: data.toName ?? '',
+        asset: 'MON',
+        tokenId: '',
+        amount: formatEther(BigInt(data.amount)),
+        symbol: 'MON',
+      };
+    }
+    case 'DISPERSE_ERC20': {
+      const data = item.data as unknown as DisperseItem;
+      const decimals = Number(batch.metadata?.tokenDecimals ?? 18);
+      return {
+        recipient: data.to,
+        recipientName: data.toName ?? '',
+        asset: String(batch.metadata?.tokenAddress ?? ''),
+        tokenId: '',
+        amount: formatUnits(BigInt(data.amount), decimals),
+        symbol: String(batch.metadata?.tokenSymbol ?? 'TOKEN'),
+      };
+    }
+  }
+}
+
+/**
+ * One accounting row per batch item
+ */
+export function getBatchReceipts(batch: Batch): BatchReceipt[] {
+  const toISO = (ms?: number) => (ms ? new Date(ms).toISOString() : '');
+
+  return batch.items.map((item) => {
+    const { recipient, recipientName, asset, tokenId, amount } = describeBatchItem(batch, item);
+    return {
+      batchId: batch.id!,
+      batchType: batch.type,
+      index: item.index,
+      status: item.status,
+      recipient,
+      recipientName,
+      asset,
+      tokenId,
+      amount,
+      txHash: item.txHash ?? '',
+      explorerUrl: item.txHash ? `https://monadvision.com/tx/${item.txHash}` : '',
+      chunkIndex: item.chunkIndex?.toString() ?? '',
+      nonce: item.nonce?.toString() ?? '',
+      gasUsed: item.gasUsed ?? '',
+      effectiveGasPrice: item.effectiveGasPrice ?? '',
+      feePaid: item.feePaid ? formatEther(BigInt(item.feePaid)) : '',
+      submittedAt: toISO(item.submittedAt),
+      completedAt: toISO(item.completedAt),
+      error: item.error ?? '',
+    };
+  });
+}
+
+function getExportFilename(batch: Batch, extension: string): string {
+  const date = new Date(batch.createdAt).toISOString().split('T')[0];
+  return `monops-batch-${batch.id}-${batch.type.toLowerCase()}-${date}.${extension}`;
+}
+
+/**
+ * Export batch receipts to CSV
+ */
+export function exportBatchCSV(batch: Batch): void {
+  const headers = [
+    'Batch ID',
+    'Batch Type',
+    'Item',
+    'Status',
+    'Recipient',
+    'Recipient Name',
+    'Asset',
+    'Token ID',
+    'Amount',
+    'Tx Hash',
+    'Explorer URL',
+    'Chunk',
+    'Nonce',
+    'Gas Used',
+    'Effective Gas Price (wei)',
+    'Fee Paid (MON)',
+    'Submitted At',
+    'Completed At',
+    'Error',
+  ];
+
+  const rows = getBatchReceipts(batch).map((r) => [
+    r.batchId.toString(),
+    r.batchType,
+    r.index.toString(),
+    r.status,
+    r.recipient,
+    r.recipientName,
+    r.asset,
+    r.tokenId,
+    r.amount,
+    r.txHash,
+    r.explorerUrl,
+    r.chunkIndex,
+    r.nonce,
+    r.gasUsed,
+    r.effectiveGasPrice,
+    r.feePaid,
+    r.submittedAt,
+    r.completedAt,
+    r.error,
+  ]);
+
+  downloadFile(toCSV(headers, rows), getExportFilename(batch, 'csv'));
+}
+
+/**
+ * Export batch summary and receipts to JSON
+ */
+export function exportBatchJSON(batch: Batch): void {
+  const { gasUsed, feePaid } = getBatchGasTotals(batch);
+
+  const json = JSON.stringify(
+    {
+      batchId: batch.id,
+      type: batch.type,
+      status: batch.status,
+      signerAddress: batch.signerAddress,
+      createdAt: new Date(batch.createdAt).toISOString(),
+      completedAt: batch.completedAt ? new Date(batch.completedAt).toISOString() : null,
+      metadata: batch.metadata ?? {},
+      stats: getBatchStats(batch),
+      totals: { gasUsed: gasUsed.toString(), feePaid: formatEther(feePaid) },
+      receipts: getBatchReceipts(batch),
+    },
+    null,
+    2
+  );
+
+  downloadFile(json, getExportFilename(batch, 'json'), 'application/json');
+}
+
+/**
+ * Compact duration for batch lists, e.g. "45s", "3m 12s", "2h 5m"
+ */
+export function formatBatchDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,2 @@
+export * from './transfer-import';
+export * from './xlsx-reader';
@@ -0,0 +1,395 @@
+import Papa from 'papaparse';
+import { getAddress, parseUnits, zeroAddress } from 'viem';
+import { isValidAddress } from '@/lib/utils';
+import type { DisperseItem, NFTTransferItem } from '@/lib/batch-engine';
+import { isNameInput, resolveNames, type ResolvedName } from '@/lib/names';
+import { readXLSXRows } from './xlsx-reader';
+
+export type ImportColumn = 'address' | 'tokenId' | 'amount' | 'collection';
+
+// Column index per field; absent fields fall back to import options
+export type ColumnMapping = Partial<Record<ImportColumn, number>>;
+
+export interface ImportLayout {
+  hasHeader: boolean;
+  mapping: ColumnMapping;
+}
+
+export interface ImportIssue {
+  row: number; // 1-based row in the source file, header included
+  column?: ImportColumn;
+  message: string;
+}
+
+export interface ImportResult<T> {
+  items: T[];
+  sourceRows: number[]; // Source row of each item
+  errors: ImportIssue[]; // Rows that were dropped
+  warnings: ImportIssue[]; // Rows that were kept but look suspicious
+  truncated: number; // Valid rows dropped by the item limit
+}
+
+// Lowercase name -> resolution, from resolveImportNames
+export type ImportNames = Map<string, ResolvedName | null>;
+
+export interface NFTImportOptions {
+  names?: ImportNames;
+  collectionTypes: Map<string, NFTTransferItem['collectionType']>; // Lowercase address -> standard
+  defaultCollection?: string; // Used when there is no collection column
+  maxItems: number;
+}
+
+export interface DisperseImportOptions {
+  names?: ImportNames;
+  decimals: number; // 18 for MON
+  maxItems: number;
+}
+
+const HEADER_ALIASES: Record<ImportColumn, string[]> = {
+  address: ['address', 'recipient', 'to', 'wallet', 'receiver', 'destination'],
+  tokenId: ['tokenid', 'token_id', 'token id', 'id', 'nft', 'token'],
+  amount: ['amount', 'quantity', 'qty', 'value', 'count'],
+  collection: ['collection', 'contract', 'collectionaddress', 'collection_address', 'nft contract'],
+};
+
+const INTEGER_PATTERN = /^\d+$/;
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Parse pasted CSV (comma, tab or semicolon separated) into trimmed rows.
+ * Blank lines are kept, so index + 1 is the line number.
+ */
+export function parseImportText(text: string): string[][] {
+  // Blank lines throw off delimiter detection, so it runs on the data lines only
+  const { delimiter } = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy', preview: 10 }).meta;
+  const parsed = Papa.parse<string[]>(text.trimEnd(), { delimiter });
+  return parsed.data.map((row) => row.map((cell) => cell.trim()));
+}
+
+/**
+ * Read an uploaded .csv/.txt/.xlsx file into trimmed rows
+ */
+export async function readImportFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXLSXRows(await file.arrayBuffer());
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls files are not supported; save as .xlsx or .csv');
+  }
+  return parseImportText(await file.text());
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => cell === '');
+}
+
+/**
+ * Rows holding data, with their 1-based source row; blank rows and the header are skipped
+ */
+function dataRows(rows: string[][], layout: ImportLayout): { row: string[]; rowNumber: number }[] {
+  const headerIndex = layout.hasHeader ? rows.findIndex((row) => !isBlankRow(row)) : -1;
+  return rows
+    .map((row, i) => ({ row, rowNumber: i + 1 }))
+    .filter(({ row, rowNumber }) => !isBlankRow(row) && rowNumber !== headerIndex + 1);
+}
+
+function matchHeader(cell: string): ImportColumn | null {
+  const normalized = cell.toLowerCase().replace(/[^a-z0-9_ ]/g, '').trim();
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES) as [ImportColumn, string[]][]) {
+    if (aliases.includes(normalized)) return column;
+  }
+  return null;
+}
+
+/**
+ * Work out which column holds which field.
+ * A first row containing known header names wins; otherwise columns are inferred
+ * from the first data row: the first address or name is the recipient, a second address
+ * the collection, then numbers are token ID and amount (NFTs) or amount (disperse).
+ * Leading blank rows are skipped.
+ */
+export function detectImportLayout(rows: string[][], kind: 'nft' | 'disperse'): ImportLayout {
+  const first = rows.find((row) => !isBlankRow(row)) ?? [];
+
+  const mapping: ColumnMapping = {};
+  first.forEach((cell, index) => {
+    const column = matchHeader(cell);
+    if (column && mapping[column] === undefined) mapping[column] = index;
+  });
+  if (mapping.address !== undefined) return { hasHeader: true, mapping };
+
+  const inferred: ColumnMapping = {};
+  const numericFields: ImportColumn[] = kind === 'nft' ? ['tokenId', 'amount'] : ['amount'];
+
+  first.forEach((cell, index) => {
+    if (isValidAddress(cell)) {
+      if (inferred.address === undefined) inferred.address = index;
+      else if (kind === 'nft' && inferred.collection === undefined) inferred.collection = index;
+    } else if (DECIMAL_PATTERN.test(cell.replace(/,/g, ''))) {
+      // Commas still mark a number column; row validation rejects them with a clear error
+      const field = numericFields.find((f) => inferred[f] === undefined);
+      if (field) inferred[field] = index;
+    } else if (isNameInput(cell) && inferred.address === undefined) {
+      inferred.address = index;
+    }
+  });
+
+  return { hasHeader: false, mapping: inferred };
+}
+
+/**
+ * Resolve every name in the address column up front, so row validation stays synchronous
+ * and the resolved addresses are fixed before any item is built
+ */
+export async function resolveImportNames(rows: string[][], layout: ImportLayout): Promise<ImportNames> {
+  if (layout.mapping.address === undefined) return new Map();
+
+  const names = dataRows(rows, layout)
+    .map(({ row }) => cellAt(row, layout.mapping.address))
+    .filter(isNameInput);
+  return names.length > 0 ? resolveNames(names) : new Map();
+}
+
+/**
+ * Validate a recipient cell; returns the checksummed address (and the name it was
+ * entered as) or an error message
+ */
+function parseRecipient(value: string, names?: ImportNames): { address?: string; name?: string; error?: string } {
+  if (!value) return { error: 'Missing address' };
+  if (isNameInput(value)) {
+    const resolved = names?.get(value.toLowerCase());
+    return resolved ? { address: resolved.address, name: value } : { error: `Could not resolve "${value}"` };
+  }
+  if (!isValidAddress(value)) return { error: `Invalid address "${value}"` };
+
+  const checksummed = getAddress(value);
+  const hex = value.slice(2);
+  // Mixed case means the sender meant it as EIP-55; a mismatch is almost always a typo
+  if (hex !== hex.toLowerCase() && hex !== hex.toUpperCase() && value !== checksummed) {
+    return { error: `Checksum mismatch for ${value}` };
+  }
+  if (checksummed === zeroAddress) return { error: 'Recipient is the zero address' };
+
+  return { address: checksummed };
+}
+
+function cellAt(row: string[], index: number | undefined): string {
+  return index === undefined ? '' : row[index] ?? '';
+}
+
+function emptyResult<T>(): ImportResult<T> {
+  return { items: [], sourceRows: [], errors: [], warnings: [], truncated: 0 };
+}
+
+function pushItem<T>(result: ImportResult<T>, item: T, row: number, maxItems: number): void {
+  if (result.items.length >= maxItems) {
+    result.truncated++;
+    return;
+  }
+  result.items.push(item);
+  result.sourceRows.push(row);
+}
+
+/**
+ * Turn imported rows into NFT transfers.
+ * ERC-721 rows must have an amount of 1 (or none); the same token twice is an error.
+ */
+export function importNFTTransfers(
+  rows: string[][],
+  layout: ImportLayout,
+  options: NFTImportOptions
+): ImportResult<NFTTransferItem> {
+  const result = emptyResult<NFTTransferItem>();
+  const { mapping } = layout;
+  const seenTokens = new Map<string, number>();
+  const seenRecipients = new Map<string, number>();
+
+  if (mapping.address === undefined || mapping.tokenId === undefined) {
+    result.errors.push({ row: 1, message: 'Could not find address and token ID columns' });
+    return result;
+  }
+
+  dataRows(rows, layout).forEach(({ row, rowNumber }) => {
+
+    const recipient = parseRecipient(cellAt(row, mapping.address), options.names);
+    if (recipient.error) {
+      result.errors.push({ row: rowNumber, column: 'address', message: recipient.error });
+      return;
+    }
+
+    const collectionCell = cellAt(row, mapping.collection) || options.defaultCollection || '';
+    if (!isValidAddress(collectionCell)) {
+      result.errors.push({
+        row: rowNumber,
+        column: 'collection',
+        message: collectionCell ? `Invalid collection "${collectionCell}"` : 'No collection selected',
+      });
+      return;
+    }
+    const collectionAddress = collectionCell.toLowerCase();
+    const collectionType = options.collectionTypes.get(collectionAddress);
+    if (!collectionType) {
+      result.errors.push({
+        row: rowNumber,
+        column: 'collection',
+        message: `Collection ${collectionAddress} is not in your synced holdings`,
+      });
+      return;
+    }
+
+    const tokenId = cellAt(row, mapping.tokenId);
+    if (!INTEGER_PATTERN.test(tokenId)) {
+      result.errors.push({ row: rowNumber, column: 'tokenId', message: `Invalid token ID "${tokenId}"` });
+      return;
+    }
+    const normalizedTokenId = BigInt(tokenId).toString();
+
+    const amountCell = cellAt(row, mapping.amount);
+    if (amountCell && !INTEGER_PATTERN.test(amountCell)) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: `Invalid amount "${amountCell}"` });
+      return;
+    }
+    const parsedAmount = amountCell ? BigInt(amountCell) : 1n;
+    if (parsedAmount < 1n) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: 'Amount must be at least 1' });
+      return;
+    }
+    // Items carry the amount as a number, which is exact only up to 2^53 - 1
+    if (parsedAmount > BigInt(Number.MAX_SAFE_INTEGER)) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: `Amount ${amountCell} is too large` });
+      return;
+    }
+    const amount = Number(parsedAmount);
+    if (collectionType === 'ERC721' && amount !== 1) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: 'ERC-721 tokens can only be sent once' });
+      return;
+    }
+
+    const tokenKey = `${collectionAddress}:${normalizedTokenId}`;
+    const firstTokenRow = seenTokens.get(tokenKey);
+    if (firstTokenRow !== undefined) {
+      if (collectionType === 'ERC721') {
+        result.errors.push({
+          row: rowNumber,
+          column: 'tokenId',
+          message: `Token #${normalizedTokenId} already sent on row ${firstTokenRow}`,
+        });
+        return;
+      }
+      result.warnings.push({
+        row: rowNumber,
+        column: 'tokenId',
+        message: `Token #${normalizedTokenId} also sent on row ${firstTokenRow}`,
+      });
+    } else {
+      seenTokens.set(tokenKey, rowNumber);
+    }
+
+    const recipientKey = `${collectionAddress}:${recipient.address}`;
+    const firstRecipientRow = seenRecipients.get(recipientKey);
+    if (firstRecipientRow !== undefined) {
+      result.warnings.push({
+        row: rowNumber,
+        column: 'address',
+        message: `Duplicate recipient (first on row ${firstRecipientRow})`,
+      });
+    } else {
+      seenRecipients.set(recipientKey, rowNumber);
+    }
+
+    pushItem(
+      result,
+      {
+        to: recipient.address!,
+        ...(recipient.name ? { toName: recipient.name } : {}),
+        tokenId: normalizedTokenId,
+        ...(collectionType === 'ERC1155' ? { amount } : {}),
+        collectionAddress,
+        collectionType,
+      },
+      rowNumber,
+      options.maxItems
+    );
+  });
+
+  return result;
+}
+
+/**
+ * Turn imported rows into MON/ERC-20 disperse items.
+ * Amounts are human-readable and converted to the token's smallest unit.
+ */
+export function importDisperseItems(
+  rows: string[][],
+  layout: ImportLayout,
+  options: DisperseImportOptions
+): ImportResult<DisperseItem> {
+  const result = emptyResult<DisperseItem>();
+  const { mapping } = layout;
+  const seenRecipients = new Map<string, number>();
+
+  if (mapping.address === undefined || mapping.amount === undefined) {
+    result.errors.push({ row: 1, message: 'Could not find address and amount columns' });
+    return result;
+  }
+
+  dataRows(rows, layout).forEach(({ row, rowNumber }) => {
+
+    const recipient = parseRecipient(cellAt(row, mapping.address), options.names);
+    if (recipient.error) {
+      result.errors.push({ row: rowNumber, column: 'address', message: recipient.error });
+      return;
+    }
+
+    // A comma may be a thousands separator or a decimal comma (common in semicolon
+    // files), so amounts with one are rejected rather than guessed
+    const rawAmount = cellAt(row, mapping.amount);
+    if (rawAmount.includes(',')) {
+      result.errors.push({
+        row: rowNumber,
+        column: 'amount',
+        message: `Amount "${rawAmount}" has a comma; use a dot for decimals and no thousands separators`,
+      });
+      return;
+    }
+    const amountCell = rawAmount.replace(/[_\s]/g, '');
+    if (!DECIMAL_PATTERN.test(amountCell)) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: `Invalid amount "${amountCell}"` });
+      return;
+    }
+    const fraction = amountCell.split('.')[1] ?? '';
+    if (fraction.length > options.decimals) {
+      result.errors.push({
+        row: rowNumber,
+        column: 'amount',
+        message: `Amount has more than ${options.decimals} decimals`,
+      });
+      return;
+    }
+    const amount = parseUnits(amountCell, options.decimals);
+    if (amount === 0n) {
+      result.errors.push({ row: rowNumber, column: 'amount', message: 'Amount is zero' });
+      return;
+    }
+
+    const firstRow = seenRecipients.get(recipient.address!);
+    if (firstRow !== undefined) {
+      result.warnings.push({
+        row: rowNumber,
+        column: 'address',
+        message: `Duplicate recipient (first on row ${firstRow})`,
+      });
+    } else {
+      seenRecipients.set(recipient.address!, rowNumber);
+    }
+
+    pushItem(
+      result,
+      { to: recipient.address!, ...(recipient.name ? { toName: recipient.name } : {}), amount: amount.toString() },
+      rowNumber,
+      options.maxItems
+    );
+  });
+
+  return result;
+}
@@ -0,0 +1,162 @@
+/**
+ * Minimal XLSX reader: returns the first worksheet as rows of cell text.
+ * Handles what spreadsheet exports contain in practice (shared strings, inline
+ * strings, numbers, booleans); formulas come through as their cached value.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Index a zip archive by filename using its central directory
+ */
+function readZipEntries(view: DataView): Map<string, ZipEntry> {
+  // End-of-central-directory record sits in the last 22 bytes + up to 64KB comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid XLSX file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt XLSX central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipText(view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt XLSX entry: ${name}`);
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXML(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+// Namespace-agnostic lookup; some writers prefix SpreadsheetML elements
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Path of the first worksheet in workbook order
+ */
+async function getFirstSheetPath(view: DataView, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  const rels = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+
+  if (workbook && rels) {
+    const sheet = elements(parseXML(workbook), 'sheet')[0];
+    const relId = sheet?.getAttributeNS(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+      'id'
+    ) ?? sheet?.getAttribute('r:id');
+    const target = elements(parseXML(rels), 'Relationship')
+      .find((r) => r.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Rich-text strings split their text across several <t> runs
+function textContent(el: Element): string {
+  return elements(el, 't').map((t) => t.textContent ?? '').join('');
+}
+
+/**
+ * Read the first worksheet of an XLSX file as rows of trimmed cell text.
+ * Blank rows are kept, so index + 1 is the spreadsheet row number.
+ */
+export async function readXLSXRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sharedStringsXML = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXML ? elements(parseXML(sharedStringsXML), 'si').map(textContent) : [];
+
+  const sheetXML = await readZipText(view, entries, await getFirstSheetPath(view, entries));
+  if (!sheetXML) throw new Error('XLSX file has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowEl of elements(parseXML(sheetXML), 'row')) {
+    const row: string[] = [];
+
+    elements(rowEl, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textContent(cell);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+
+      while (row.length < col) row.push('');
+      row[col] = text.trim();
+    });
+
+    // Writers omit empty rows; `r` is the 1-based row number
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => cell === '')) rows.pop();
+  return rows;
+}
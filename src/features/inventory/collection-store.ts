@@ -95,10 +95,11 @@ export async function addCollection(
   const normalizedAddress = getAddress(address);
   const normalizedWallet = walletAddress.toLowerCase();
 
-  // Check for duplicates
+  // Check for duplicates (wallet sync stores lowercase addresses)
   const existing = await db.collections
-    .where('[walletAddress+address]')
-    .equals([normalizedWallet, normalizedAddress])
+    .where('walletAddress')
+    .equals(normalizedWallet)
+    .filter((c) => c.address.toLowerCase() === normalizedAddress.toLowerCase())
     .first();
   if (existing) {
     return { code: 'DUPLICATE', message: 'Collection already watched for this wallet' };
@@ -131,12 +132,43 @@ export async function addCollection(
     type,
     walletAddress: normalizedWallet,
     addedAt: Date.now(),
+    source: 'manual',
+    customName: !!name,
   };
 
   const id = await db.collections.add(collection);
   return { ...collection, id };
 }
 
+// syncState keys holding a collection's unscanned block ranges, history backfill
+// checkpoint and recent block hashes, see inventory-scanner
+export const GAP_STATE_PREFIX = 'inventory_gaps_';
+export const BACKFILL_STATE_PREFIX = 'inventory_backfill_';
+export const CHECKPOINT_STATE_PREFIX = 'inventory_checkpoints_';
+
+export function getGapStateKey(walletAddress: string, collectionAddress: string): string {
+  return `${GAP_STATE_PREFIX}${walletAddress.toLowerCase()}_${collectionAddress.toLowerCase()}`;
+}
+
+export function getBackfillStateKey(walletAddress: string, collectionAddress: string): string {
+  return `${BACKFILL_STATE_PREFIX}${walletAddress.toLowerCase()}_${collectionAddress.toLowerCase()}`;
+}
+
+export function getCheckpointStateKey(walletAddress: string, collectionAddress: string): string {
+  return `${CHECKPOINT_STATE_PREFIX}${walletAddress.toLowerCase()}_${collectionAddress.toLowerCase()}`;
+}
+
+/**
+ * All per-collection scan state keys, for cleanup when a collection goes away
+ */
+export function getCollectionStateKeys(walletAddress: string, collectionAddress: string): string[] {
+  return [
+    getGapStateKey(walletAddress, collectionAddress),
+    getBackfillStateKey(walletAddress, collectionAddress),
+    getCheckpointStateKey(walletAddress, collectionAddress),
+  ];
+}
+
 export async function removeCollection(id: number): Promise<void> {
   const collection = await db.collections.get(id);
   if (collection) {
@@ -145,8 +177,15 @@ export async function removeCollection(id: number): Promise<void> {
       .where('[collectionAddress+ownerAddress]')
       .equals([collection.address, collection.walletAddress])
       .delete();
-    // Remove associated transfers
-    await db.transfers.where('collectionAddress').equals(collection.address).delete();
+    // Transfers aren't per wallet: keep them while another wallet still watches the collection
+    const watchers = await db.collections.where('address').equals(collection.address).count();
+    if (watchers <= 1) {
+      await db.transfers.where('collectionAddress').equals(collection.address).delete();
+    }
+    await db.syncState
+      .where('key')
+      .anyOf(getCollectionStateKeys(collection.walletAddress, collection.address))
+      .delete();
   }
   await db.collections.delete(id);
 }
@@ -167,3 +206,12 @@ export async function updateCollectionSyncState(
     lastSyncAt: Date.now(),
   });
 }
+
+/**
+ * Give a collection a user-set name; wallet sync will not overwrite it
+ */
+export async function renameCollection(id: number, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  await db.collections.update(id, { name: trimmed, customName: true });
+}
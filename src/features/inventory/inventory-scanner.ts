@@ -1,8 +1,29 @@
-import { type Address, parseAbiItem, getAddress, zeroAddress } from 'viem';
-import { DEFAULT_SCAN_BLOCK_RANGE, MAX_LOGS_PER_REQUEST, getPublicClient } from '@/lib/chain';
-import { db, type NFTHolding, type TransferEvent, type WatchedCollection } from '@/lib/db';
-import { sleep, chunk } from '@/lib/utils';
-import { updateCollectionSyncState } from './collection-store';
+import { type Address, BlockNotFoundError, parseAbiItem, getAddress, zeroAddress } from 'viem';
+import {
+  CONFIRMATION_DEPTH,
+  DEFAULT_SCAN_BLOCK_RANGE,
+  MAX_LOGS_PER_REQUEST,
+  getPublicClient,
+} from '@/lib/chain';
+import {
+  db,
+  getSyncState,
+  setSyncState,
+  type NFTHolding,
+  type TransferEvent,
+  type WatchedCollection,
+} from '@/lib/db';
+import { chunk } from '@/lib/utils';
+import { scanLogs, type BlockRange, type LogScanResult } from '@/lib/scanner/log-scanner';
+import { findDeployBlock } from '@/lib/scanner/deploy-block';
+import {
+  BACKFILL_STATE_PREFIX,
+  GAP_STATE_PREFIX,
+  getBackfillStateKey,
+  getCheckpointStateKey,
+  getGapStateKey,
+  updateCollectionSyncState,
+} from './collection-store';
 
 const client = getPublicClient();
 
@@ -34,149 +55,224 @@ export interface SyncProgress {
 export type SyncProgressCallback = (progress: SyncProgress) => void;
 
 /**
- * Scan Transfer events for an ERC-721 collection
+ * A block range whose logs could not be fetched; re-scanned on later syncs
  */
-interface ScanResult {
-  transfers: TransferEvent[];
-  failedRanges: { from: bigint; to: bigint }[];
+export interface BlockGap {
+  from: number;
+  to: number;
+  attempts: number;
+  nextRetryAt: number;
 }
 
-async function scanERC721Transfers(
+// Gap retries back off exponentially from 30s up to an hour
+const GAP_RETRY_BASE_MS = 30_000;
+const GAP_RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Fetch ERC-721 Transfer logs for one block range; throws if the RPC call fails
+ */
+async function fetchERC721Logs(
   collectionAddress: Address,
   fromBlock: bigint,
-  toBlock: bigint,
-  onProgress?: SyncProgressCallback
-): Promise<ScanResult> {
+  toBlock: bigint
+): Promise<TransferEvent[]> {
+  const logs = await client.getLogs({
+    address: collectionAddress,
+    event: ERC721_TRANSFER_EVENT,
+    fromBlock,
+    toBlock,
+  });
+
   const transfers: TransferEvent[] = [];
-  const failedRanges: { from: bigint; to: bigint }[] = [];
-  const blockRange = 10000n; // Scan 10k blocks at a time
+  for (const log of logs) {
+    if (log.args.from && log.args.to && log.args.tokenId !== undefined) {
+      transfers.push({
+        collectionAddress,
+        tokenId: log.args.tokenId.toString(),
+        from: log.args.from.toLowerCase(),
+        to: log.args.to.toLowerCase(),
+        amount: 1,
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash,
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
+      });
+    }
+  }
+  return transfers;
+}
 
-  for (let start = fromBlock; start <= toBlock; start += blockRange) {
-    const end = start + blockRange - 1n > toBlock ? toBlock : start + blockRange - 1n;
+/**
+ * Fetch ERC-1155 TransferSingle and TransferBatch logs for one block range;
+ * throws if either RPC call fails
+ */
+async function fetchERC1155Logs(
+  collectionAddress: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<TransferEvent[]> {
+  const transfers: TransferEvent[] = [];
 
-    onProgress?.({
-      stage: 'fetching',
-      currentBlock: start,
-      targetBlock: toBlock,
-      transfersFound: transfers.length,
-      holdingsUpdated: 0,
-    });
+  // Fetch TransferSingle events
+  const singleLogs = await client.getLogs({
+    address: collectionAddress,
+    event: ERC1155_TRANSFER_SINGLE_EVENT,
+    fromBlock,
+    toBlock,
+  });
 
-    try {
-      const logs = await client.getLogs({
-        address: collectionAddress,
-        event: ERC721_TRANSFER_EVENT,
-        fromBlock: start,
-        toBlock: end,
+  for (const log of singleLogs) {
+    if (log.args.from && log.args.to && log.args.id !== undefined) {
+      transfers.push({
+        collectionAddress,
+        tokenId: log.args.id.toString(),
+        from: log.args.from.toLowerCase(),
+        to: log.args.to.toLowerCase(),
+        amount: Number(log.args.value ?? 1),
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash,
+        blockHash: log.blockHash,
+        logIndex: log.logIndex,
       });
+    }
+  }
 
-      for (const log of logs) {
-        if (log.args.from && log.args.to && log.args.tokenId !== undefined) {
-          transfers.push({
-            collectionAddress,
-            tokenId: log.args.tokenId.toString(),
-            from: log.args.from.toLowerCase(),
-            to: log.args.to.toLowerCase(),
-            amount: 1,
-            blockNumber: Number(log.blockNumber),
-            transactionHash: log.transactionHash,
-            logIndex: log.logIndex,
-          });
-        }
-      }
+  // Fetch TransferBatch events
+  const batchLogs = await client.getLogs({
+    address: collectionAddress,
+    event: ERC1155_TRANSFER_BATCH_EVENT,
+    fromBlock,
+    toBlock,
+  });
 
-      // Rate limiting - wait 50ms between requests
-      await sleep(50);
-    } catch (error) {
-      console.error(`Error fetching logs for blocks ${start}-${end}:`, error);
-      failedRanges.push({ from: start, to: end });
+  for (const log of batchLogs) {
+    if (log.args.from && log.args.to && log.args.ids && log.args.values) {
+      for (let i = 0; i < log.args.ids.length; i++) {
+        transfers.push({
+          collectionAddress,
+          tokenId: log.args.ids[i].toString(),
+          from: log.args.from.toLowerCase(),
+          to: log.args.to.toLowerCase(),
+          amount: Number(log.args.values[i]),
+          blockNumber: Number(log.blockNumber),
+          transactionHash: log.transactionHash,
+          blockHash: log.blockHash,
+          logIndex: log.logIndex * 1000 + i, // Unique index for batch items
+        });
+      }
     }
   }
 
-  return { transfers, failedRanges };
+  return transfers;
+}
+
+function fetchTransferLogs(
+  collection: WatchedCollection,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<TransferEvent[]> {
+  return collection.type === 'ERC721'
+    ? fetchERC721Logs(collection.address as Address, fromBlock, toBlock)
+    : fetchERC1155Logs(collection.address as Address, fromBlock, toBlock);
 }
 
 /**
- * Scan Transfer events for an ERC-1155 collection
+ * Scan a collection's transfers with the shared adaptive log scanner
  */
-async function scanERC1155Transfers(
-  collectionAddress: Address,
+async function scanTransfers(
+  collection: WatchedCollection,
   fromBlock: bigint,
   toBlock: bigint,
   onProgress?: SyncProgressCallback
-): Promise<ScanResult> {
-  const transfers: TransferEvent[] = [];
-  const failedRanges: { from: bigint; to: bigint }[] = [];
-  const blockRange = 10000n;
-
-  for (let start = fromBlock; start <= toBlock; start += blockRange) {
-    const end = start + blockRange - 1n > toBlock ? toBlock : start + blockRange - 1n;
-
-    onProgress?.({
-      stage: 'fetching',
-      currentBlock: start,
-      targetBlock: toBlock,
-      transfersFound: transfers.length,
-      holdingsUpdated: 0,
-    });
-
-    try {
-      // Fetch TransferSingle events
-      const singleLogs = await client.getLogs({
-        address: collectionAddress,
-        event: ERC1155_TRANSFER_SINGLE_EVENT,
-        fromBlock: start,
-        toBlock: end,
-      });
+): Promise<LogScanResult<TransferEvent>> {
+  return scanLogs({
+    fromBlock,
+    toBlock,
+    fetchRange: (from, to) => fetchTransferLogs(collection, from, to),
+    onProgress: (progress) =>
+      onProgress?.({
+        stage: 'fetching',
+        currentBlock: fromBlock + progress.scannedBlocks,
+        targetBlock: toBlock,
+        transfersFound: progress.itemsFound,
+        holdingsUpdated: 0,
+      }),
+  });
+}
 
-      for (const log of singleLogs) {
-        if (log.args.from && log.args.to && log.args.id !== undefined) {
-          transfers.push({
-            collectionAddress,
-            tokenId: log.args.id.toString(),
-            from: log.args.from.toLowerCase(),
-            to: log.args.to.toLowerCase(),
-            amount: Number(log.args.value ?? 1),
-            blockNumber: Number(log.blockNumber),
-            transactionHash: log.transactionHash,
-            logIndex: log.logIndex,
-          });
-        }
-      }
+function gapBackoff(attempts: number): number {
+  return Math.min(GAP_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), GAP_RETRY_MAX_MS);
+}
 
-      // Fetch TransferBatch events
-      const batchLogs = await client.getLogs({
-        address: collectionAddress,
-        event: ERC1155_TRANSFER_BATCH_EVENT,
-        fromBlock: start,
-        toBlock: end,
-      });
+/**
+ * Re-scan one gap. The scanner splits it as needed; whatever still fails comes back
+ * as smaller gaps with the attempt count bumped.
+ */
+async function refillGap(
+  collection: WatchedCollection,
+  gap: BlockGap
+): Promise<{ transfers: TransferEvent[]; remaining: BlockGap[] }> {
+  const { items, failedRanges } = await scanLogs({
+    fromBlock: BigInt(gap.from),
+    toBlock: BigInt(gap.to),
+    fetchRange: (from, to) => fetchTransferLogs(collection, from, to),
+  });
+  const attempts = gap.attempts + 1;
+  return {
+    transfers: items,
+    remaining: failedRanges.map((range) => ({
+      from: Number(range.from),
+      to: Number(range.to),
+      attempts,
+      nextRetryAt: Date.now() + gapBackoff(attempts),
+    })),
+  };
+}
 
-      for (const log of batchLogs) {
-        if (log.args.from && log.args.to && log.args.ids && log.args.values) {
-          for (let i = 0; i < log.args.ids.length; i++) {
-            transfers.push({
-              collectionAddress,
-              tokenId: log.args.ids[i].toString(),
-              from: log.args.from.toLowerCase(),
-              to: log.args.to.toLowerCase(),
-              amount: Number(log.args.values[i]),
-              blockNumber: Number(log.blockNumber),
-              transactionHash: log.transactionHash,
-              logIndex: log.logIndex * 1000 + i, // Unique index for batch items
-            });
-          }
-        }
-      }
+/**
+ * Block ranges of a collection that still need to be scanned
+ */
+export async function getCollectionGaps(collection: WatchedCollection): Promise<BlockGap[]> {
+  return (
+    (await getSyncState<BlockGap[]>(getGapStateKey(collection.walletAddress, collection.address))) ?? []
+  );
+}
 
-      await sleep(50);
-    } catch (error) {
-      console.error(`Error fetching logs for blocks ${start}-${end}:`, error);
-      failedRanges.push({ from: start, to: end });
+/**
+ * Read-modify-write a collection's gap list. Sync and the background backfill both
+ * update it, so the change runs in a transaction against the stored list.
+ */
+async function updateCollectionGaps(
+  collection: WatchedCollection,
+  update: (gaps: BlockGap[]) => BlockGap[]
+): Promise<BlockGap[]> {
+  const key = getGapStateKey(collection.walletAddress, collection.address);
+  return db.transaction('rw', db.syncState, async () => {
+    const gaps = update((await getSyncState<BlockGap[]>(key)) ?? []);
+    if (gaps.length === 0) {
+      await db.syncState.where('key').equals(key).delete();
+    } else {
+      await setSyncState(key, gaps);
     }
-  }
+    return gaps;
+  });
+}
+
+function toNewGaps(failedRanges: BlockRange[]): BlockGap[] {
+  return failedRanges.map((range) => ({
+    from: Number(range.from),
+    to: Number(range.to),
+    attempts: 1,
+    nextRetryAt: Date.now() + gapBackoff(1),
+  }));
+}
 
-  return { transfers, failedRanges };
+/**
+ * Number of outstanding gaps per collection, keyed by getGapStateKey
+ */
+export async function getGapCounts(): Promise<Map<string, number>> {
+  const states = await db.syncState.where('key').startsWith(GAP_STATE_PREFIX).toArray();
+  return new Map(states.map((state) => [state.key, (state.value as BlockGap[]).length]));
 }
 
 /**
@@ -227,77 +323,134 @@ function computeHoldings(
 }
 
 /**
- * Sync inventory for a watched collection
+ * Hash of a synced block, re-checked on the next sync to detect reorgs
  */
-export async function syncCollection(
-  collection: WatchedCollection,
-  onProgress?: SyncProgressCallback
-): Promise<{ success: boolean; error?: string; holdingsCount: number }> {
-  try {
-    const currentBlock = await client.getBlockNumber();
-    const fromBlock = collection.lastSyncBlock
-      ? BigInt(collection.lastSyncBlock) + 1n
-      : currentBlock - BigInt(DEFAULT_SCAN_BLOCK_RANGE);
+export interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
 
-    onProgress?.({
-      stage: 'fetching',
-      currentBlock: fromBlock,
-      targetBlock: currentBlock,
-      transfersFound: 0,
-      holdingsUpdated: 0,
-    });
+// Most recent checkpoints kept per collection
+const MAX_REORG_CHECKPOINTS = 64;
 
-    // Scan transfers based on collection type
-    const scanResult = collection.type === 'ERC721'
-      ? await scanERC721Transfers(
-          collection.address as Address,
-          fromBlock,
-          currentBlock,
-          onProgress
-        )
-      : await scanERC1155Transfers(
-          collection.address as Address,
-          fromBlock,
-          currentBlock,
-          onProgress
-        );
-
-    const { transfers, failedRanges } = scanResult;
-
-    if (failedRanges.length > 0) {
-      console.warn(`[Inventory] ${failedRanges.length} block range(s) failed during sync — inventory may be incomplete`);
+/**
+ * Newest checkpointed block still on the canonical chain, or undefined when the
+ * newest checkpoint matches and nothing was reorged. Walks newest-first, so a clean
+ * chain costs a single getBlock call. A block the node no longer has counts as
+ * reorged; any other lookup error is thrown so the sync stops without rolling back.
+ */
+async function findForkPoint(checkpoints: BlockCheckpoint[]): Promise<number | undefined> {
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const checkpoint = checkpoints[i];
+    const block = await client.getBlock({ blockNumber: BigInt(checkpoint.number) }).catch((error) => {
+      if (error instanceof BlockNotFoundError) return null;
+      throw error;
+    });
+    if (block?.hash === checkpoint.hash) {
+      return i === checkpoints.length - 1 ? undefined : checkpoint.number;
     }
+  }
+  // Nothing matches: everything from the oldest checkpoint on is suspect
+  return checkpoints.length > 0 ? checkpoints[0].number - 1 : undefined;
+}
 
-    onProgress?.({
-      stage: 'processing',
-      currentBlock: currentBlock,
-      targetBlock: currentBlock,
-      transfersFound: transfers.length,
-      holdingsUpdated: 0,
-    });
+/**
+ * Drop a collection's transfers above the fork block and recompute holdings.
+ * Transfers are shared, so every wallet watching the collection is rewound to the
+ * fork block, and its checkpoints and gaps above it are dropped for the rescan.
+ */
+async function rollbackCollection(collection: WatchedCollection, forkBlock: number): Promise<number> {
+  const removed = await db.transfers
+    .where('[collectionAddress+blockNumber]')
+    .between([collection.address, forkBlock + 1], [collection.address, Infinity], true, true)
+    .delete();
+
+  const watchers = await db.collections.where('address').equalsIgnoreCase(collection.address).toArray();
+  for (const watcher of watchers) {
+    if (watcher.lastSyncBlock === undefined || watcher.lastSyncBlock <= forkBlock) continue;
+    await db.collections.update(watcher.id!, { lastSyncBlock: forkBlock });
+    await setSyncState(
+      getCheckpointStateKey(watcher.walletAddress, watcher.address),
+      (await getCheckpoints(watcher)).filter((checkpoint) => checkpoint.number <= forkBlock)
+    );
+    await updateCollectionGaps(watcher, (gaps) =>
+      gaps
+        .filter((gap) => gap.from <= forkBlock)
+        .map((gap) => ({ ...gap, to: Math.min(gap.to, forkBlock) }))
+    );
+    await storeTransfers(watcher, []);
+  }
 
-    // Get existing transfers for full history computation
+  return removed;
+}
+
+async function getCheckpoints(collection: WatchedCollection): Promise<BlockCheckpoint[]> {
+  return (
+    (await getSyncState<BlockCheckpoint[]>(
+      getCheckpointStateKey(collection.walletAddress, collection.address)
+    )) ?? []
+  );
+}
+
+/**
+ * Keep hashes for the synced tip and for blocks with new transfers, limited to blocks
+ * within CONFIRMATION_DEPTH of the tip; older blocks are treated as final
+ */
+async function saveCheckpoints(
+  collection: WatchedCollection,
+  tip: BlockCheckpoint,
+  transfers: TransferEvent[]
+): Promise<void> {
+  const byNumber = new Map<number, string>();
+  for (const checkpoint of await getCheckpoints(collection)) {
+    byNumber.set(checkpoint.number, checkpoint.hash);
+  }
+  for (const transfer of transfers) {
+    if (transfer.blockHash) byNumber.set(transfer.blockNumber, transfer.blockHash);
+  }
+  byNumber.set(tip.number, tip.hash);
+
+  const oldestUnconfirmed = tip.number - CONFIRMATION_DEPTH + 1;
+  const checkpoints = Array.from(byNumber, ([number, hash]) => ({ number, hash }))
+    .filter((checkpoint) => checkpoint.number >= oldestUnconfirmed || checkpoint.number === tip.number)
+    .sort((a, b) => a.number - b.number)
+    .slice(-MAX_REORG_CHECKPOINTS);
+
+  await setSyncState(getCheckpointStateKey(collection.walletAddress, collection.address), checkpoints);
+}
+
+/**
+ * Store newly found transfers and recompute the wallet's holdings from the full
+ * history. Transfers are shared by every wallet watching the collection, so ones
+ * already stored by another sync, gap refill or backfill are skipped. Runs in a
+ * transaction so a background backfill and a sync don't interleave their writes.
+ */
+async function storeTransfers(
+  collection: WatchedCollection,
+  transfers: TransferEvent[]
+): Promise<number> {
+  return db.transaction('rw', [db.transfers, db.holdings], async () => {
     const existingTransfers = await db.transfers
       .where('collectionAddress')
       .equals(collection.address)
       .toArray();
 
-    const allTransfers = [...existingTransfers, ...transfers];
-
-    // Compute current holdings
-    const holdingsMap = computeHoldings(allTransfers, collection.address, collection.walletAddress);
-
-    onProgress?.({
-      stage: 'saving',
-      currentBlock: currentBlock,
-      targetBlock: currentBlock,
-      transfersFound: transfers.length,
-      holdingsUpdated: holdingsMap.size,
+    const seen = new Set(existingTransfers.map((t) => `${t.transactionHash}:${t.logIndex}`));
+    const newTransfers = transfers.filter((t) => {
+      const id = `${t.transactionHash}:${t.logIndex}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
     });
 
-    // Save new transfers
-    if (transfers.length > 0) {
-      await db.transfers.bulkAdd(transfers);
+    const holdingsMap = computeHoldings(
+      [...existingTransfers, ...newTransfers],
+      collection.address,
+      collection.walletAddress
+    );
+
+    if (newTransfers.length > 0) {
+      await db.transfers.bulkAdd(newTransfers);
     }
 
     // Update holdings (replace all for this collection/wallet)
@@ -322,19 +475,115 @@ export async function syncCollection(
       await db.holdings.bulkAdd(holdingsToAdd);
     }
 
-    // Update sync state
+    return holdingsMap.size;
+  });
+}
+
+/**
+ * Sync inventory for a watched collection.
+ * The first sync covers the last DEFAULT_SCAN_BLOCK_RANGE blocks so holdings show up
+ * quickly; older history is then backfilled from the deploy block in the background.
+ */
+export async function syncCollection(
+  collection: WatchedCollection,
+  onProgress?: SyncProgressCallback
+): Promise<{ success: boolean; error?: string; holdingsCount: number; gaps: number }> {
+  try {
+    const head = await client.getBlock();
+    const currentBlock = head.number;
+
+    // Roll back transfers from blocks that are no longer on the canonical chain
+    let lastSyncBlock = collection.lastSyncBlock;
+    const forkBlock = lastSyncBlock ? await findForkPoint(await getCheckpoints(collection)) : undefined;
+    if (forkBlock !== undefined) {
+      const removed = await rollbackCollection(collection, forkBlock);
+      console.warn(`[Inventory] Reorg below block ${lastSyncBlock}: rolled back ${removed} transfer(s) above block ${forkBlock}`);
+      lastSyncBlock = Math.min(lastSyncBlock!, forkBlock);
+    }
+
+    // Retry earlier failed ranges whose backoff has elapsed
+    const now = Date.now();
+    const retried: BlockGap[] = [];
+    const remaining: BlockGap[] = [];
+    const refilled: TransferEvent[] = [];
+    for (const gap of await getCollectionGaps(collection)) {
+      if (gap.nextRetryAt > now) continue;
+      const result = await refillGap(collection, gap);
+      retried.push(gap);
+      refilled.push(...result.transfers);
+      remaining.push(...result.remaining);
+    }
+
+    const windowStart = currentBlock > BigInt(DEFAULT_SCAN_BLOCK_RANGE)
+      ? currentBlock - BigInt(DEFAULT_SCAN_BLOCK_RANGE)
+      : 0n;
+    const fromBlock = lastSyncBlock
+      ? BigInt(lastSyncBlock) + 1n
+      : windowStart;
+
+    onProgress?.({
+      stage: 'fetching',
+      currentBlock: fromBlock,
+      targetBlock: currentBlock,
+      transfersFound: 0,
+      holdingsUpdated: 0,
+    });
+
+    const scanResult = await scanTransfers(collection, fromBlock, currentBlock, onProgress);
+    const transfers = [...refilled, ...scanResult.items];
+
+    onProgress?.({
+      stage: 'processing',
+      currentBlock: currentBlock,
+      targetBlock: currentBlock,
+      transfersFound: transfers.length,
+      holdingsUpdated: 0,
+    });
+
+    const holdingsCount = await storeTransfers(collection, transfers);
+
+    onProgress?.({
+      stage: 'saving',
+      currentBlock: currentBlock,
+      targetBlock: currentBlock,
+      transfersFound: transfers.length,
+      holdingsUpdated: holdingsCount,
+    });
+
+    // Update sync state; the head advances past failed ranges, which are kept as gaps
     await updateCollectionSyncState(collection.id!, Number(currentBlock));
+    await saveCheckpoints(collection, { number: Number(currentBlock), hash: head.hash }, transfers);
+    const gaps = await updateCollectionGaps(collection, (stored) => [
+      ...stored.filter((gap) => !retried.some((r) => r.from === gap.from && r.to === gap.to)),
+      ...remaining,
+      ...toNewGaps(scanResult.failedRanges),
+    ]);
+
+    if (gaps.length > 0) {
+      console.warn(`[Inventory] ${gaps.length} block range(s) still to re-scan — inventory is incomplete`);
+    }
+
+    // Queue the history before the first window, then keep any pending backfill going
+    if (!collection.lastSyncBlock && windowStart > 0n) {
+      await setSyncState<BackfillState>(
+        getBackfillStateKey(collection.walletAddress, collection.address),
+        { endBlock: Number(windowStart) - 1 }
+      );
+    }
+    void backfillCollection(collection);
 
     onProgress?.({
       stage: 'complete',
       currentBlock: currentBlock,
       targetBlock: currentBlock,
       transfersFound: transfers.length,
-      holdingsUpdated: holdingsMap.size,
-      failedRanges: failedRanges.length > 0 ? failedRanges : undefined,
+      holdingsUpdated: holdingsCount,
+      failedRanges: gaps.length > 0
+        ? gaps.map((gap) => ({ from: BigInt(gap.from), to: BigInt(gap.to) }))
+        : undefined,
     });
 
-    return { success: true, holdingsCount: holdingsMap.size };
+    return { success: true, holdingsCount, gaps: gaps.length };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     onProgress?.({
@@ -345,10 +594,88 @@ export async function syncCollection(
       holdingsUpdated: 0,
       error: errorMessage,
     });
-    return { success: false, error: errorMessage, holdingsCount: 0 };
+    return { success: false, error: errorMessage, holdingsCount: 0, gaps: 0 };
   }
 }
 
+/**
+ * Checkpoint of a collection's history backfill, kept in syncState until it finishes
+ */
+export interface BackfillState {
+  endBlock: number; // Last block before the first synced window
+  deployBlock?: number; // Set once the deploy block lookup has run
+  nextBlock?: number; // Next block to scan; backfill moves forward from deployBlock
+}
+
+// Blocks scanned between checkpoints
+const BACKFILL_SEGMENT = 100_000;
+
+// Backfills running in this tab, so a sync doesn't start a second one
+const runningBackfills = new Set<string>();
+
+/**
+ * Scan a collection's history from its deploy block up to the first synced window,
+ * one segment at a time. Each segment's transfers are stored and the checkpoint is
+ * advanced, so a closed tab or failed lookup resumes where it stopped on the next
+ * sync. Ranges that fail become gaps like any other sync.
+ */
+export async function backfillCollection(
+  collection: WatchedCollection,
+  onProgress?: SyncProgressCallback
+): Promise<void> {
+  const key = getBackfillStateKey(collection.walletAddress, collection.address);
+  if (runningBackfills.has(key)) return;
+  runningBackfills.add(key);
+
+  try {
+    let state = await getSyncState<BackfillState>(key);
+    if (!state) return;
+
+    if (state.nextBlock === undefined) {
+      // Searched up to the head: a contract deployed inside the first window has no
+      // code at endBlock, and then there is nothing before the window to backfill
+      const deployBlock = Number(await findDeployBlock(collection.address as Address));
+      if (deployBlock > state.endBlock) {
+        await db.syncState.where('key').equals(key).delete();
+        return;
+      }
+      state = { ...state, deployBlock, nextBlock: deployBlock };
+      await setSyncState(key, state);
+    }
+
+    while (state.nextBlock! <= state.endBlock) {
+      // Stop if the collection was removed while the backfill was running
+      if (!(await db.collections.get(collection.id!))) return;
+
+      const from = state.nextBlock!;
+      const to = Math.min(from + BACKFILL_SEGMENT - 1, state.endBlock);
+      const { items, failedRanges } = await scanTransfers(collection, BigInt(from), BigInt(to), onProgress);
+
+      await storeTransfers(collection, items);
+      if (failedRanges.length > 0) {
+        await updateCollectionGaps(collection, (gaps) => [...gaps, ...toNewGaps(failedRanges)]);
+      }
+
+      state = { ...state, nextBlock: to + 1 };
+      await setSyncState(key, state);
+    }
+
+    await db.syncState.where('key').equals(key).delete();
+  } catch (error) {
+    console.warn(`[Inventory] Backfill of ${collection.address} paused, resumes on next sync:`, error);
+  } finally {
+    runningBackfills.delete(key);
+  }
+}
+
+/**
+ * Collections with a history backfill still pending, keyed by getBackfillStateKey
+ */
+export async function getPendingBackfills(): Promise<Map<string, BackfillState>> {
+  const states = await db.syncState.where('key').startsWith(BACKFILL_STATE_PREFIX).toArray();
+  return new Map(states.map((state) => [state.key, state.value as BackfillState]));
+}
+
 /**
  * Get holdings for a collection/wallet pair
  */
@@ -0,0 +1,359 @@
+import Dexie from 'dexie';
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  parseAbi,
+} from 'viem';
+import { getPublicClient } from '@/lib/chain';
+import { INTERFACE_IDS } from '@/lib/chain/abis';
+import { db, type SnapshotToken, type StoredSnapshot } from '@/lib/db';
+import { chunk, sleep } from '@/lib/utils';
+import { scanMints } from '@/lib/scanner/mint-scanner';
+import { findDeployBlock } from '@/lib/scanner/deploy-block';
+import { type HolderSnapshot } from './snapshot-engine';
+import { type SnapshotChunkProgress } from './snapshot-stream';
+
+const client = getPublicClient();
+
+const SNAPSHOT_ABI = parseAbi([
+  'function totalSupply() view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenByIndex(uint256 index) view returns (uint256)',
+  'function name() view returns (string)',
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+]);
+
+// Zero addresses to exclude
+const ZERO_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0x000000000000000000000000000000000000dead',
+];
+
+// Token ids per step; each step is stored before the next one starts
+const STEP_TOKENS = 500;
+// Reads started together; the client's multicall batching packs them into aggregate3 calls
+const CALL_BATCH_SIZE = 100;
+// Blocks of mint logs scanned per segment when token ids come from mint logs
+const MINT_SEGMENT_BLOCKS = 200_000n;
+// Extra passes over reads that failed with an RPC error
+const MAX_READ_RETRIES = 2;
+const RETRY_BASE_MS = 500;
+
+export interface ClientSnapshotProgress extends SnapshotChunkProgress {
+  holdersFound: number;
+  failures: number; // Token reads and log ranges that failed so far
+}
+
+export interface ClientSnapshotRunOptions {
+  onProgress?: (progress: ClientSnapshotProgress) => void;
+  signal?: AbortSignal; // Pauses the snapshot after the current step
+}
+
+// Snapshots being built in this tab; a 'running' row not in here was interrupted by a reload
+const activeSnapshots = new Set<number>();
+
+export function isClientSnapshotRunning(snapshotId: number): boolean {
+  return activeSnapshots.has(snapshotId);
+}
+
+function isRevert(error: unknown): boolean {
+  return error instanceof BaseError && !!error.walk((e) => e instanceof ContractFunctionRevertedError);
+}
+
+interface ReadResult<T, R> {
+  values: [T, R][];
+  reverted: T[];
+  failed: T[]; // Still failing with RPC errors after retries
+}
+
+/**
+ * Read one value per item in batches, retrying items that failed with RPC errors.
+ * Reverts are final: the token doesn't exist at the snapshot block.
+ */
+async function readAll<T, R>(items: T[], read: (item: T) => Promise<R>): Promise<ReadResult<T, R>> {
+  const values: [T, R][] = [];
+  const reverted: T[] = [];
+  let pending = items;
+
+  for (let attempt = 0; pending.length > 0 && attempt <= MAX_READ_RETRIES; attempt++) {
+    if (attempt > 0) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    const failed: T[] = [];
+
+    for (const batch of chunk(pending, CALL_BATCH_SIZE)) {
+      const results = await Promise.allSettled(batch.map(read));
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') values.push([batch[i], result.value]);
+        else if (isRevert(result.reason)) reverted.push(batch[i]);
+        else failed.push(batch[i]);
+      });
+    }
+    pending = failed;
+  }
+
+  return { values, reverted, failed: pending };
+}
+
+function snapshotProgress(snapshot: StoredSnapshot): SnapshotChunkProgress {
+  if (snapshot.discovery === 'enumerable') {
+    return { processed: snapshot.nextIndex, total: snapshot.totalSupply ?? 0, unit: 'tokens' };
+  }
+  return {
+    processed: (snapshot.nextBlock ?? snapshot.blockNumber + 1) - snapshot.deployBlock!,
+    total: snapshot.blockNumber - snapshot.deployBlock! + 1,
+    unit: 'blocks',
+  };
+}
+
+function isDone(snapshot: StoredSnapshot): boolean {
+  return snapshot.discovery === 'enumerable'
+    ? snapshot.nextIndex >= (snapshot.totalSupply ?? 0)
+    : snapshot.nextBlock === undefined || snapshot.nextBlock > snapshot.blockNumber;
+}
+
+/**
+ * Start a browser-built snapshot of an ERC-721 collection at `blockNumber` (the head when
+ * omitted). Ownership is read with `ownerOf`, so past blocks need an RPC with historical state.
+ * Nothing is scanned yet; call `runClientSnapshot` with the returned snapshot's id.
+ */
+export async function createClientSnapshot(collectionAddress: Address, blockNumber?: bigint): Promise<StoredSnapshot> {
+  const block = await client.getBlock(blockNumber === undefined ? {} : { blockNumber });
+  const address = collectionAddress.toLowerCase() as Address;
+
+  const readAtBlock = <R>(functionName: 'name' | 'totalSupply', fallback: R) =>
+    client
+      .readContract({ address, abi: SNAPSHOT_ABI, functionName, blockNumber: block.number })
+      .catch(() => fallback);
+  const supportsInterface = (interfaceId: `0x${string}`) =>
+    client
+      .readContract({ address, abi: SNAPSHOT_ABI, functionName: 'supportsInterface', args: [interfaceId] })
+      .catch(() => false);
+
+  if (await supportsInterface(INTERFACE_IDS.ERC1155)) {
+    throw new Error('ERC-1155 balances come from transfer logs; use the server engine for this collection');
+  }
+
+  const hasState = await client
+    .getCode({ address, blockNumber: block.number })
+    .then(() => true)
+    .catch(() => false);
+  if (!hasState) {
+    throw new Error(`The RPC does not serve state at block ${block.number}; use the server engine to replay transfer logs`);
+  }
+
+  const name = await readAtBlock('name', 'Unknown');
+  const enumerable = await supportsInterface(INTERFACE_IDS.ERC721Enumerable);
+  const totalSupply = enumerable ? await readAtBlock<bigint | undefined>('totalSupply', undefined) : undefined;
+  const deployBlock = totalSupply === undefined ? await findDeployBlock(address, block.number) : undefined;
+
+  const now = Date.now();
+  const snapshot: StoredSnapshot = {
+    collectionAddress: address,
+    name: name as string,
+    blockNumber: Number(block.number),
+    blockTimestamp: Number(block.timestamp),
+    discovery: totalSupply !== undefined ? 'enumerable' : 'mints',
+    totalSupply: totalSupply !== undefined ? Number(totalSupply) : undefined,
+    deployBlock: deployBlock !== undefined ? Number(deployBlock) : undefined,
+    nextIndex: 0,
+    nextBlock: deployBlock !== undefined ? Number(deployBlock) : undefined,
+    scannedTokens: 0,
+    failedTokens: 0,
+    burnedTokens: 0,
+    failedRanges: 0,
+    status: 'paused',
+    createdAt: now,
+    updatedAt: now,
+  };
+  snapshot.id = await db.snapshots.add(snapshot);
+  return snapshot;
+}
+
+interface Step {
+  tokenIds: bigint[];
+  failedTokens: number;
+  failedRanges: number;
+  cursor: Partial<Pick<StoredSnapshot, 'nextIndex' | 'nextBlock' | 'nextLogIndex'>>;
+}
+
+/**
+ * Next ids of an ERC721Enumerable collection, from `tokenByIndex` at the snapshot block
+ */
+async function nextIndexStep(snapshot: StoredSnapshot): Promise<Step> {
+  const start = snapshot.nextIndex;
+  const end = Math.min(start + STEP_TOKENS, snapshot.totalSupply ?? 0);
+  const indexes = Array.from({ length: end - start }, (_, i) => BigInt(start + i));
+
+  const { values, reverted, failed } = await readAll(indexes, (index) =>
+    client.readContract({
+      address: snapshot.collectionAddress as Address,
+      abi: SNAPSHOT_ABI,
+      functionName: 'tokenByIndex',
+      args: [index],
+      blockNumber: BigInt(snapshot.blockNumber),
+    })
+  );
+
+  return {
+    tokenIds: values.map(([, tokenId]) => tokenId),
+    failedTokens: reverted.length + failed.length,
+    failedRanges: 0,
+    cursor: { nextIndex: end },
+  };
+}
+
+/**
+ * Next ids of a collection without enumeration, from mint logs after the snapshot's cursor
+ */
+async function nextMintStep(snapshot: StoredSnapshot, signal?: AbortSignal): Promise<Step> {
+  const blockNumber = BigInt(snapshot.blockNumber);
+  const mints = await scanMints(client, snapshot.collectionAddress as Address, {
+    from: { block: BigInt(snapshot.nextBlock!), logIndex: snapshot.nextLogIndex },
+    toBlock: blockNumber,
+    maxTokens: STEP_TOKENS,
+    segmentBlocks: MINT_SEGMENT_BLOCKS,
+    signal,
+  });
+
+  return {
+    tokenIds: mints.tokenIds,
+    failedTokens: 0,
+    failedRanges: mints.failedRanges.length,
+    cursor: {
+      nextBlock: Number(mints.next?.block ?? blockNumber + 1n),
+      nextLogIndex: mints.next?.logIndex,
+    },
+  };
+}
+
+async function countHolders(snapshotId: number): Promise<number> {
+  const owners = await db.snapshotTokens
+    .where('[snapshotId+owner]')
+    .between([snapshotId, Dexie.minKey], [snapshotId, Dexie.maxKey])
+    .uniqueKeys();
+  return owners.length;
+}
+
+/**
+ * Build (or resume) a browser snapshot step by step. Owners of each step are stored in
+ * `snapshotTokens` together with the snapshot's cursor, so a reload or an aborted
+ * `signal` loses at most the step in flight. Resolves with the snapshot as stored:
+ * 'completed', or 'paused' when aborted.
+ */
+export async function runClientSnapshot(
+  snapshotId: number,
+  options: ClientSnapshotRunOptions = {}
+): Promise<StoredSnapshot> {
+  const { onProgress, signal } = options;
+  if (activeSnapshots.has(snapshotId)) {
+    throw new Error('This snapshot is already being built');
+  }
+
+  let snapshot = await db.snapshots.get(snapshotId);
+  if (!snapshot) throw new Error('Snapshot not found');
+  if (snapshot.status === 'completed') return snapshot;
+
+  activeSnapshots.add(snapshotId);
+  const save = async (changes: Partial<StoredSnapshot>) => {
+    snapshot = { ...snapshot!, ...changes, updatedAt: Date.now() };
+    await db.snapshots.update(snapshotId, { ...changes, updatedAt: snapshot.updatedAt });
+  };
+  const report = async () => {
+    onProgress?.({
+      ...snapshotProgress(snapshot!),
+      holdersFound: await countHolders(snapshotId),
+      failures: snapshot!.failedTokens + snapshot!.failedRanges,
+    });
+  };
+
+  try {
+    await save({ status: 'running', error: undefined });
+    await report();
+
+    while (!isDone(snapshot)) {
+      if (signal?.aborted) {
+        await save({ status: 'paused' });
+        return snapshot;
+      }
+
+      const step = snapshot.discovery === 'enumerable'
+        ? await nextIndexStep(snapshot)
+        : await nextMintStep(snapshot, signal);
+      const { values, reverted, failed } = await readAll(step.tokenIds, (tokenId) =>
+        client.readContract({
+          address: snapshot!.collectionAddress as Address,
+          abi: SNAPSHOT_ABI,
+          functionName: 'ownerOf',
+          args: [tokenId],
+          blockNumber: BigInt(snapshot!.blockNumber),
+        })
+      );
+
+      const tokens: SnapshotToken[] = values
+        .map(([tokenId, owner]) => ({ snapshotId, tokenId: tokenId.toString(), owner: owner.toLowerCase() }))
+        .filter((token) => !ZERO_ADDRESSES.includes(token.owner));
+      const changes: Partial<StoredSnapshot> = {
+        ...step.cursor,
+        lastTokenId: tokens.length > 0 ? tokens[tokens.length - 1].tokenId : snapshot.lastTokenId,
+        scannedTokens: snapshot.scannedTokens + step.tokenIds.length + step.failedTokens,
+        failedTokens: snapshot.failedTokens + step.failedTokens + failed.length,
+        burnedTokens: snapshot.burnedTokens + reverted.length,
+        failedRanges: snapshot.failedRanges + step.failedRanges,
+      };
+
+      // Owners and cursor move together, so a resumed snapshot never skips or repeats a step
+      await db.transaction('rw', db.snapshots, db.snapshotTokens, async () => {
+        await db.snapshotTokens.bulkPut(tokens);
+        await save(changes);
+      });
+      await report();
+    }
+
+    await save({ status: 'completed', completedAt: Date.now() });
+    return snapshot;
+  } catch (error) {
+    if (signal?.aborted) {
+      await save({ status: 'paused' });
+      return snapshot;
+    }
+    await save({ status: 'failed', error: error instanceof Error ? error.message : 'Failed to build snapshot' });
+    throw error;
+  } finally {
+    activeSnapshots.delete(snapshotId);
+  }
+}
+
+/**
+ * Holders of a browser snapshot, largest first. Works on partial snapshots too.
+ */
+export async function getClientSnapshotHolders(snapshotId: number): Promise<HolderSnapshot[]> {
+  const tokens = await db.snapshotTokens.where('snapshotId').equals(snapshotId).toArray();
+
+  const holdingsMap = new Map<string, string[]>();
+  for (const token of tokens) {
+    if (!holdingsMap.has(token.owner)) holdingsMap.set(token.owner, []);
+    holdingsMap.get(token.owner)!.push(token.tokenId);
+  }
+
+  return Array.from(holdingsMap.entries())
+    .map(([address, tokenIds]) => ({
+      address,
+      count: tokenIds.length,
+      tokenIds: tokenIds.sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1)),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export async function getClientSnapshots(): Promise<StoredSnapshot[]> {
+  return db.snapshots.orderBy('createdAt').reverse().toArray();
+}
+
+export async function deleteClientSnapshot(snapshotId: number): Promise<void> {
+  if (activeSnapshots.has(snapshotId)) {
+    throw new Error('Cancel the snapshot before deleting it');
+  }
+  await db.transaction('rw', db.snapshots, db.snapshotTokens, async () => {
+    await db.snapshotTokens.where('snapshotId').equals(snapshotId).delete();
+    await db.snapshots.delete(snapshotId);
+  });
+}
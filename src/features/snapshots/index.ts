@@ -1 +1,3 @@
 export * from './snapshot-engine';
+export * from './snapshot-stream';
+export * from './client-snapshot';
@@ -3,8 +3,9 @@ import { getPlanLimits } from '@/lib/db/plan';
 
 export interface HolderSnapshot {
   address: string;
-  count: number;
+  count: number; // ERC-1155: total quantity across ids
   tokenIds: string[];
+  quantities?: Record<string, string>; // ERC-1155 only: tokenId -> balance
 }
 
 export interface SnapshotProgress {
@@ -12,32 +13,63 @@ export interface SnapshotProgress {
   currentBlock: bigint;
   targetBlock: bigint;
   holdersFound: number;
+  processed?: number; // Chunked snapshots: tokens or blocks done so far
+  total?: number;
+  unit?: 'tokens' | 'blocks';
+  failures?: number; // Token queries and log ranges that failed so far
   failedRanges?: { from: bigint; to: bigint }[];
   error?: string;
 }
 
 /**
- * Export snapshot to CSV
+ * Merge one chunk's holders into the running snapshot. A token can show up in two
+ * chunks (e.g. burned and minted again), so token ids are de-duplicated per holder.
+ */
+export function mergeHolders(holders: Map<string, HolderSnapshot>, chunk: HolderSnapshot[]): void {
+  for (const holder of chunk) {
+    const existing = holders.get(holder.address);
+    if (!existing) {
+      holders.set(holder.address, { ...holder, tokenIds: [...holder.tokenIds] });
+      continue;
+    }
+    const tokenIds = Array.from(new Set([...existing.tokenIds, ...holder.tokenIds]));
+    holders.set(holder.address, { ...existing, tokenIds, count: tokenIds.length });
+  }
+}
+
+/**
+ * Export snapshot to CSV. Each row and the file name record the block the snapshot was taken at.
  */
 export function exportSnapshotCSV(
   snapshot: HolderSnapshot[],
   collectionName: string,
-  includeTokenIds: boolean = false
+  includeTokenIds: boolean = false,
+  blockNumber?: string
 ): void {
   const limits = getPlanLimits();
   const limitedSnapshot = snapshot.slice(0, limits.maxExportRows);
 
+  // ERC-1155 snapshots also write each id's balance, in Token IDs order
+  const withQuantities = includeTokenIds && limitedSnapshot.some((holder) => holder.quantities);
+
   const headers = includeTokenIds
     ? ['Address', 'Count', 'Token IDs']
     : ['Address', 'Count'];
+  if (withQuantities) headers.push('Quantities');
+  if (blockNumber) headers.push('Block');
 
-  const rows = limitedSnapshot.map((holder) =>
-    includeTokenIds
+  const rows = limitedSnapshot.map((holder) => {
+    const row = includeTokenIds
       ? [holder.address, holder.count.toString(), holder.tokenIds.join(';')]
-      : [holder.address, holder.count.toString()]
-  );
+      : [holder.address, holder.count.toString()];
+    if (withQuantities) {
+      row.push(holder.tokenIds.map((id) => holder.quantities?.[id] ?? '1').join(';'));
+    }
+    return blockNumber ? [...row, blockNumber] : row;
+  });
 
   const csv = toCSV(headers, rows);
   const timestamp = new Date().toISOString().split('T')[0];
-  downloadFile(csv, `${collectionName}-holders-${timestamp}.csv`);
+  const suffix = blockNumber ? `block-${blockNumber}` : timestamp;
+  downloadFile(csv, `${collectionName}-holders-${suffix}.csv`);
 }
@@ -0,0 +1,114 @@
+import { type HolderSnapshot } from './snapshot-engine';
+
+// One `chunk` event of /api/snapshot?stream=1, same shape as a non-streamed response
+export interface SnapshotChunk {
+  collection: string;
+  name?: string;
+  standard: 'ERC721' | 'ERC1155';
+  blockNumber: string;
+  blockTimestamp?: number; // First chunk only
+  method: 'call' | 'logs';
+  holders: HolderSnapshot[];
+  scannedTokens?: number;
+  failedTokens?: number;
+  burnedTokens?: number;
+  failedRanges?: number;
+  progress?: SnapshotChunkProgress;
+  nextCursor?: string | null;
+}
+
+export interface SnapshotChunkProgress {
+  processed: number;
+  total: number;
+  unit: 'tokens' | 'blocks';
+}
+
+export interface SnapshotStreamHandlers {
+  onChunk: (chunk: SnapshotChunk) => void;
+  onProgress?: (progress: SnapshotChunkProgress) => void; // Log scans between chunks
+  signal?: AbortSignal;
+}
+
+// Sent instead of `done` when the server ends a stream early; reconnect from here
+interface StreamContinuation {
+  nextCursor: string;
+  blockNumber: string;
+}
+
+/**
+ * Build a snapshot through the streaming route, calling the handlers as Server-Sent
+ * Events arrive. The server closes each stream after a bounded number of chunks and
+ * sends `continue`; the stream is then reopened with that cursor and block. Resolves
+ * on `done`; rejects on an `error` event, a failed request, a stream that ends early,
+ * or with an AbortError when `signal` is aborted.
+ */
+export async function streamSnapshot(params: URLSearchParams, handlers: SnapshotStreamHandlers): Promise<void> {
+  const streamParams = new URLSearchParams(params);
+  streamParams.set('stream', '1');
+
+  for (;;) {
+    const continuation = await readStream(streamParams, handlers);
+    if (!continuation) return;
+    streamParams.set('cursor', continuation.nextCursor);
+    streamParams.set('blockNumber', continuation.blockNumber);
+    streamParams.delete('timestamp');
+  }
+}
+
+/**
+ * One request to the streaming route; resolves null on `done`, or with where to
+ * reconnect on `continue`
+ */
+async function readStream(
+  streamParams: URLSearchParams,
+  handlers: SnapshotStreamHandlers
+): Promise<StreamContinuation | null> {
+  const response = await fetch(`/api/snapshot?${streamParams}`, { signal: handlers.signal });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to build snapshot');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      const payload = data ? JSON.parse(data) : {};
+
+      switch (event) {
+        case 'chunk':
+          handlers.onChunk(payload);
+          break;
+        case 'progress':
+          handlers.onProgress?.(payload);
+          break;
+        case 'error':
+          throw new Error(payload.error || 'Failed to build snapshot');
+        case 'continue':
+          await reader.cancel();
+          return payload as StreamContinuation;
+        case 'done':
+          await reader.cancel();
+          return null;
+      }
+    }
+  }
+
+  throw new Error('The snapshot stream ended before the snapshot was complete');
+}
@@ -0,0 +1,3 @@
+export * from './watched-wallet-store';
+export * from './wallet-sync';
+export * from './portfolio';
@@ -0,0 +1,24 @@
+import { formatUnits } from 'viem';
+import { type StoredToken } from '@/lib/db';
+
+/**
+ * Merge per-wallet token rows into one row per token with summed balances,
+ * for the combined multi-wallet view
+ */
+export function combineTokenBalances(tokens: StoredToken[]): StoredToken[] {
+  const combined = new Map<string, StoredToken>();
+
+  for (const token of tokens) {
+    const existing = combined.get(token.address);
+    if (!existing) {
+      combined.set(token.address, { ...token });
+      continue;
+    }
+    const balance = BigInt(existing.balance) + BigInt(token.balance);
+    existing.balance = balance.toString();
+    existing.formattedBalance = formatUnits(balance, existing.decimals);
+    existing.lastUpdatedAt = Math.min(existing.lastUpdatedAt, token.lastUpdatedAt);
+  }
+
+  return Array.from(combined.values());
+}
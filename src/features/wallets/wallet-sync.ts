@@ -0,0 +1,393 @@
+import {
+  db,
+  getSyncState,
+  setSyncState,
+  type NFTHolding,
+  type StoredToken,
+  type WatchedCollection,
+} from '@/lib/db';
+import {
+  BACKFILL_STATE_PREFIX,
+  CHECKPOINT_STATE_PREFIX,
+  GAP_STATE_PREFIX,
+  getCollectionStateKeys,
+} from '@/features/inventory/collection-store';
+
+// Wallets synced within this window are served from the local DB
+export const WALLET_SYNC_TTL_MS = 30 * 60 * 1000;
+
+export interface WalletSyncChanges {
+  collectionsAdded: number;
+  collectionsUpdated: number;
+  collectionsRemoved: number;
+  holdingsAdded: number;
+  holdingsUpdated: number;
+  holdingsRemoved: number;
+}
+
+export interface WalletSyncResult {
+  walletAddress: string;
+  changes: WalletSyncChanges;
+  totalNFTs: number;
+  totalTokens: number;
+  warning: string | null;
+  dataSource: string | null;
+  syncedAt: number;
+}
+
+interface ApiHolding {
+  tokenId: string;
+  amount?: string; // ERC-1155 balance as a decimal string
+  name?: string;
+  image?: string;
+}
+
+interface ApiCollection {
+  address: string;
+  name?: string;
+  symbol?: string;
+  type?: 'ERC721' | 'ERC1155';
+  holdings: ApiHolding[];
+}
+
+interface ApiToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  balance: string;
+  formattedBalance: string;
+}
+
+export function emptySyncChanges(): WalletSyncChanges {
+  return {
+    collectionsAdded: 0,
+    collectionsUpdated: 0,
+    collectionsRemoved: 0,
+    holdingsAdded: 0,
+    holdingsUpdated: 0,
+    holdingsRemoved: 0,
+  };
+}
+
+export function mergeSyncChanges(a: WalletSyncChanges, b: WalletSyncChanges): WalletSyncChanges {
+  return {
+    collectionsAdded: a.collectionsAdded + b.collectionsAdded,
+    collectionsUpdated: a.collectionsUpdated + b.collectionsUpdated,
+    collectionsRemoved: a.collectionsRemoved + b.collectionsRemoved,
+    holdingsAdded: a.holdingsAdded + b.holdingsAdded,
+    holdingsUpdated: a.holdingsUpdated + b.holdingsUpdated,
+    holdingsRemoved: a.holdingsRemoved + b.holdingsRemoved,
+  };
+}
+
+/**
+ * One-line summary for the UI, e.g. "3 NFTs added, 1 removed, 2 new collections"
+ */
+export function formatSyncChanges(changes: WalletSyncChanges): string {
+  const parts: string[] = [];
+  if (changes.holdingsAdded) parts.push(`${changes.holdingsAdded} NFTs added`);
+  if (changes.holdingsRemoved) parts.push(`${changes.holdingsRemoved} removed`);
+  if (changes.holdingsUpdated) parts.push(`${changes.holdingsUpdated} updated`);
+  if (changes.collectionsAdded) parts.push(`${changes.collectionsAdded} new collections`);
+  if (changes.collectionsRemoved) parts.push(`${changes.collectionsRemoved} collections gone`);
+  if (changes.collectionsUpdated) parts.push(`${changes.collectionsUpdated} collections updated`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+function syncKey(walletAddress: string): string {
+  return `wallet_sync_${walletAddress.toLowerCase()}`;
+}
+
+export async function getLastWalletSync(walletAddress: string): Promise<number | undefined> {
+  return getSyncState<number>(syncKey(walletAddress));
+}
+
+export async function isWalletSyncStale(walletAddress: string): Promise<boolean> {
+  const lastSync = await getLastWalletSync(walletAddress);
+  return !lastSync || lastSync < Date.now() - WALLET_SYNC_TTL_MS;
+}
+
+export async function clearWalletSync(walletAddress: string): Promise<void> {
+  await db.syncState.where('key').equals(syncKey(walletAddress)).delete();
+}
+
+/**
+ * Remove everything synced for one wallet; other wallets' rows are untouched
+ */
+export async function clearWalletData(walletAddress: string): Promise<void> {
+  const wallet = walletAddress.toLowerCase();
+  await db.transaction('rw', [db.collections, db.holdings, db.tokens, db.syncState], async () => {
+    await db.holdings.where('ownerAddress').equals(wallet).delete();
+    await db.collections.where('walletAddress').equals(wallet).delete();
+    await db.tokens.where('walletAddress').equals(wallet).delete();
+    await db.syncState
+      .where('key')
+      .startsWithAnyOf(
+        `${GAP_STATE_PREFIX}${wallet}_`,
+        `${BACKFILL_STATE_PREFIX}${wallet}_`,
+        `${CHECKPOINT_STATE_PREFIX}${wallet}_`
+      )
+      .delete();
+    await clearWalletSync(wallet);
+  });
+}
+
+/**
+ * Diff one collection's holdings against the API: new tokens are added, tokens the
+ * wallet no longer has are removed and name/image are refreshed. Row ids of
+ * unchanged holdings are kept, so views don't flicker.
+ */
+async function diffHoldings(
+  collectionAddress: string,
+  wallet: string,
+  apiHoldings: ApiHolding[],
+  now: number,
+  options: { addRemove: boolean; allowRemovals: boolean },
+  changes: WalletSyncChanges
+): Promise<void> {
+  const current = await db.holdings
+    .where('[collectionAddress+ownerAddress]')
+    .equals([collectionAddress, wallet])
+    .toArray();
+  const byToken = new Map(current.map((h) => [h.tokenId, h]));
+  const apiTokenIds = new Set<string>();
+  const toAdd: Omit<NFTHolding, 'id'>[] = [];
+
+  for (const nft of apiHoldings) {
+    apiTokenIds.add(nft.tokenId);
+    const amount = Number(nft.amount ?? 1) || 1;
+    const holding = byToken.get(nft.tokenId);
+    if (!holding) {
+      if (options.addRemove) {
+        toAdd.push({
+          collectionAddress,
+          tokenId: nft.tokenId,
+          ownerAddress: wallet,
+          amount,
+          image: nft.image,
+          name: nft.name,
+          lastUpdatedBlock: 0,
+          lastUpdatedAt: now,
+        });
+      }
+      continue;
+    }
+
+    const update: Partial<NFTHolding> = {};
+    if (options.addRemove && amount !== holding.amount) update.amount = amount;
+    if (nft.name && nft.name !== holding.name) update.name = nft.name;
+    if (nft.image && nft.image !== holding.image) update.image = nft.image;
+    if (Object.keys(update).length > 0) {
+      await db.holdings.update(holding.id!, { ...update, lastUpdatedAt: now });
+      changes.holdingsUpdated++;
+    }
+  }
+
+  if (toAdd.length > 0) {
+    await db.holdings.bulkAdd(toAdd);
+    changes.holdingsAdded += toAdd.length;
+  }
+
+  if (options.addRemove && options.allowRemovals) {
+    const gone = current.filter((h) => !apiTokenIds.has(h.tokenId)).map((h) => h.id!);
+    if (gone.length > 0) {
+      await db.holdings.bulkDelete(gone);
+      changes.holdingsRemoved += gone.length;
+    }
+  }
+}
+
+/**
+ * Apply an /api/nfts result to one wallet's collections and holdings.
+ *
+ * - Collections the user added keep their name (when set by the user), type and
+ *   addedAt; collections scanned on-chain (`lastSyncBlock`) keep their holdings
+ *   and only get name/image metadata from the API.
+ * - Synced collections the wallet no longer holds are removed; user-added ones
+ *   stay watched with no holdings.
+ * - Nothing is removed when the API reports incomplete data.
+ */
+async function applyNFTSync(
+  wallet: string,
+  apiCollections: ApiCollection[],
+  now: number,
+  allowRemovals: boolean
+): Promise<WalletSyncChanges> {
+  const changes = emptySyncChanges();
+  const existing = await db.collections.where('walletAddress').equals(wallet).toArray();
+
+  // Older syncs could leave a synced duplicate of a user-added collection; keep the user's row
+  const byAddress = new Map<string, WatchedCollection>();
+  for (const collection of existing) {
+    const key = collection.address.toLowerCase();
+    const other = byAddress.get(key);
+    if (!other) {
+      byAddress.set(key, collection);
+      continue;
+    }
+    const [keep, drop] = collection.source === 'manual' ? [collection, other] : [other, collection];
+    if (drop.address !== keep.address) {
+      await db.holdings.where('[collectionAddress+ownerAddress]').equals([drop.address, wallet]).delete();
+    }
+    await db.collections.delete(drop.id!);
+    byAddress.set(key, keep);
+  }
+
+  const seen = new Set<string>();
+  for (const apiCollection of apiCollections) {
+    const key = apiCollection.address.toLowerCase();
+    seen.add(key);
+
+    let collection = byAddress.get(key);
+    if (!collection) {
+      const row: Omit<WatchedCollection, 'id'> = {
+        address: key,
+        name: apiCollection.name || 'Unknown Collection',
+        symbol: apiCollection.symbol || '???',
+        type: apiCollection.type ?? 'ERC721',
+        walletAddress: wallet,
+        addedAt: now,
+        lastSyncAt: now,
+        source: 'sync',
+      };
+      const id = await db.collections.add(row);
+      collection = { ...row, id };
+      changes.collectionsAdded++;
+    } else {
+      const update: Partial<WatchedCollection> = { lastSyncAt: now };
+      if (!collection.customName && apiCollection.name && apiCollection.name !== collection.name) {
+        update.name = apiCollection.name;
+      }
+      if (apiCollection.symbol && apiCollection.symbol !== collection.symbol) {
+        update.symbol = apiCollection.symbol;
+      }
+      // Type detected on-chain for user-added collections wins over the API
+      if (collection.source !== 'manual' && apiCollection.type && apiCollection.type !== collection.type) {
+        update.type = apiCollection.type;
+      }
+      if (update.name !== undefined || update.symbol !== undefined || update.type !== undefined) {
+        changes.collectionsUpdated++;
+      }
+      await db.collections.update(collection.id!, update);
+    }
+
+    await diffHoldings(
+      collection.address,
+      wallet,
+      apiCollection.holdings,
+      now,
+      { addRemove: collection.lastSyncBlock === undefined, allowRemovals },
+      changes
+    );
+  }
+
+  if (!allowRemovals) return changes;
+
+  for (const collection of Array.from(byAddress.values())) {
+    if (seen.has(collection.address.toLowerCase())) continue;
+
+    if (collection.source === 'manual') {
+      if (collection.lastSyncBlock === undefined) {
+        changes.holdingsRemoved += await db.holdings
+          .where('[collectionAddress+ownerAddress]')
+          .equals([collection.address, wallet])
+          .delete();
+      }
+      await db.collections.update(collection.id!, { lastSyncAt: now });
+      continue;
+    }
+
+    changes.holdingsRemoved += await db.holdings
+      .where('[collectionAddress+ownerAddress]')
+      .equals([collection.address, wallet])
+      .delete();
+    await db.collections.delete(collection.id!);
+    await db.syncState.where('key').anyOf(getCollectionStateKeys(wallet, collection.address)).delete();
+    changes.collectionsRemoved++;
+  }
+
+  return changes;
+}
+
+/**
+ * Fetch a wallet's NFTs and ERC-20 balances and bring that wallet's rows up to date.
+ * Everything is fetched before anything is written, so a failed request leaves
+ * the previous data in place, and rows are scoped by wallet so several wallets
+ * can be synced side by side.
+ */
+export async function syncWallet(
+  walletAddress: string,
+  onProgress?: (message: string) => void
+): Promise<WalletSyncResult> {
+  const wallet = walletAddress.toLowerCase();
+
+  onProgress?.('Fetching NFTs...');
+  const nftResponse = await fetch(`/api/nfts?address=${wallet}`);
+  const nftData = await nftResponse.json();
+  if (!nftResponse.ok || !nftData.collections) {
+    throw new Error(nftData.error || 'API failed');
+  }
+
+  // Token balances are best effort: a failure keeps the previous balances
+  onProgress?.('Fetching token balances...');
+  let tokens: ApiToken[] | null = null;
+  let tokenWarning: string | null = null;
+  try {
+    const tokenResponse = await fetch(`/api/tokens?address=${wallet}`);
+    const tokenData = await tokenResponse.json();
+    if (!tokenResponse.ok) throw new Error(tokenData.error || 'Token API failed');
+    tokens = tokenData.tokens ?? [];
+    if (tokenData.incomplete) {
+      tokenWarning = 'Token balances may be incomplete — some transfer history could not be fetched.';
+    }
+  } catch (error) {
+    console.error('[Wallet Sync] Token fetch failed:', error);
+    tokenWarning = 'Token balances could not be refreshed.';
+  }
+
+  onProgress?.('Saving...');
+  const now = Date.now();
+
+  const changes = await db.transaction('rw', [db.collections, db.holdings, db.tokens, db.syncState], async () => {
+    const nftChanges = await applyNFTSync(wallet, nftData.collections, now, !nftData.incomplete);
+
+    if (tokens) {
+      await db.tokens.where('walletAddress').equals(wallet).delete();
+      await db.tokens.bulkAdd(
+        tokens.map((token): Omit<StoredToken, 'id'> => ({
+          address: token.address.toLowerCase(),
+          walletAddress: wallet,
+          name: token.name,
+          symbol: token.symbol,
+          decimals: token.decimals,
+          balance: token.balance,
+          formattedBalance: token.formattedBalance,
+          lastUpdatedAt: now,
+        }))
+      );
+    }
+
+    return nftChanges;
+  });
+
+  await setSyncState(syncKey(wallet), now);
+
+  // Build warning if data may be incomplete
+  let warning: string | null = tokenWarning;
+  if (nftData.incomplete) {
+    warning = 'NFT data may be incomplete — some transfer history could not be fetched. Nothing was removed.';
+  } else if (nftData.usedFallback) {
+    warning = 'Primary API was unavailable. Data loaded from fallback source and may be less complete.';
+  }
+
+  return {
+    walletAddress: wallet,
+    changes,
+    totalNFTs: nftData.totalNFTs ?? 0,
+    totalTokens: tokens?.length ?? 0,
+    warning,
+    dataSource: nftData.source || null,
+    syncedAt: now,
+  };
+}
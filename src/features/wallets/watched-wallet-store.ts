@@ -0,0 +1,84 @@
+import { db, type WatchedWallet } from '@/lib/db';
+import { getPlanLimits } from '@/lib/db/plan';
+import { isValidAddress } from '@/lib/utils';
+import { clearWalletData } from './wallet-sync';
+
+export interface WatchedWalletInput {
+  address: string;
+  label?: string;
+}
+
+export interface WatchedWalletStoreError {
+  code: 'INVALID_ADDRESS' | 'DUPLICATE' | 'LIMIT_REACHED' | 'NOT_FOUND';
+  message: string;
+}
+
+export function isWatchedWalletError(
+  result: WatchedWallet | WatchedWalletStoreError
+): result is WatchedWalletStoreError {
+  return 'code' in result;
+}
+
+/**
+ * Watch a wallet read-only. The connected wallet is always included in views,
+ * so watching it as well is rejected as a duplicate.
+ */
+export async function addWatchedWallet(
+  input: WatchedWalletInput,
+  connectedAddress?: string
+): Promise<WatchedWallet | WatchedWalletStoreError> {
+  if (!isValidAddress(input.address)) {
+    return { code: 'INVALID_ADDRESS', message: 'Invalid wallet address' };
+  }
+
+  const address = input.address.toLowerCase();
+  if (address === connectedAddress?.toLowerCase()) {
+    return { code: 'DUPLICATE', message: 'This is the connected wallet' };
+  }
+  const existing = await db.watchedWallets.where('address').equals(address).first();
+  if (existing) {
+    return { code: 'DUPLICATE', message: 'Wallet is already watched' };
+  }
+
+  const limits = getPlanLimits(connectedAddress);
+  if ((await db.watchedWallets.count()) >= limits.maxWatchedWallets) {
+    return {
+      code: 'LIMIT_REACHED',
+      message: `Maximum ${limits.maxWatchedWallets} watched wallets on your plan`,
+    };
+  }
+
+  const wallet: Omit<WatchedWallet, 'id'> = {
+    address,
+    label: input.label?.trim() || undefined,
+    addedAt: Date.now(),
+  };
+
+  const id = await db.watchedWallets.add(wallet);
+  return { ...wallet, id };
+}
+
+export async function updateWatchedWalletLabel(id: number, label: string): Promise<void> {
+  await db.watchedWallets.update(id, { label: label.trim() || undefined });
+}
+
+/**
+ * Stop watching a wallet and drop its synced collections, holdings and tokens,
+ * unless it is the connected wallet (whose data the connected views still use)
+ */
+export async function removeWatchedWallet(
+  id: number,
+  connectedAddress?: string
+): Promise<void | WatchedWalletStoreError> {
+  const wallet = await db.watchedWallets.get(id);
+  if (!wallet) return { code: 'NOT_FOUND', message: 'Wallet not found' };
+
+  await db.watchedWallets.delete(id);
+  if (wallet.address !== connectedAddress?.toLowerCase()) {
+    await clearWalletData(wallet.address);
+  }
+}
+
+export async function getWatchedWallets(): Promise<WatchedWallet[]> {
+  return db.watchedWallets.orderBy('addedAt').toArray();
+}
@@ -2,3 +2,7 @@ export * from './use-network-guard';
 export * from './use-wallet-sync';
 export * from './use-supporter-status';
 export * from './use-donation-prompt';
+export * from './use-batch-reconciler';
+export * from './use-resolved-recipient';
+export * from './use-address-labels';
+export * from './use-wallet-scope';
@@ -0,0 +1,14 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import { buildAddressLabels } from '@/features/address-book';
+
+/**
+ * Live lowercase address -> address-book label map, for showing labels in tables
+ */
+export function useAddressLabels(): Map<string, string> {
+  const entries = useLiveQuery(() => db.addressBook.toArray());
+  return useMemo(() => buildAddressLabels(entries ?? []), [entries]);
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { reconcileSubmittedItems, type ReconcileSummary } from '@/lib/batch-engine';
+
+const POLL_INTERVAL_MS = 15_000;
+
+/**
+ * Resolve batch transactions that were submitted before this page load.
+ * Polls until every one of them is mined or dropped.
+ */
+export function useBatchReconciler() {
+  const [summary, setSummary] = useState<ReconcileSummary | null>(null);
+
+  useEffect(() => {
+    const startedAt = Date.now();
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const run = async () => {
+      try {
+        const result = await reconcileSubmittedItems(startedAt);
+        if (cancelled) return;
+
+        setSummary(result);
+        if (result.stillPending > 0) {
+          timer = setTimeout(run, POLL_INTERVAL_MS);
+        }
+      } catch (e) {
+        console.error('[Batch Reconciler] Failed:', e);
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return summary;
+}
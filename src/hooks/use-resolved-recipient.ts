@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { resolveRecipient, type RecipientResolution } from '@/lib/names';
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Resolve a recipient input field (hex address or name) as the user types.
+ * `resolution` always matches the current input; it is null while a lookup is pending.
+ */
+export function useResolvedRecipient(input: string) {
+  const [resolution, setResolution] = useState<RecipientResolution | null>(null);
+  const trimmed = input.trim();
+
+  useEffect(() => {
+    if (!trimmed) {
+      setResolution(null);
+      return;
+    }
+
+    let cancelled = false;
+    setResolution(null);
+    const timer = setTimeout(async () => {
+      const result = await resolveRecipient(trimmed);
+      if (!cancelled) setResolution(result);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  const current = resolution?.input === trimmed ? resolution : null;
+  return {
+    resolution: current,
+    isResolving: !!trimmed && !current,
+  };
+}
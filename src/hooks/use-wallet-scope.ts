@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getSetting, setSetting } from '@/lib/db';
+import { truncateAddress } from '@/lib/utils';
+import { getWatchedWallets } from '@/features/wallets';
+import { useAddressLabels } from './use-address-labels';
+
+export interface WalletOption {
+  address: string; // Lowercase
+  label: string;
+  isConnected: boolean;
+}
+
+// 'all' or a lowercase wallet address; shared by inventory, dashboard and streams
+const WALLET_SCOPE_SETTING = 'walletScope';
+
+/**
+ * The connected wallet plus watched wallets, and which of them the current view
+ * covers: all of them combined, or a single wallet
+ */
+export function useWalletScope() {
+  const { address, isConnected } = useAccount();
+  const addressLabels = useAddressLabels();
+  const watched = useLiveQuery(() => getWatchedWallets());
+  const savedScope = useLiveQuery(() => getSetting<string>(WALLET_SCOPE_SETTING, 'all'));
+
+  const wallets = useMemo(() => {
+    const options: WalletOption[] = [];
+    const connected = isConnected && address ? address.toLowerCase() : null;
+    if (connected) {
+      options.push({
+        address: connected,
+        label: addressLabels.get(connected) ?? 'Connected wallet',
+        isConnected: true,
+      });
+    }
+    for (const wallet of watched ?? []) {
+      if (wallet.address === connected) continue;
+      options.push({
+        address: wallet.address,
+        label: wallet.label ?? addressLabels.get(wallet.address) ?? truncateAddress(wallet.address),
+        isConnected: false,
+      });
+    }
+    return options;
+  }, [address, isConnected, watched, addressLabels]);
+
+  // A saved wallet that is no longer available falls back to the combined view
+  const scope = wallets.some((w) => w.address === savedScope) ? savedScope! : 'all';
+  const addresses = useMemo(
+    () => (scope === 'all' ? wallets.map((w) => w.address) : [scope]),
+    [scope, wallets]
+  );
+
+  const setScope = useCallback((value: string) => setSetting(WALLET_SCOPE_SETTING, value), []);
+
+  return {
+    wallets,
+    scope,
+    setScope,
+    addresses,
+    isCombined: scope === 'all' && wallets.length > 1,
+    isLoaded: watched !== undefined && savedScope !== undefined,
+  };
+}
@@ -1,162 +1,174 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useAccount } from 'wagmi';
-import { type Address } from 'viem';
-import { db } from '@/lib/db';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { truncateAddress } from '@/lib/utils';
+import {
+  syncWallet,
+  clearWalletSync,
+  getLastWalletSync,
+  getWatchedWallets,
+  isWalletSyncStale,
+  emptySyncChanges,
+  mergeSyncChanges,
+  formatSyncChanges,
+  type WalletSyncChanges,
+} from '@/features/wallets';
+import { getCollectionsForWallet, syncCollection } from '@/features/inventory';
 
 export interface SyncStatus {
   isLoading: boolean;
   isSyncingNFTs: boolean;
+  syncingAddress: string | null;
   progress: string;
   lastSyncAt: number | null;
+  changes: WalletSyncChanges | null; // What the last sync run added, removed or updated
   error: string | null;
   warning: string | null;
   dataSource: string | null;
 }
 
+/**
+ * Keeps the connected wallet and every watched wallet synced into the local DB.
+ * Wallets are synced one at a time; each only replaces its own rows. Collections
+ * the user added are then scanned on-chain, which also resumes their backfill.
+ */
 export function useWalletSync() {
   const { address, isConnected } = useAccount();
+  const watched = useLiveQuery(() => getWatchedWallets());
   const [status, setStatus] = useState<SyncStatus>({
     isLoading: false,
     isSyncingNFTs: false,
+    syncingAddress: null,
     progress: '',
     lastSyncAt: null,
+    changes: null,
     error: null,
     warning: null,
     dataSource: null,
   });
+  const queueRef = useRef<string[]>([]);
+  const runningRef = useRef(false);
+
+  const connected = isConnected && address ? address.toLowerCase() : null;
+  // Stable key so the auto-sync effect only re-runs when the wallet set changes
+  const walletKey = watched
+    ? Array.from(new Set([connected, ...watched.map((w) => w.address)].filter(Boolean))).join(',')
+    : '';
+
+  const syncWallets = useCallback(async (wallets: string[]) => {
+    for (const wallet of wallets) {
+      if (!queueRef.current.includes(wallet)) queueRef.current.push(wallet);
+    }
+    if (runningRef.current) return;
+    runningRef.current = true;
 
-  const syncWallet = useCallback(async (walletAddress: Address) => {
     setStatus((prev) => ({
       ...prev,
       isLoading: true,
       isSyncingNFTs: true,
       error: null,
+      warning: null,
       progress: 'Fetching NFTs...',
     }));
 
-    try {
-      // Clear old holdings for this wallet
-      await db.holdings.where('ownerAddress').equals(walletAddress.toLowerCase()).delete();
-      await db.collections.where('walletAddress').equals(walletAddress.toLowerCase()).delete();
-
-      // Fetch NFTs from server API (uses Moralis)
-      console.log('[Wallet Sync] Fetching NFTs from API...');
-      const response = await fetch(`/api/nfts?address=${walletAddress}`);
-      const data = await response.json();
-
-      if (response.ok && data.collections) {
-        console.log('[Wallet Sync] API returned', data.totalNFTs, 'NFTs');
-
-        // Store collections and holdings
-        for (const collection of data.collections) {
-          await db.collections.add({
-            address: collection.address.toLowerCase(),
-            name: collection.name || 'Unknown Collection',
-            symbol: collection.symbol || '???',
-            type: 'ERC721',
-            walletAddress: walletAddress.toLowerCase(),
-            addedAt: Date.now(),
-          });
-
-          await db.holdings.bulkAdd(
-            collection.holdings.map((nft: { tokenId: string; name?: string; image?: string }) => ({
-              collectionAddress: collection.address.toLowerCase(),
-              tokenId: nft.tokenId,
-              ownerAddress: walletAddress.toLowerCase(),
-              amount: 1,
-              image: nft.image,
-              name: nft.name,
-              lastUpdatedBlock: 0,
-              lastUpdatedAt: Date.now(),
-            }))
-          );
+    const multiple = queueRef.current.length > 1;
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    let lastSyncAt: number | null = null;
+    let dataSource: string | null = null;
+    let changes: WalletSyncChanges | null = null;
+
+    while (queueRef.current.length > 0) {
+      const wallet = queueRef.current.shift()!;
+      const prefix = multiple ? `${truncateAddress(wallet)}: ` : '';
+      setStatus((prev) => ({ ...prev, syncingAddress: wallet }));
+
+      try {
+        const result = await syncWallet(wallet, (message) =>
+          setStatus((prev) => ({ ...prev, progress: prefix + message }))
+        );
+        if (result.warning) warnings.push(prefix + result.warning);
+        lastSyncAt = result.syncedAt;
+        changes = mergeSyncChanges(changes ?? emptySyncChanges(), result.changes);
+        dataSource = result.dataSource;
+
+        const added = (await getCollectionsForWallet(wallet)).filter((c) => c.source === 'manual');
+        for (const [i, collection] of added.entries()) {
+          setStatus((prev) => ({
+            ...prev,
+            progress: `${prefix}Scanning ${collection.name} (${i + 1}/${added.length})...`,
+          }));
+          const scan = await syncCollection(collection);
+          if (!scan.success) warnings.push(`${prefix}${collection.name} could not be scanned: ${scan.error}`);
         }
-
-        setStatus((prev) => ({ ...prev, progress: `Found ${data.totalNFTs} NFTs` }));
-      } else {
-        throw new Error(data.error || 'API failed');
+      } catch (error) {
+        console.error('Wallet sync error:', error);
+        errors.push(prefix + (error instanceof Error ? error.message : 'Sync failed'));
       }
-
-      // Build warning if data may be incomplete
-      let warning: string | null = null;
-      if (data.incomplete) {
-        warning = 'NFT data may be incomplete — some transfer history could not be fetched.';
-      } else if (data.usedFallback) {
-        warning = 'Primary API was unavailable. Data loaded from fallback source and may be less complete.';
-      }
-
-      const now = Date.now();
-      setStatus({
-        isLoading: false,
-        isSyncingNFTs: false,
-        progress: 'Sync complete!',
-        lastSyncAt: now,
-        error: null,
-        warning,
-        dataSource: data.source || null,
-      });
-
-      // Store last sync time
-      await db.syncState.put({
-        key: `wallet_sync_${walletAddress.toLowerCase()}`,
-        value: now,
-        updatedAt: now,
-      });
-
-    } catch (error) {
-      console.error('Wallet sync error:', error);
-      setStatus((prev) => ({
-        ...prev,
-        isLoading: false,
-        isSyncingNFTs: false,
-        error: error instanceof Error ? error.message : 'Sync failed',
-        warning: null,
-        dataSource: null,
-      }));
     }
+
+    runningRef.current = false;
+    setStatus((prev) => ({
+      isLoading: false,
+      isSyncingNFTs: false,
+      syncingAddress: null,
+      progress: changes ? `Sync complete — ${formatSyncChanges(changes)}` : prev.progress,
+      lastSyncAt: lastSyncAt ?? prev.lastSyncAt,
+      changes,
+      error: errors.length > 0 ? errors.join('\n') : null,
+      warning: warnings.length > 0 ? warnings.join('\n') : null,
+      dataSource,
+    }));
   }, []);
 
-  // Auto-sync when wallet connects
+  // Auto-sync wallets whose last sync is older than the TTL
   useEffect(() => {
-    if (isConnected && address) {
-      // Check if we've synced recently (within last 30 minutes)
-      db.syncState
-        .where('key')
-        .equals(`wallet_sync_${address.toLowerCase()}`)
-        .first()
-        .then((state) => {
-          const lastSync = state?.value as number | undefined;
-          const thirtyMinutesAgo = Date.now() - 30 * 60 * 1000;
-
-          if (!lastSync || lastSync < thirtyMinutesAgo) {
-            syncWallet(address);
-          } else {
-            setStatus((prev) => ({
-              ...prev,
-              lastSyncAt: lastSync,
-              progress: 'Using cached data',
-            }));
-          }
-        })
-        .catch((error) => {
-          console.error('Error checking sync state:', error);
-          syncWallet(address);
-        });
-    }
-  }, [isConnected, address, syncWallet]);
+    if (!walletKey) return;
+    const wallets = walletKey.split(',');
+    let cancelled = false;
+
+    Promise.all(wallets.map((wallet) => isWalletSyncStale(wallet)))
+      .then(async (stale) => {
+        if (cancelled) return;
+        const due = wallets.filter((_, i) => stale[i]);
+        if (due.length > 0) {
+          syncWallets(due);
+          return;
+        }
+        const lastSync = await getLastWalletSync(wallets[0]);
+        setStatus((prev) => ({
+          ...prev,
+          lastSyncAt: lastSync ?? null,
+          progress: 'Using cached data',
+        }));
+      })
+      .catch((error) => {
+        console.error('Error checking sync state:', error);
+        syncWallets(wallets);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [walletKey, syncWallets]);
 
+  // Force a fresh sync of every known wallet
   const refresh = useCallback(async () => {
-    if (address) {
-      // Clear sync cache to force fresh scan
-      await db.syncState.where('key').equals(`wallet_sync_${address.toLowerCase()}`).delete();
-      syncWallet(address);
-    }
-  }, [address, syncWallet]);
+    const wallets = walletKey.split(',').filter(Boolean);
+    await Promise.all(wallets.map((wallet) => clearWalletSync(wallet)));
+    syncWallets(wallets);
+  }, [walletKey, syncWallets]);
+
+  const refreshWallet = useCallback(async (wallet: string) => {
+    await clearWalletSync(wallet);
+    syncWallets([wallet.toLowerCase()]);
+  }, [syncWallets]);
 
   return {
     ...status,
     refresh,
+    refreshWallet,
   };
 }
@@ -1,7 +1,9 @@
 import { db, type Batch, type BatchItem } from '@/lib/db';
 
 /**
- * Create a new batch
+ * Create a new batch. A retry batch (`metadata.parentBatchId`) marks the parent
+ * items it takes over (`metadata.parentItemIndexes`) in the same transaction, so
+ * they can't be retried a second time.
  */
 export async function createBatch(
   type: Batch['type'],
@@ -23,7 +25,22 @@ export async function createBatch(
     metadata,
   };
 
-  const id = await db.batches.add(batch);
+  const parentBatchId = metadata?.parentBatchId;
+  const parentItemIndexes = metadata?.parentItemIndexes;
+
+  const id = await db.transaction('rw', db.batches, async () => {
+    const childId = await db.batches.add(batch);
+    if (typeof parentBatchId !== 'number' || !Array.isArray(parentItemIndexes)) return childId;
+
+    const parent = await db.batches.get(parentBatchId);
+    if (!parent) return childId;
+    const items = [...parent.items];
+    for (const index of parentItemIndexes as number[]) {
+      items[index] = { ...items[index], retriedInBatchId: childId };
+    }
+    await db.batches.update(parentBatchId, { items, updatedAt: Date.now() });
+    return childId;
+  });
   return { ...batch, id };
 }
 
@@ -49,15 +66,32 @@ export async function updateBatchItem(
   itemIndex: number,
   updates: Partial<BatchItem>
 ): Promise<void> {
-  const batch = await db.batches.get(batchId);
-  if (!batch) return;
+  await updateBatchItems(batchId, [itemIndex], updates);
+}
+
+/**
+ * Apply the same update to several batch items in one write. The read and the
+ * write share a transaction: pipelined sends and confirmations update items of
+ * the same batch concurrently and must not overwrite each other's changes.
+ */
+export async function updateBatchItems(
+  batchId: number,
+  itemIndexes: number[],
+  updates: Partial<BatchItem>
+): Promise<void> {
+  await db.transaction('rw', db.batches, async () => {
+    const batch = await db.batches.get(batchId);
+    if (!batch) return;
 
-  const items = [...batch.items];
-  items[itemIndex] = { ...items[itemIndex], ...updates };
+    const items = [...batch.items];
+    for (const index of itemIndexes) {
+      items[index] = { ...items[index], ...updates };
+    }
 
-  await db.batches.update(batchId, {
-    items,
-    updatedAt: Date.now(),
+    await db.batches.update(batchId, {
+      items,
+      updatedAt: Date.now(),
+    });
   });
 }
 
@@ -127,6 +161,7 @@ export function getBatchStats(batch: Batch): {
       case 'pending':
       case 'simulating':
       case 'executing':
+      case 'submitted':
         stats.pending++;
         break;
       case 'success':
@@ -143,3 +178,34 @@ export function getBatchStats(batch: Batch): {
 
   return stats;
 }
+
+/**
+ * Total gas and fees (in wei) paid by a batch's settled items
+ */
+export function getBatchGasTotals(batch: Batch): { gasUsed: bigint; feePaid: bigint } {
+  let gasUsed = 0n;
+  let feePaid = 0n;
+
+  for (const item of batch.items) {
+    if (item.gasUsed) gasUsed += BigInt(item.gasUsed);
+    if (item.feePaid) feePaid += BigInt(item.feePaid);
+  }
+
+  return { gasUsed, feePaid };
+}
+
+/**
+ * Wall-clock run time of a batch in ms, from creation until it finished (or until now)
+ */
+export function getBatchDuration(batch: Batch, now: number = Date.now()): number {
+  return (batch.completedAt ?? (batch.status === 'executing' ? now : batch.updatedAt)) - batch.createdAt;
+}
+
+/**
+ * Get batches created to retry items of the given batch
+ */
+export async function getChildBatches(parentBatchId: number): Promise<Batch[]> {
+  return db.batches
+    .filter((b) => b.metadata?.parentBatchId === parentBatchId)
+    .toArray();
+}
@@ -1,29 +1,280 @@
 import {
   type Address,
+  type Hex,
   type WalletClient,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  encodeFunctionData,
   parseEther,
   formatEther,
 } from 'viem';
 import { getPublicClient, monadMainnet } from '@/lib/chain';
-import { ERC20_ABI } from '@/lib/chain/abis';
+import { ERC20_ABI, DISPERSE_ABI } from '@/lib/chain/abis';
+import { DISPERSE_ADDRESS } from '@/lib/contracts';
 import {
   type DisperseItem,
   type DisperseERC20Metadata,
+  type DisperseExecutionOptions,
   type PreflightResult,
   type PreflightItemResult,
   type BatchExecutionCallbacks,
+  type TxOverrides,
 } from './types';
-import { createBatch, updateBatchStatus, updateBatchItem, getBatch } from './batch-store';
-import { isValidAddress } from '@/lib/utils';
+import { createBatch } from './batch-store';
+import { getPreflightGasPrice, serializeFeeOptions } from './fees';
+import {
+  runBatch,
+  executeSequential,
+  executeChunks,
+  executePipelined,
+  resolveMaxInFlight,
+} from './execution-runner';
+import { isValidAddress, chunk } from '@/lib/utils';
 
 const publicClient = getPublicClient();
 
+// Must stay in sync with Disperse.MAX_BATCH_SIZE
+export const DISPERSE_MAX_CHUNK_SIZE = 200;
+export const DEFAULT_DISPERSE_CHUNK_SIZE = 100;
+
+// Preflight simulations run this many items at a time
+const SIMULATION_CONCURRENCY = 10;
+
+interface SimulationRequest {
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+}
+
+type SimulationResult = { ok: true; gas: bigint } | { ok: false; error: string };
+
+/**
+ * Resolve the Disperse contract address, failing loudly if it isn't deployed
+ */
+export function getDisperseAddress(): Address {
+  if (!DISPERSE_ADDRESS) {
+    throw new Error('Disperse contract is not deployed. Use sequential mode instead.');
+  }
+  return DISPERSE_ADDRESS;
+}
+
+/**
+ * Clamp a requested chunk size to what the contract accepts
+ */
+export function resolveDisperseChunkSize(chunkSize?: number): number {
+  if (!chunkSize || chunkSize < 1) return DEFAULT_DISPERSE_CHUNK_SIZE;
+  return Math.min(Math.floor(chunkSize), DISPERSE_MAX_CHUNK_SIZE);
+}
+
+/**
+ * Send a single MON transfer
+ */
+export function sendMonTransfer(
+  walletClient: WalletClient,
+  signerAddress: string,
+  item: DisperseItem,
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  return walletClient.sendTransaction({
+    to: item.to as Address,
+    value: BigInt(item.amount),
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
+
+/**
+ * Send a single ERC-20 transfer
+ */
+export function sendTokenTransfer(
+  walletClient: WalletClient,
+  signerAddress: string,
+  tokenAddress: string,
+  item: DisperseItem,
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  return walletClient.writeContract({
+    address: tokenAddress as Address,
+    abi: ERC20_ABI,
+    functionName: 'transfer',
+    args: [item.to as Address, BigInt(item.amount)],
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
+
+/**
+ * Send one chunk of MON transfers through Disperse.disperseEther
+ */
+export function sendDisperseEtherChunk(
+  walletClient: WalletClient,
+  signerAddress: string,
+  chunkItems: DisperseItem[],
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  return walletClient.writeContract({
+    address: getDisperseAddress(),
+    abi: DISPERSE_ABI,
+    functionName: 'disperseEther',
+    args: [
+      chunkItems.map((item) => item.to as Address),
+      chunkItems.map((item) => BigInt(item.amount)),
+    ],
+    value: chunkItems.reduce((sum, item) => sum + BigInt(item.amount), 0n),
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
+
+/**
+ * Send one chunk of ERC-20 transfers through Disperse.disperseToken
+ */
+export function sendDisperseTokenChunk(
+  walletClient: WalletClient,
+  signerAddress: string,
+  tokenAddress: string,
+  chunkItems: DisperseItem[],
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  return walletClient.writeContract({
+    address: getDisperseAddress(),
+    abi: DISPERSE_ABI,
+    functionName: 'disperseToken',
+    args: [
+      tokenAddress as Address,
+      chunkItems.map((item) => item.to as Address),
+      chunkItems.map((item) => BigInt(item.amount)),
+    ],
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
+
+/**
+ * Approve the Disperse contract for the batch total if the current allowance is short.
+ * One approval covers every chunk.
+ */
+export async function ensureDisperseAllowance(
+  walletClient: WalletClient,
+  signerAddress: string,
+  tokenAddress: string,
+  items: DisperseItem[]
+): Promise<void> {
+  const disperseAddress = getDisperseAddress();
+  const totalAmount = items.reduce((sum, item) => sum + BigInt(item.amount), 0n);
+
+  const allowance = await publicClient.readContract({
+    address: tokenAddress as Address,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [signerAddress as Address, disperseAddress],
+  });
+  if (allowance >= totalAmount) return;
+
+  const approveHash = await walletClient.writeContract({
+    address: tokenAddress as Address,
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [disperseAddress, totalAmount],
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+  await publicClient.waitForTransactionReceipt({ hash: approveHash });
+}
+
+/**
+ * Pull the most useful reason out of a failed eth_call / estimateGas
+ */
+function getRevertReason(e: unknown): string {
+  if (!(e instanceof BaseError)) {
+    return e instanceof Error ? e.message : 'Simulation failed';
+  }
+
+  const reverted = e.walk((err) => err instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.reason) {
+    return reverted.reason;
+  }
+
+  // Raw calls only carry the revert data; decode Error(string) / Panic(uint256)
+  const withData = e.walk((err) => typeof (err as { data?: unknown }).data === 'string');
+  const data = (withData as { data?: unknown } | null)?.data;
+  if (typeof data === 'string' && data.startsWith('0x') && data.length > 2) {
+    try {
+      const decoded = decodeErrorResult({ abi: [], data: data as Hex });
+      return decoded.args?.length ? String(decoded.args[0]) : decoded.errorName;
+    } catch {
+      // Custom error we have no ABI for
+    }
+  }
+
+  return e.shortMessage;
+}
+
+/**
+ * Simulate one transfer from the signer, then estimate its gas.
+ * Each item is its own eth_call: multicall would make Multicall3 the
+ * msg.sender, which hides allowance, blocklist and balance failures.
+ */
+async function simulateTransfer(
+  signerAddress: string,
+  request: SimulationRequest
+): Promise<SimulationResult> {
+  const account = signerAddress as Address;
+  try {
+    await publicClient.call({ account, ...request });
+    const gas = await publicClient.estimateGas({ account, ...request });
+    return { ok: true, gas };
+  } catch (e) {
+    return { ok: false, error: getRevertReason(e) };
+  }
+}
+
+/**
+ * Simulate the valid items of a batch and record revert reasons and real gas
+ * on their results. Returns the summed gas of items that simulated cleanly.
+ */
+async function simulatePreflightItems(
+  signerAddress: string,
+  itemResults: PreflightItemResult[],
+  errors: { index: number; message: string }[],
+  buildRequest: (index: number) => SimulationRequest
+): Promise<bigint> {
+  const candidates = itemResults.filter((r) => r.valid);
+  let totalGas = 0n;
+
+  for (const group of chunk(candidates, SIMULATION_CONCURRENCY)) {
+    const simulations = await Promise.all(
+      group.map((r) => simulateTransfer(signerAddress, buildRequest(r.index)))
+    );
+
+    simulations.forEach((simulation, i) => {
+      const result = group[i];
+      if (simulation.ok) {
+        result.estimatedGas = simulation.gas;
+        totalGas += simulation.gas;
+      } else {
+        result.valid = false;
+        result.error = simulation.error;
+        errors.push({ index: result.index, message: `Simulation failed: ${simulation.error}` });
+      }
+    });
+  }
+
+  return totalGas;
+}
+
 /**
  * Validate and run preflight checks for MON disperse
  */
 export async function preflightDisperseMon(
   items: DisperseItem[],
-  signerAddress: string
+  signerAddress: string,
+  options?: DisperseExecutionOptions
 ): Promise<PreflightResult> {
   const errors: { index: number; message: string }[] = [];
   const itemResults: PreflightItemResult[] = [];
@@ -47,7 +298,6 @@ export async function preflightDisperseMon(
           errors.push({ index: i, message: result.error });
         } else {
           totalAmount += amount;
-          result.estimatedGas = 21000n; // Basic transfer gas
         }
       } catch {
         result.valid = false;
@@ -59,10 +309,15 @@ export async function preflightDisperseMon(
     itemResults.push(result);
   }
 
+  // Contract recipients can reject MON, so every transfer is simulated
+  const estimatedGas = await simulatePreflightItems(signerAddress, itemResults, errors, (i) => ({
+    to: items[i].to as Address,
+    value: BigInt(items[i].amount),
+  }));
+
   // Check signer balance
   const balance = await publicClient.getBalance({ address: signerAddress as Address });
-  const gasPrice = await publicClient.getGasPrice();
-  const estimatedGas = BigInt(items.length) * 21000n;
+  const gasPrice = await getPreflightGasPrice(options?.fees); // Worst case under the fee strategy
   const estimatedGasCost = estimatedGas * gasPrice;
   const estimatedTotal = totalAmount + estimatedGasCost;
 
@@ -83,71 +338,85 @@ export async function preflightDisperseMon(
 }
 
 /**
- * Execute MON disperse batch
+ * Execution settings persisted on the batch so a resume uses the same mode and fees
+ */
+function getExecutionMetadata(
+  options?: DisperseExecutionOptions
+): Record<string, unknown> | undefined {
+  const shared = {
+    ...(options?.fees ? { fees: serializeFeeOptions(options.fees) } : {}),
+    ...(options?.parentBatchId !== undefined
+      ? { parentBatchId: options.parentBatchId, parentItemIndexes: options.parentItemIndexes }
+      : {}),
+  };
+
+  switch (options?.mode) {
+    case 'contract':
+      return { mode: 'contract', chunkSize: resolveDisperseChunkSize(options.chunkSize), ...shared };
+    case 'pipelined':
+      return { mode: 'pipelined', maxInFlight: resolveMaxInFlight(options.maxInFlight), ...shared };
+    default:
+      return Object.keys(shared).length > 0 ? shared : undefined;
+  }
+}
+
+/**
+ * Execute MON disperse batch (one tx per item, pipelined, or chunked through Disperse.sol)
  */
 export async function executeDisperseMon(
   items: DisperseItem[],
   signerAddress: string,
   walletClient: WalletClient,
-  callbacks?: BatchExecutionCallbacks
+  callbacks?: BatchExecutionCallbacks,
+  options?: DisperseExecutionOptions
 ): Promise<number> {
+  const mode = options?.mode ?? 'sequential';
+  const chunkSize = resolveDisperseChunkSize(options?.chunkSize);
+
   const batch = await createBatch(
     'DISPERSE_MON',
     signerAddress,
-    items.map((item) => ({ data: item as unknown as Record<string, unknown> }))
+    items.map((item) => ({ data: item as unknown as Record<string, unknown> })),
+    getExecutionMetadata(options)
   );
 
-  await updateBatchStatus(batch.id!, 'executing');
-
-  try {
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-
-      const currentBatch = await getBatch(batch.id!);
-      if (currentBatch?.status === 'paused') {
-        callbacks?.onBatchFailed?.('Batch paused');
-        return batch.id!;
+  const entries = items.map((item, index) => ({ item, index }));
+
+  await runBatch(
+    batch.id!,
+    () => {
+      switch (mode) {
+        case 'contract':
+          return executeChunks(
+            batch.id!,
+            chunk(entries, chunkSize),
+            (chunkItems, overrides) =>
+              sendDisperseEtherChunk(walletClient, signerAddress, chunkItems, overrides),
+            callbacks
+          );
+        case 'pipelined':
+          return executePipelined(
+            batch.id!,
+            entries,
+            {
+              signerAddress,
+              walletClient,
+              sendItem: (item, overrides) => sendMonTransfer(walletClient, signerAddress, item, overrides),
+              maxInFlight: options?.maxInFlight,
+            },
+            callbacks
+          );
+        default:
+          return executeSequential(
+            batch.id!,
+            entries,
+            (item, overrides) => sendMonTransfer(walletClient, signerAddress, item, overrides),
+            callbacks
+          );
       }
-
-      callbacks?.onItemStart?.(i);
-      await updateBatchItem(batch.id!, i, { status: 'executing' });
-
-      try {
-        const txHash = await walletClient.sendTransaction({
-          to: item.to as Address,
-          value: BigInt(item.amount),
-          chain: monadMainnet,
-          account: signerAddress as Address,
-        });
-
-        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-        await updateBatchItem(batch.id!, i, {
-          status: 'success',
-          txHash,
-          gasUsed: receipt.gasUsed.toString(),
-          completedAt: Date.now(),
-        });
-
-        callbacks?.onItemComplete?.(i, txHash, receipt.gasUsed.toString());
-      } catch (e) {
-        const error = e instanceof Error ? e.message : 'Unknown error';
-        await updateBatchItem(batch.id!, i, {
-          status: 'failed',
-          error,
-          completedAt: Date.now(),
-        });
-        callbacks?.onItemFailed?.(i, error);
-      }
-    }
-
-    await updateBatchStatus(batch.id!, 'completed');
-    callbacks?.onBatchComplete?.();
-  } catch (e) {
-    const error = e instanceof Error ? e.message : 'Unknown error';
-    await updateBatchStatus(batch.id!, 'failed');
-    callbacks?.onBatchFailed?.(error);
-  }
+    },
+    callbacks
+  );
 
   return batch.id!;
 }
@@ -158,7 +427,8 @@ export async function executeDisperseMon(
 export async function preflightDisperseERC20(
   items: DisperseItem[],
   signerAddress: string,
-  tokenAddress: string
+  tokenAddress: string,
+  options?: DisperseExecutionOptions
 ): Promise<PreflightResult & { tokenMetadata: DisperseERC20Metadata }> {
   const errors: { index: number; message: string }[] = [];
   const itemResults: PreflightItemResult[] = [];
@@ -209,7 +479,6 @@ export async function preflightDisperseERC20(
           errors.push({ index: i, message: result.error });
         } else {
           totalAmount += amount;
-          result.estimatedGas = 65000n; // ERC-20 transfer gas estimate
         }
       } catch {
         result.valid = false;
@@ -236,9 +505,18 @@ export async function preflightDisperseERC20(
     });
   }
 
+  // Catches paused tokens, blocklisted recipients and transfer hooks that revert
+  const estimatedGas = await simulatePreflightItems(signerAddress, itemResults, errors, (i) => ({
+    to: tokenAddress as Address,
+    data: encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: 'transfer',
+      args: [items[i].to as Address, BigInt(items[i].amount)],
+    }),
+  }));
+
   // Estimate gas cost
-  const gasPrice = await publicClient.getGasPrice();
-  const estimatedGas = BigInt(items.length) * 65000n;
+  const gasPrice = await getPreflightGasPrice(options?.fees);
   const estimatedGasCost = estimatedGas * gasPrice;
 
   return {
@@ -252,15 +530,19 @@ export async function preflightDisperseERC20(
 }
 
 /**
- * Execute ERC-20 disperse batch
+ * Execute ERC-20 disperse batch (one tx per item, pipelined, or chunked through Disperse.sol)
  */
 export async function executeDisperseERC20(
   items: DisperseItem[],
   signerAddress: string,
   tokenAddress: string,
   walletClient: WalletClient,
-  callbacks?: BatchExecutionCallbacks
+  callbacks?: BatchExecutionCallbacks,
+  options?: DisperseExecutionOptions
 ): Promise<number> {
+  const mode = options?.mode ?? 'sequential';
+  const chunkSize = resolveDisperseChunkSize(options?.chunkSize);
+
   // Fetch token metadata for batch record
   const [symbol, decimals] = await Promise.all([
     publicClient.readContract({
@@ -279,62 +561,54 @@ export async function executeDisperseERC20(
     'DISPERSE_ERC20',
     signerAddress,
     items.map((item) => ({ data: item as unknown as Record<string, unknown> })),
-    { tokenAddress, tokenSymbol: symbol, tokenDecimals: decimals }
+    {
+      tokenAddress,
+      tokenSymbol: symbol,
+      tokenDecimals: decimals,
+      ...getExecutionMetadata(options),
+    }
   );
 
-  await updateBatchStatus(batch.id!, 'executing');
-
-  try {
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-
-      const currentBatch = await getBatch(batch.id!);
-      if (currentBatch?.status === 'paused') {
-        callbacks?.onBatchFailed?.('Batch paused');
-        return batch.id!;
+  const entries = items.map((item, index) => ({ item, index }));
+
+  await runBatch(
+    batch.id!,
+    async () => {
+      if (mode === 'pipelined') {
+        return executePipelined(
+          batch.id!,
+          entries,
+          {
+            signerAddress,
+            walletClient,
+            sendItem: (item, overrides) =>
+              sendTokenTransfer(walletClient, signerAddress, tokenAddress, item, overrides),
+            maxInFlight: options?.maxInFlight,
+          },
+          callbacks
+        );
       }
 
-      callbacks?.onItemStart?.(i);
-      await updateBatchItem(batch.id!, i, { status: 'executing' });
-
-      try {
-        const txHash = await walletClient.writeContract({
-          address: tokenAddress as Address,
-          abi: ERC20_ABI,
-          functionName: 'transfer',
-          args: [item.to as Address, BigInt(item.amount)],
-          chain: monadMainnet,
-          account: signerAddress as Address,
-        });
-
-        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-        await updateBatchItem(batch.id!, i, {
-          status: 'success',
-          txHash,
-          gasUsed: receipt.gasUsed.toString(),
-          completedAt: Date.now(),
-        });
-
-        callbacks?.onItemComplete?.(i, txHash, receipt.gasUsed.toString());
-      } catch (e) {
-        const error = e instanceof Error ? e.message : 'Unknown error';
-        await updateBatchItem(batch.id!, i, {
-          status: 'failed',
-          error,
-          completedAt: Date.now(),
-        });
-        callbacks?.onItemFailed?.(i, error);
+      if (mode !== 'contract') {
+        return executeSequential(
+          batch.id!,
+          entries,
+          (item, overrides) => sendTokenTransfer(walletClient, signerAddress, tokenAddress, item, overrides),
+          callbacks
+        );
       }
-    }
 
-    await updateBatchStatus(batch.id!, 'completed');
-    callbacks?.onBatchComplete?.();
-  } catch (e) {
-    const error = e instanceof Error ? e.message : 'Unknown error';
-    await updateBatchStatus(batch.id!, 'failed');
-    callbacks?.onBatchFailed?.(error);
-  }
+      await ensureDisperseAllowance(walletClient, signerAddress, tokenAddress, items);
+      return executeChunks(
+        batch.id!,
+        chunk(entries, chunkSize),
+        (chunkItems, overrides) =>
+          sendDisperseTokenChunk(walletClient, signerAddress, tokenAddress, chunkItems, overrides),
+        callbacks
+      );
+    },
+    callbacks
+  );
 
   return batch.id!;
 }
@@ -0,0 +1,562 @@
+import {
+  type Address,
+  type WalletClient,
+  type TransactionReceipt,
+  type ReplacementReturnType,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem';
+import { getPublicClient, monadMainnet } from '@/lib/chain';
+import { type BatchItem, type BatchExecutionCallbacks, type TxOverrides } from './types';
+import { updateBatchStatus, updateBatchItem, updateBatchItems, getBatch } from './batch-store';
+import { checkFees, parseFeeOptions, getFeePaid, type FeeCheck } from './fees';
+import { getItemTxHashes, getReplacementUpdate } from './replacement';
+
+const publicClient = getPublicClient();
+
+export const DEFAULT_MAX_IN_FLIGHT = 5;
+export const MAX_IN_FLIGHT_LIMIT = 25;
+
+// How long a pipelined tx may stay unmined before we check whether it was dropped
+const PIPELINE_CONFIRM_TIMEOUT_MS = 60_000;
+
+export interface ChunkEntry<T> {
+  index: number; // Position of the item in the batch
+  item: T;
+}
+
+/**
+ * Split a chunk's gas across its items so per-item gasUsed still sums to the real total
+ */
+export function splitGasUsed(gasUsed: bigint, count: number): string[] {
+  const share = gasUsed / BigInt(count);
+  const remainder = gasUsed - share * BigInt(count);
+  return Array.from({ length: count }, (_, i) => (i === 0 ? share + remainder : share).toString());
+}
+
+/**
+ * Gate the next send on the batch's pause state and gas ceiling.
+ * Crossing the ceiling pauses the batch; otherwise returns the fee overrides to send with.
+ */
+async function prepareSend(batchId: number): Promise<FeeCheck> {
+  const currentBatch = await getBatch(batchId);
+  if (currentBatch?.status === 'paused') {
+    return { paused: true, reason: 'Batch paused' };
+  }
+
+  const check = await checkFees(parseFeeOptions(currentBatch?.metadata));
+  if (check.paused) {
+    await updateBatchStatus(batchId, 'paused');
+  }
+  return check;
+}
+
+/**
+ * Next nonce of the batch signer. Sends set it explicitly so each item records the
+ * nonce it used, and a resume can tell whether a dropped tx can still be mined.
+ */
+async function getPendingNonce(batchId: number): Promise<number> {
+  const batch = await getBatch(batchId);
+  if (!batch) throw new Error('Batch not found');
+  return publicClient.getTransactionCount({
+    address: batch.signerAddress as Address,
+    blockTag: 'pending',
+  });
+}
+
+/**
+ * Wait for a sent tx, following speed-ups and cancels made from the UI or the wallet.
+ * `update` points the item at the mined hash; it carries a final status when the
+ * replacement means the item was not delivered (cancelled or nonce reused).
+ */
+async function waitForItemReceipt(
+  batchId: number,
+  index: number, // Any item of the tx; chunk items share their replacement record
+  hash: `0x${string}`,
+  timeout?: number
+): Promise<{ receipt: TransactionReceipt; update: Partial<BatchItem> }> {
+  let replacement: ReplacementReturnType | undefined;
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash,
+    timeout,
+    onReplaced: (r) => {
+      replacement = r;
+    },
+  });
+  if (!replacement) return { receipt, update: {} };
+
+  const batch = await getBatch(batchId);
+  return { receipt, update: getReplacementUpdate(batch?.items[index], replacement) };
+}
+
+/**
+ * Run a batch body and settle the batch status from its outcome.
+ * The body returns false when it stopped early because the batch was paused.
+ */
+export async function runBatch(
+  batchId: number,
+  body: () => Promise<boolean>,
+  callbacks?: BatchExecutionCallbacks
+): Promise<void> {
+  await updateBatchStatus(batchId, 'executing');
+
+  try {
+    const finished = await body();
+    if (!finished) return;
+
+    await updateBatchStatus(batchId, 'completed');
+    callbacks?.onBatchComplete?.();
+  } catch (e) {
+    const error = e instanceof Error ? e.message : 'Unknown error';
+    await updateBatchStatus(batchId, 'failed');
+    callbacks?.onBatchFailed?.(error);
+  }
+}
+
+/**
+ * Send batch items one transaction at a time.
+ * Returns false if the batch was paused before all items were sent.
+ */
+export async function executeSequential<T>(
+  batchId: number,
+  entries: ChunkEntry<T>[],
+  sendItem: (item: T, overrides: TxOverrides) => Promise<`0x${string}`>,
+  callbacks?: BatchExecutionCallbacks
+): Promise<boolean> {
+  for (const { index, item } of entries) {
+    // Check if batch was paused, or base fee is above the ceiling
+    const check = await prepareSend(batchId);
+    if (check.paused) {
+      callbacks?.onBatchFailed?.(check.reason);
+      return false;
+    }
+
+    callbacks?.onItemStart?.(index);
+    await updateBatchItem(batchId, index, { status: 'executing' });
+
+    let txHash: `0x${string}` | undefined;
+    try {
+      const nonce = await getPendingNonce(batchId);
+      txHash = await sendItem(item, { ...check.overrides, nonce });
+
+      // Persist the hash before waiting so a reload can't lose it
+      await updateBatchItem(batchId, index, {
+        status: 'submitted',
+        txHash,
+        nonce,
+        submittedAt: Date.now(),
+      });
+      callbacks?.onItemSubmitted?.(index, txHash);
+
+      const { receipt, update } = await waitForItemReceipt(batchId, index, txHash);
+      if (update.status) {
+        await updateBatchItem(batchId, index, update);
+        callbacks?.onItemFailed?.(index, update.error!);
+        continue;
+      }
+
+      txHash = receipt.transactionHash;
+      if (receipt.status === 'reverted') {
+        throw new Error('Transaction reverted');
+      }
+
+      await updateBatchItem(batchId, index, {
+        ...update,
+        status: 'success',
+        txHash,
+        gasUsed: receipt.gasUsed.toString(),
+        ...getFeePaid(receipt),
+        completedAt: Date.now(),
+      });
+
+      callbacks?.onItemComplete?.(index, txHash, receipt.gasUsed.toString());
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      // Keep the hash: a receipt timeout doesn't mean the tx wasn't mined
+      await updateBatchItem(batchId, index, {
+        status: 'failed',
+        txHash,
+        error,
+        completedAt: Date.now(),
+      });
+      callbacks?.onItemFailed?.(index, error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Send pre-grouped chunks of batch items, one transaction per chunk.
+ * Every item in a chunk shares the chunk's txHash and chunkIndex.
+ * Returns false if the batch was paused before all chunks were sent.
+ */
+export async function executeChunks<T>(
+  batchId: number,
+  chunks: ChunkEntry<T>[][],
+  sendChunk: (chunkItems: T[], overrides: TxOverrides) => Promise<`0x${string}`>,
+  callbacks?: BatchExecutionCallbacks,
+  firstChunkIndex = 0 // Resumed batches continue numbering after existing chunks
+): Promise<boolean> {
+  for (let c = 0; c < chunks.length; c++) {
+    const indexes = chunks[c].map((entry) => entry.index);
+    const chunkIndex = firstChunkIndex + c;
+
+    const check = await prepareSend(batchId);
+    if (check.paused) {
+      callbacks?.onBatchFailed?.(check.reason);
+      return false;
+    }
+
+    indexes.forEach((i) => callbacks?.onItemStart?.(i));
+    await updateBatchItems(batchId, indexes, { status: 'executing', chunkIndex });
+
+    let txHash: `0x${string}` | undefined;
+    try {
+      const nonce = await getPendingNonce(batchId);
+      txHash = await sendChunk(chunks[c].map((entry) => entry.item), { ...check.overrides, nonce });
+
+      // Persist the hash before waiting so a reload can't lose it
+      await updateBatchItems(batchId, indexes, {
+        status: 'submitted',
+        txHash,
+        nonce,
+        submittedAt: Date.now(),
+      });
+      indexes.forEach((i) => callbacks?.onItemSubmitted?.(i, txHash!));
+
+      const { receipt, update } = await waitForItemReceipt(batchId, indexes[0], txHash);
+      if (update.status) {
+        await updateBatchItems(batchId, indexes, update);
+        indexes.forEach((i) => callbacks?.onItemFailed?.(i, update.error!));
+        continue;
+      }
+
+      txHash = receipt.transactionHash;
+      if (receipt.status === 'reverted') {
+        throw new Error('Batch transaction reverted');
+      }
+
+      const gasShares = splitGasUsed(receipt.gasUsed, indexes.length);
+      const completedAt = Date.now();
+      for (let j = 0; j < indexes.length; j++) {
+        await updateBatchItem(batchId, indexes[j], {
+          ...update,
+          status: 'success',
+          txHash,
+          gasUsed: gasShares[j],
+          ...getFeePaid(receipt, gasShares[j]),
+          completedAt,
+        });
+        callbacks?.onItemComplete?.(indexes[j], txHash, gasShares[j]);
+      }
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      await updateBatchItems(batchId, indexes, {
+        status: 'failed',
+        txHash,
+        error,
+        completedAt: Date.now(),
+      });
+      indexes.forEach((i) => callbacks?.onItemFailed?.(i, error));
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Re-send a dropped tx at the nonce it was recorded with, so the original and the
+ * re-send can't both be mined. `indexes` are the items the tx carried (one, or a chunk).
+ * Items are left `submitted` if neither tx is mined in time; a later reconcile settles them.
+ * Returns false if the batch was paused before sending.
+ */
+export async function resendAtNonce(
+  batchId: number,
+  indexes: number[],
+  nonce: number,
+  send: (overrides: TxOverrides) => Promise<`0x${string}`>,
+  callbacks?: BatchExecutionCallbacks
+): Promise<boolean> {
+  const check = await prepareSend(batchId);
+  if (check.paused) {
+    callbacks?.onBatchFailed?.(check.reason);
+    return false;
+  }
+
+  const previous = (await getBatch(batchId))?.items[indexes[0]];
+  const previousHashes = previous ? getItemTxHashes(previous) : [];
+
+  indexes.forEach((i) => callbacks?.onItemStart?.(i));
+  let txHash: `0x${string}`;
+  try {
+    txHash = await send({ ...check.overrides, nonce });
+  } catch (e) {
+    // Keep the old hash: it may still be mined, and a retry checks it first
+    const error = e instanceof Error ? e.message : 'Unknown error';
+    await updateBatchItems(batchId, indexes, { status: 'failed', error, completedAt: Date.now() });
+    indexes.forEach((i) => callbacks?.onItemFailed?.(i, error));
+    return true;
+  }
+
+  // The dropped hash stays on record in case it is the one that gets mined
+  await updateBatchItems(batchId, indexes, {
+    status: 'submitted',
+    txHash,
+    replacedTxHashes: previousHashes.filter((h) => h !== txHash),
+    nonce,
+    submittedAt: Date.now(),
+  });
+  indexes.forEach((i) => callbacks?.onItemSubmitted?.(i, txHash));
+
+  let receipt: TransactionReceipt;
+  let update: Partial<BatchItem>;
+  try {
+    ({ receipt, update } = await waitForItemReceipt(batchId, indexes[0], txHash, PIPELINE_CONFIRM_TIMEOUT_MS));
+  } catch (e) {
+    if (e instanceof WaitForTransactionReceiptTimeoutError) return true;
+    const error = e instanceof Error ? e.message : 'Unknown error';
+    await updateBatchItems(batchId, indexes, { status: 'failed', error, completedAt: Date.now() });
+    indexes.forEach((i) => callbacks?.onItemFailed?.(i, error));
+    return true;
+  }
+
+  if (update.status) {
+    await updateBatchItems(batchId, indexes, update);
+    indexes.forEach((i) => callbacks?.onItemFailed?.(i, update.error!));
+    return true;
+  }
+
+  const minedHash = receipt.transactionHash;
+  if (receipt.status === 'reverted') {
+    await updateBatchItems(batchId, indexes, {
+      ...update,
+      status: 'failed',
+      txHash: minedHash,
+      error: 'Transaction reverted',
+      completedAt: Date.now(),
+    });
+    indexes.forEach((i) => callbacks?.onItemFailed?.(i, 'Transaction reverted'));
+    return true;
+  }
+
+  const gasShares = splitGasUsed(receipt.gasUsed, indexes.length);
+  const completedAt = Date.now();
+  for (let j = 0; j < indexes.length; j++) {
+    await updateBatchItem(batchId, indexes[j], {
+      ...update,
+      status: 'success',
+      txHash: minedHash,
+      gasUsed: gasShares[j],
+      ...getFeePaid(receipt, gasShares[j]),
+      completedAt,
+    });
+    callbacks?.onItemComplete?.(indexes[j], minedHash, gasShares[j]);
+  }
+  return true;
+}
+
+export interface PipelineSender<T> {
+  signerAddress: string;
+  walletClient: WalletClient;
+  sendItem: (item: T, overrides: TxOverrides) => Promise<`0x${string}`>; // overrides.nonce is always set
+  maxInFlight?: number;
+}
+
+/**
+ * Clamp a requested in-flight count to a sane range
+ */
+export function resolveMaxInFlight(maxInFlight?: number): number {
+  if (!maxInFlight || maxInFlight < 1) return DEFAULT_MAX_IN_FLIGHT;
+  return Math.min(Math.floor(maxInFlight), MAX_IN_FLIGHT_LIMIT);
+}
+
+/**
+ * Occupy a nonce with a 0-value self-transfer so later nonces can be mined
+ */
+function fillNonceGap<T>(sender: PipelineSender<T>, overrides: TxOverrides): Promise<`0x${string}`> {
+  return sender.walletClient.sendTransaction({
+    to: sender.signerAddress as Address,
+    value: 0n,
+    ...overrides,
+    chain: monadMainnet,
+    account: sender.signerAddress as Address,
+  });
+}
+
+/**
+ * Wait for a pipelined item to settle.
+ * A dropped tx leaves a nonce gap that blocks every later tx, so it is
+ * re-sent once at the same nonce and, failing that, the nonce is filled
+ * with a no-op.
+ */
+async function confirmPipelinedItem<T>(
+  batchId: number,
+  index: number,
+  item: T,
+  overrides: TxOverrides,
+  submittedHash: `0x${string}`,
+  sender: PipelineSender<T>,
+  callbacks?: BatchExecutionCallbacks
+): Promise<void> {
+  let txHash = submittedHash;
+  let resent = false;
+
+  const fail = async (error: string) => {
+    await updateBatchItem(batchId, index, {
+      status: 'failed',
+      txHash,
+      error,
+      completedAt: Date.now(),
+    });
+    callbacks?.onItemFailed?.(index, error);
+  };
+
+  for (;;) {
+    let receipt: TransactionReceipt;
+    let update: Partial<BatchItem>;
+
+    try {
+      ({ receipt, update } = await waitForItemReceipt(
+        batchId,
+        index,
+        txHash,
+        PIPELINE_CONFIRM_TIMEOUT_MS
+      ));
+    } catch (e) {
+      if (!(e instanceof WaitForTransactionReceiptTimeoutError)) {
+        return fail(e instanceof Error ? e.message : 'Unknown error');
+      }
+
+      // Still in the mempool: keep waiting (a speed-up from the UI moves the stored hash)
+      const stored = (await getBatch(batchId))?.items[index];
+      if (stored?.status !== 'submitted') return; // Settled elsewhere
+      if (stored.txHash && stored.txHash !== txHash) {
+        txHash = stored.txHash as `0x${string}`;
+        continue;
+      }
+      const pending = await publicClient.getTransaction({ hash: txHash }).then(() => true, () => false);
+      if (pending) continue;
+
+      try {
+        if (!resent) {
+          resent = true;
+          txHash = await sender.sendItem(item, overrides);
+          await updateBatchItem(batchId, index, { txHash, submittedAt: Date.now() });
+          callbacks?.onItemSubmitted?.(index, txHash);
+          continue;
+        }
+
+        const fillerHash = await fillNonceGap(sender, overrides);
+        await publicClient.waitForTransactionReceipt({ hash: fillerHash });
+        return fail(`Transaction dropped; nonce ${overrides.nonce} filled with a 0-value self-transfer`);
+      } catch (resendError) {
+        return fail(resendError instanceof Error ? resendError.message : 'Failed to fill nonce gap');
+      }
+    }
+
+    if (update.status) {
+      await updateBatchItem(batchId, index, update);
+      callbacks?.onItemFailed?.(index, update.error!);
+      return;
+    }
+
+    txHash = receipt.transactionHash;
+    if (receipt.status === 'reverted') {
+      return fail('Transaction reverted');
+    }
+
+    await updateBatchItem(batchId, index, {
+      ...update,
+      status: 'success',
+      txHash,
+      gasUsed: receipt.gasUsed.toString(),
+      ...getFeePaid(receipt),
+      completedAt: Date.now(),
+    });
+    callbacks?.onItemComplete?.(index, txHash, receipt.gasUsed.toString());
+    return;
+  }
+}
+
+/**
+ * Send batch items with locally assigned nonces, keeping up to
+ * `maxInFlight` transactions unconfirmed at once. Receipts are awaited
+ * in the background; submit and confirm are reported separately.
+ * Returns false if the batch was paused before all items were sent.
+ */
+export async function executePipelined<T>(
+  batchId: number,
+  entries: ChunkEntry<T>[],
+  sender: PipelineSender<T>,
+  callbacks?: BatchExecutionCallbacks
+): Promise<boolean> {
+  const maxInFlight = resolveMaxInFlight(sender.maxInFlight);
+  const inFlight = new Set<Promise<void>>();
+  let pauseReason: string | undefined;
+
+  let nextNonce = await publicClient.getTransactionCount({
+    address: sender.signerAddress as Address,
+    blockTag: 'pending',
+  });
+
+  for (const { index, item } of entries) {
+    while (inFlight.size >= maxInFlight) {
+      await Promise.race(inFlight);
+    }
+
+    const check = await prepareSend(batchId);
+    if (check.paused) {
+      pauseReason = check.reason;
+      break;
+    }
+
+    callbacks?.onItemStart?.(index);
+    await updateBatchItem(batchId, index, { status: 'executing' });
+
+    const nonce = nextNonce;
+    const overrides: TxOverrides = { ...check.overrides, nonce };
+    let txHash: `0x${string}`;
+    try {
+      txHash = await sender.sendItem(item, overrides);
+    } catch (e) {
+      // Never broadcast, so the nonce is still free for the next item
+      const error = e instanceof Error ? e.message : 'Unknown error';
+      await updateBatchItem(batchId, index, {
+        status: 'failed',
+        error,
+        completedAt: Date.now(),
+      });
+      callbacks?.onItemFailed?.(index, error);
+      continue;
+    }
+    nextNonce++;
+
+    await updateBatchItem(batchId, index, {
+      status: 'submitted',
+      txHash,
+      nonce,
+      submittedAt: Date.now(),
+    });
+    callbacks?.onItemSubmitted?.(index, txHash);
+
+    const confirmation: Promise<void> = confirmPipelinedItem(
+      batchId,
+      index,
+      item,
+      overrides,
+      txHash,
+      sender,
+      callbacks
+    ).finally(() => inFlight.delete(confirmation));
+    inFlight.add(confirmation);
+  }
+
+  // Let everything already sent settle, even when paused
+  await Promise.all(inFlight);
+
+  if (pauseReason) {
+    callbacks?.onBatchFailed?.(pauseReason);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,129 @@
+import { type TransactionReceipt, formatGwei } from 'viem';
+import { getPublicClient } from '@/lib/chain';
+import { type BatchFeeOptions, type FeeStrategy, type TxOverrides } from './types';
+
+const publicClient = getPublicClient();
+
+// Percentages applied to the latest base fee and the node's suggested tip
+const FEE_PRESETS: Record<Exclude<FeeStrategy, 'custom'>, { baseFee: bigint; priorityFee: bigint }> = {
+  slow: { baseFee: 110n, priorityFee: 80n },
+  normal: { baseFee: 125n, priorityFee: 100n },
+  fast: { baseFee: 200n, priorityFee: 150n },
+};
+
+export type FeeCheck =
+  | { paused: false; overrides: TxOverrides }
+  | { paused: true; reason: string };
+
+/**
+ * Latest block's base fee (0 on chains without EIP-1559)
+ */
+export async function getBaseFee(): Promise<bigint> {
+  const block = await publicClient.getBlock({ blockTag: 'latest' });
+  return block.baseFeePerGas ?? 0n;
+}
+
+/**
+ * Turn a fee strategy into EIP-1559 overrides for the next transaction.
+ * Returns no overrides when no strategy is set, so the wallet picks fees.
+ */
+export async function resolveFeeOverrides(
+  fees?: BatchFeeOptions,
+  baseFee?: bigint
+): Promise<TxOverrides> {
+  if (!fees?.strategy) return {};
+
+  if (fees.strategy === 'custom') {
+    if (fees.maxFeePerGas === undefined || fees.maxPriorityFeePerGas === undefined) {
+      throw new Error('Custom fee strategy needs maxFeePerGas and maxPriorityFeePerGas');
+    }
+    if (fees.maxPriorityFeePerGas > fees.maxFeePerGas) {
+      throw new Error('maxPriorityFeePerGas cannot exceed maxFeePerGas');
+    }
+    return { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas };
+  }
+
+  const preset = FEE_PRESETS[fees.strategy];
+  const [latestBaseFee, suggestedTip] = await Promise.all([
+    baseFee ?? getBaseFee(),
+    publicClient.estimateMaxPriorityFeePerGas(),
+  ]);
+
+  const maxPriorityFeePerGas = (suggestedTip * preset.priorityFee) / 100n;
+  return {
+    maxFeePerGas: (latestBaseFee * preset.baseFee) / 100n + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Check the gas ceiling and resolve fees right before a send
+ */
+export async function checkFees(fees?: BatchFeeOptions): Promise<FeeCheck> {
+  if (!fees) return { paused: false, overrides: {} };
+
+  let baseFee: bigint | undefined;
+  if (fees.maxBaseFeePerGas !== undefined) {
+    baseFee = await getBaseFee();
+    if (baseFee > fees.maxBaseFeePerGas) {
+      return {
+        paused: true,
+        reason: `Batch paused: base fee ${formatGwei(baseFee)} gwei is above the ${formatGwei(fees.maxBaseFeePerGas)} gwei ceiling`,
+      };
+    }
+  }
+
+  return { paused: false, overrides: await resolveFeeOverrides(fees, baseFee) };
+}
+
+/**
+ * Highest gas price a batch could pay, for preflight cost estimates
+ */
+export async function getPreflightGasPrice(fees?: BatchFeeOptions): Promise<bigint> {
+  const { maxFeePerGas } = await resolveFeeOverrides(fees);
+  if (maxFeePerGas !== undefined) return maxFeePerGas;
+
+  const estimate = await publicClient.estimateFeesPerGas();
+  return estimate.maxFeePerGas ?? estimate.gasPrice ?? 0n;
+}
+
+/**
+ * Fee options as stored in batch metadata (IndexedDB rows keep amounts as strings)
+ */
+export function serializeFeeOptions(fees: BatchFeeOptions): Record<string, string> {
+  const stored: Record<string, string> = {};
+  if (fees.strategy) stored.strategy = fees.strategy;
+  if (fees.maxFeePerGas !== undefined) stored.maxFeePerGas = fees.maxFeePerGas.toString();
+  if (fees.maxPriorityFeePerGas !== undefined) stored.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString();
+  if (fees.maxBaseFeePerGas !== undefined) stored.maxBaseFeePerGas = fees.maxBaseFeePerGas.toString();
+  return stored;
+}
+
+/**
+ * Read fee options back from batch metadata
+ */
+export function parseFeeOptions(metadata?: Record<string, unknown>): BatchFeeOptions | undefined {
+  const stored = metadata?.fees as Record<string, string> | undefined;
+  if (!stored) return undefined;
+
+  const toBigInt = (value?: string) => (value === undefined ? undefined : BigInt(value));
+  return {
+    strategy: stored.strategy as FeeStrategy | undefined,
+    maxFeePerGas: toBigInt(stored.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(stored.maxPriorityFeePerGas),
+    maxBaseFeePerGas: toBigInt(stored.maxBaseFeePerGas),
+  };
+}
+
+/**
+ * Fee fields for an item that used `gasUsed` of the given receipt
+ */
+export function getFeePaid(
+  receipt: TransactionReceipt,
+  gasUsed: string = receipt.gasUsed.toString()
+): { effectiveGasPrice: string; feePaid: string } {
+  return {
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    feePaid: (BigInt(gasUsed) * receipt.effectiveGasPrice).toString(),
+  };
+}
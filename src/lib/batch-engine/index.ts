@@ -2,3 +2,8 @@ export * from './types';
 export * from './batch-store';
 export * from './nft-transfer';
 export * from './disperse';
+export * from './resume';
+export * from './reconciler';
+export * from './fees';
+export * from './replacement';
+export * from './retry';
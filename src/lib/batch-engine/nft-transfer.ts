@@ -7,24 +7,92 @@ import {
   encodeFunctionData,
 } from 'viem';
 import { getPublicClient, monadMainnet } from '@/lib/chain';
-import { ERC721_ABI, ERC1155_ABI } from '@/lib/chain/abis';
+import { ERC721_ABI, ERC1155_ABI, BATCH_NFT_TRANSFER_ABI } from '@/lib/chain/abis';
+import { BATCH_NFT_TRANSFER_ADDRESS } from '@/lib/contracts';
 import {
   type NFTTransferItem,
+  type NFTTransferExecutionOptions,
+  type ApprovalStep,
   type PreflightResult,
   type PreflightItemResult,
   type BatchExecutionCallbacks,
+  type TxOverrides,
 } from './types';
-import { createBatch, updateBatchStatus, updateBatchItem, getBatch } from './batch-store';
-import { isValidAddress } from '@/lib/utils';
+import { createBatch } from './batch-store';
+import { getPreflightGasPrice, serializeFeeOptions } from './fees';
+import {
+  runBatch,
+  executeSequential,
+  executeChunks,
+  executePipelined,
+  resolveMaxInFlight,
+  type ChunkEntry,
+} from './execution-runner';
+import { isValidAddress, chunk } from '@/lib/utils';
 
 const publicClient = getPublicClient();
 
+// Must stay in sync with BatchNFTTransfer.MAX_BATCH_SIZE
+export const NFT_TRANSFER_MAX_CHUNK_SIZE = 100;
+export const DEFAULT_NFT_TRANSFER_CHUNK_SIZE = 50;
+
+/**
+ * Resolve the BatchNFTTransfer contract address, failing loudly if it isn't deployed
+ */
+export function getBatchTransferAddress(): Address {
+  if (!BATCH_NFT_TRANSFER_ADDRESS) {
+    throw new Error('Batch transfer contract is not deployed. Use sequential mode instead.');
+  }
+  return BATCH_NFT_TRANSFER_ADDRESS;
+}
+
+/**
+ * Clamp a requested chunk size to what the contract accepts
+ */
+export function resolveNFTTransferChunkSize(chunkSize?: number): number {
+  if (!chunkSize || chunkSize < 1) return DEFAULT_NFT_TRANSFER_CHUNK_SIZE;
+  return Math.min(Math.floor(chunkSize), NFT_TRANSFER_MAX_CHUNK_SIZE);
+}
+
+/**
+ * Find collections where the signer has not yet approved the operator
+ */
+export async function getMissingApprovals(
+  items: NFTTransferItem[],
+  signerAddress: string,
+  operator: string
+): Promise<ApprovalStep[]> {
+  const collections = new Map<string, NFTTransferItem['collectionType']>();
+  for (const item of items) {
+    if (isValidAddress(item.collectionAddress)) {
+      collections.set(item.collectionAddress.toLowerCase(), item.collectionType);
+    }
+  }
+
+  const steps: ApprovalStep[] = [];
+  for (const [collectionAddress, collectionType] of collections) {
+    const approved = await publicClient.readContract({
+      address: collectionAddress as Address,
+      abi: collectionType === 'ERC721' ? ERC721_ABI : ERC1155_ABI,
+      functionName: 'isApprovedForAll',
+      args: [signerAddress as Address, operator as Address],
+    });
+
+    if (!approved) {
+      steps.push({ collectionAddress, collectionType, operator });
+    }
+  }
+
+  return steps;
+}
+
 /**
  * Validate and run preflight checks for NFT transfers
  */
 export async function preflightNFTTransfers(
   items: NFTTransferItem[],
-  signerAddress: string
+  signerAddress: string,
+  options?: NFTTransferExecutionOptions
 ): Promise<PreflightResult> {
   const errors: { index: number; message: string }[] = [];
   const itemResults: PreflightItemResult[] = [];
@@ -129,8 +197,22 @@ export async function preflightNFTTransfers(
     itemResults.push(result);
   }
 
-  // Get current gas price for total estimate
-  const gasPrice = await publicClient.getGasPrice();
+  // Contract mode needs a one-time operator approval per collection
+  let approvals: ApprovalStep[] | undefined;
+  if (options?.mode === 'contract') {
+    if (!BATCH_NFT_TRANSFER_ADDRESS) {
+      errors.push({ index: -1, message: 'Batch transfer contract is not deployed' });
+    } else {
+      try {
+        approvals = await getMissingApprovals(items, signerAddress, BATCH_NFT_TRANSFER_ADDRESS);
+      } catch {
+        errors.push({ index: -1, message: 'Failed to check collection approvals' });
+      }
+    }
+  }
+
+  // Worst-case price under the chosen fee strategy
+  const gasPrice = await getPreflightGasPrice(options?.fees);
   const estimatedTotal = totalEstimatedGas * gasPrice;
 
   return {
@@ -139,186 +221,197 @@ export async function preflightNFTTransfers(
     estimatedGas: totalEstimatedGas,
     estimatedTotal,
     itemResults,
+    approvals,
   };
 }
 
 /**
- * Execute NFT transfers batch
+ * Send a single NFT transfer with safeTransferFrom
  */
-export async function executeNFTTransfers(
-  items: NFTTransferItem[],
-  signerAddress: string,
+export function sendNFTTransfer(
   walletClient: WalletClient,
-  callbacks?: BatchExecutionCallbacks
-): Promise<number> {
-  // Create batch record
-  const batch = await createBatch(
-    'TRANSFER_NFT',
-    signerAddress,
-    items.map((item) => ({ data: item as unknown as Record<string, unknown> })),
-    { collectionTypes: [...new Set(items.map((i) => i.collectionType))] }
-  );
-
-  await updateBatchStatus(batch.id!, 'executing');
-
-  try {
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-
-      // Check if batch was paused
-      const currentBatch = await getBatch(batch.id!);
-      if (currentBatch?.status === 'paused') {
-        callbacks?.onBatchFailed?.('Batch paused');
-        return batch.id!;
-      }
-
-      callbacks?.onItemStart?.(i);
-      await updateBatchItem(batch.id!, i, { status: 'executing' });
-
-      try {
-        let txHash: `0x${string}`;
-
-        if (item.collectionType === 'ERC721') {
-          txHash = await walletClient.writeContract({
-            address: item.collectionAddress as Address,
-            abi: ERC721_ABI,
-            functionName: 'safeTransferFrom',
-            args: [signerAddress as Address, item.to as Address, BigInt(item.tokenId)],
-            chain: monadMainnet,
-            account: signerAddress as Address,
-          });
-        } else {
-          txHash = await walletClient.writeContract({
-            address: item.collectionAddress as Address,
-            abi: ERC1155_ABI,
-            functionName: 'safeTransferFrom',
-            args: [
-              signerAddress as Address,
-              item.to as Address,
-              BigInt(item.tokenId),
-              BigInt(item.amount || 1),
-              '0x' as `0x${string}`,
-            ],
-            chain: monadMainnet,
-            account: signerAddress as Address,
-          });
-        }
-
-        // Wait for receipt
-        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-        await updateBatchItem(batch.id!, i, {
-          status: 'success',
-          txHash,
-          gasUsed: receipt.gasUsed.toString(),
-          completedAt: Date.now(),
-        });
+  signerAddress: string,
+  item: NFTTransferItem,
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  if (item.collectionType === 'ERC721') {
+    return walletClient.writeContract({
+      address: item.collectionAddress as Address,
+      abi: ERC721_ABI,
+      functionName: 'safeTransferFrom',
+      args: [signerAddress as Address, item.to as Address, BigInt(item.tokenId)],
+      ...overrides,
+      chain: monadMainnet,
+      account: signerAddress as Address,
+    });
+  }
 
-        callbacks?.onItemComplete?.(i, txHash, receipt.gasUsed.toString());
-      } catch (e) {
-        const error = e instanceof Error ? e.message : 'Unknown error';
-        await updateBatchItem(batch.id!, i, {
-          status: 'failed',
-          error,
-          completedAt: Date.now(),
-        });
-        callbacks?.onItemFailed?.(i, error);
-      }
-    }
+  return walletClient.writeContract({
+    address: item.collectionAddress as Address,
+    abi: ERC1155_ABI,
+    functionName: 'safeTransferFrom',
+    args: [
+      signerAddress as Address,
+      item.to as Address,
+      BigInt(item.tokenId),
+      BigInt(item.amount || 1),
+      '0x' as `0x${string}`,
+    ],
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
 
-    await updateBatchStatus(batch.id!, 'completed');
-    callbacks?.onBatchComplete?.();
-  } catch (e) {
-    const error = e instanceof Error ? e.message : 'Unknown error';
-    await updateBatchStatus(batch.id!, 'failed');
-    callbacks?.onBatchFailed?.(error);
+/**
+ * Send one chunk of same-standard transfers through BatchNFTTransfer
+ */
+export function sendNFTTransferChunk(
+  walletClient: WalletClient,
+  signerAddress: string,
+  chunkItems: NFTTransferItem[],
+  overrides?: TxOverrides
+): Promise<`0x${string}`> {
+  const operator = getBatchTransferAddress();
+
+  if (chunkItems[0].collectionType === 'ERC721') {
+    return walletClient.writeContract({
+      address: operator,
+      abi: BATCH_NFT_TRANSFER_ABI,
+      functionName: 'batchTransferERC721',
+      args: [
+        chunkItems.map((item) => item.collectionAddress as Address),
+        chunkItems.map((item) => item.to as Address),
+        chunkItems.map((item) => BigInt(item.tokenId)),
+      ],
+      ...overrides,
+      chain: monadMainnet,
+      account: signerAddress as Address,
+    });
   }
 
-  return batch.id!;
+  return walletClient.writeContract({
+    address: operator,
+    abi: BATCH_NFT_TRANSFER_ABI,
+    functionName: 'batchTransferERC1155',
+    args: [
+      chunkItems.map((item) => item.collectionAddress as Address),
+      chunkItems.map((item) => item.to as Address),
+      chunkItems.map((item) => BigInt(item.tokenId)),
+      chunkItems.map((item) => BigInt(item.amount || 1)),
+    ],
+    ...overrides,
+    chain: monadMainnet,
+    account: signerAddress as Address,
+  });
+}
+
+/**
+ * Group transfers into contract chunks. Each contract call takes one token standard.
+ */
+export function planNFTTransferChunks(
+  entries: ChunkEntry<NFTTransferItem>[],
+  chunkSize: number
+): ChunkEntry<NFTTransferItem>[][] {
+  return [
+    ...chunk(entries.filter((e) => e.item.collectionType === 'ERC721'), chunkSize),
+    ...chunk(entries.filter((e) => e.item.collectionType === 'ERC1155'), chunkSize),
+  ];
 }
 
 /**
- * Resume a paused/failed batch
+ * Sign any missing setApprovalForAll for the batch contract, one per collection
  */
-export async function resumeNFTTransfers(
-  batchId: number,
+export async function ensureBatchTransferApprovals(
   walletClient: WalletClient,
-  callbacks?: BatchExecutionCallbacks
+  signerAddress: string,
+  items: NFTTransferItem[]
 ): Promise<void> {
-  const batch = await getBatch(batchId);
-  if (!batch) throw new Error('Batch not found');
+  const operator = getBatchTransferAddress();
+  const approvals = await getMissingApprovals(items, signerAddress, operator);
+
+  for (const step of approvals) {
+    const approveHash = await walletClient.writeContract({
+      address: step.collectionAddress as Address,
+      abi: step.collectionType === 'ERC721' ? ERC721_ABI : ERC1155_ABI,
+      functionName: 'setApprovalForAll',
+      args: [operator, true],
+      chain: monadMainnet,
+      account: signerAddress as Address,
+    });
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+  }
+}
 
-  await updateBatchStatus(batchId, 'executing');
+/**
+ * Execute NFT transfers batch (one tx per item, pipelined, or chunked through BatchNFTTransfer.sol)
+ */
+export async function executeNFTTransfers(
+  items: NFTTransferItem[],
+  signerAddress: string,
+  walletClient: WalletClient,
+  callbacks?: BatchExecutionCallbacks,
+  options?: NFTTransferExecutionOptions
+): Promise<number> {
+  const mode = options?.mode ?? 'sequential';
+  const chunkSize = resolveNFTTransferChunkSize(options?.chunkSize);
 
-  try {
-    for (let i = 0; i < batch.items.length; i++) {
-      const batchItem = batch.items[i];
+  // Create batch record
+  const batch = await createBatch(
+    'TRANSFER_NFT',
+    signerAddress,
+    items.map((item) => ({ data: item as unknown as Record<string, unknown> })),
+    {
+      collectionTypes: [...new Set(items.map((i) => i.collectionType))],
+      ...(mode === 'contract' ? { mode, chunkSize } : {}),
+      ...(mode === 'pipelined' ? { mode, maxInFlight: resolveMaxInFlight(options?.maxInFlight) } : {}),
+      ...(options?.fees ? { fees: serializeFeeOptions(options.fees) } : {}),
+      ...(options?.parentBatchId !== undefined
+        ? { parentBatchId: options.parentBatchId, parentItemIndexes: options.parentItemIndexes }
+        : {}),
+    }
+  );
 
-      // Skip already completed items
-      if (batchItem.status === 'success' || batchItem.status === 'skipped') {
-        continue;
+  const entries = items.map((item, index) => ({ item, index }));
+
+  await runBatch(
+    batch.id!,
+    async () => {
+      if (mode === 'pipelined') {
+        return executePipelined(
+          batch.id!,
+          entries,
+          {
+            signerAddress,
+            walletClient,
+            sendItem: (item, overrides) => sendNFTTransfer(walletClient, signerAddress, item, overrides),
+            maxInFlight: options?.maxInFlight,
+          },
+          callbacks
+        );
       }
 
-      const item = batchItem.data as unknown as NFTTransferItem;
-
-      callbacks?.onItemStart?.(i);
-      await updateBatchItem(batchId, i, { status: 'executing' });
-
-      try {
-        let txHash: `0x${string}`;
-
-        if (item.collectionType === 'ERC721') {
-          txHash = await walletClient.writeContract({
-            address: item.collectionAddress as Address,
-            abi: ERC721_ABI,
-            functionName: 'safeTransferFrom',
-            args: [batch.signerAddress as Address, item.to as Address, BigInt(item.tokenId)],
-            chain: monadMainnet,
-            account: batch.signerAddress as Address,
-          });
-        } else {
-          txHash = await walletClient.writeContract({
-            address: item.collectionAddress as Address,
-            abi: ERC1155_ABI,
-            functionName: 'safeTransferFrom',
-            args: [
-              batch.signerAddress as Address,
-              item.to as Address,
-              BigInt(item.tokenId),
-              BigInt(item.amount || 1),
-              '0x' as `0x${string}`,
-            ],
-            chain: monadMainnet,
-            account: batch.signerAddress as Address,
-          });
-        }
-
-        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-        await updateBatchItem(batchId, i, {
-          status: 'success',
-          txHash,
-          gasUsed: receipt.gasUsed.toString(),
-          completedAt: Date.now(),
-        });
-
-        callbacks?.onItemComplete?.(i, txHash, receipt.gasUsed.toString());
-      } catch (e) {
-        const error = e instanceof Error ? e.message : 'Unknown error';
-        await updateBatchItem(batchId, i, {
-          status: 'failed',
-          error,
-          completedAt: Date.now(),
-        });
-        callbacks?.onItemFailed?.(i, error);
+      if (mode !== 'contract') {
+        return executeSequential(
+          batch.id!,
+          entries,
+          (item, overrides) => sendNFTTransfer(walletClient, signerAddress, item, overrides),
+          callbacks
+        );
       }
-    }
 
-    await updateBatchStatus(batchId, 'completed');
-    callbacks?.onBatchComplete?.();
-  } catch (e) {
-    const error = e instanceof Error ? e.message : 'Unknown error';
-    await updateBatchStatus(batchId, 'failed');
-    callbacks?.onBatchFailed?.(error);
-  }
+      // Approval steps run first so every chunk can move tokens
+      await ensureBatchTransferApprovals(walletClient, signerAddress, items);
+      return executeChunks(
+        batch.id!,
+        planNFTTransferChunks(entries, chunkSize),
+        (chunkItems, overrides) =>
+          sendNFTTransferChunk(walletClient, signerAddress, chunkItems, overrides),
+        callbacks
+      );
+    },
+    callbacks
+  );
+
+  return batch.id!;
 }
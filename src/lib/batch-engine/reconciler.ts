@@ -0,0 +1,162 @@
+import {
+  type TransactionReceipt,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+} from 'viem';
+import { getPublicClient } from '@/lib/chain';
+import { db } from '@/lib/db';
+import { type Batch, type BatchItem } from './types';
+import { updateBatchItem, updateBatchStatus } from './batch-store';
+import { splitGasUsed } from './execution-runner';
+import { getFeePaid } from './fees';
+import { getItemTxHashes, getMinedTxUpdate } from './replacement';
+
+const publicClient = getPublicClient();
+
+export type TransactionLookup =
+  | { state: 'mined'; receipt: TransactionReceipt }
+  | { state: 'pending' }
+  | { state: 'dropped' };
+
+export interface ReconcileSummary {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  stillPending: number;
+}
+
+/**
+ * Check where a previously submitted transaction ended up, without waiting.
+ * Only a node that answers "not found" makes a transaction `dropped`; RPC errors
+ * are rethrown, since the transaction may still be mined.
+ */
+export async function lookupTransaction(hash: `0x${string}`): Promise<TransactionLookup> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return { state: 'mined', receipt };
+  } catch (error) {
+    // Not mined yet (or dropped)
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+  }
+
+  try {
+    await publicClient.getTransaction({ hash });
+    return { state: 'pending' };
+  } catch (error) {
+    if (!(error instanceof TransactionNotFoundError)) throw error;
+    return { state: 'dropped' };
+  }
+}
+
+/**
+ * Where an item's transaction ended up, across every hash sent at its nonce.
+ * `cache` is keyed by hash since chunk items share their transactions.
+ */
+export async function lookupItemTransaction(
+  item: BatchItem,
+  cache: Map<string, TransactionLookup> = new Map()
+): Promise<TransactionLookup> {
+  let pending = false;
+
+  for (const hash of getItemTxHashes(item)) {
+    if (!cache.has(hash)) {
+      cache.set(hash, await lookupTransaction(hash as `0x${string}`));
+    }
+    const lookup = cache.get(hash)!;
+    if (lookup.state === 'mined') return lookup;
+    if (lookup.state === 'pending') pending = true;
+  }
+
+  return pending ? { state: 'pending' } : { state: 'dropped' };
+}
+
+/**
+ * Gas share for an item; chunk items split their shared receipt's gas
+ */
+function getItemGasUsed(batch: Batch, item: BatchItem, receipt: TransactionReceipt): string {
+  if (item.chunkIndex === undefined) return receipt.gasUsed.toString();
+
+  const siblings = batch.items.filter((i) => i.chunkIndex === item.chunkIndex);
+  const position = siblings.findIndex((i) => i.index === item.index);
+  return splitGasUsed(receipt.gasUsed, siblings.length)[position];
+}
+
+/**
+ * Resolve batch items left in `submitted` state, e.g. after a page reload.
+ * Only items submitted before `submittedBefore` are checked, so transactions
+ * an executor in this session is still waiting on are left alone.
+ */
+export async function reconcileSubmittedItems(
+  submittedBefore: number = Date.now()
+): Promise<ReconcileSummary> {
+  const summary: ReconcileSummary = { checked: 0, confirmed: 0, failed: 0, stillPending: 0 };
+
+  const batches = await db.batches
+    .filter((b) => b.items.some((i) => i.status === 'submitted'))
+    .toArray();
+
+  for (const batch of batches) {
+    const lookups = new Map<string, TransactionLookup>(); // Chunk items share a hash
+    let changed = false;
+
+    for (const item of batch.items) {
+      if (item.status !== 'submitted' || !item.txHash) continue;
+      if ((item.submittedAt ?? 0) >= submittedBefore) continue;
+
+      summary.checked++;
+      let lookup: TransactionLookup;
+      try {
+        lookup = await lookupItemTransaction(item, lookups);
+      } catch (error) {
+        // Unknown outcome: leave the item submitted for the next reconcile
+        console.error(`[Reconciler] Could not look up item ${item.index} of batch ${batch.id}:`, error);
+        summary.stillPending++;
+        continue;
+      }
+
+      if (lookup.state === 'pending') {
+        summary.stillPending++;
+        continue;
+      }
+
+      changed = true;
+      const minedUpdate = lookup.state === 'mined' ? getMinedTxUpdate(item, lookup.receipt) : {};
+      if (minedUpdate.status) {
+        // The user's cancel was mined
+        await updateBatchItem(batch.id!, item.index, minedUpdate);
+        summary.failed++;
+      } else if (lookup.state === 'mined' && lookup.receipt.status === 'success') {
+        const gasUsed = getItemGasUsed(batch, item, lookup.receipt);
+        await updateBatchItem(batch.id!, item.index, {
+          ...minedUpdate,
+          status: 'success',
+          gasUsed,
+          ...getFeePaid(lookup.receipt, gasUsed),
+          completedAt: Date.now(),
+        });
+        summary.confirmed++;
+      } else {
+        await updateBatchItem(batch.id!, item.index, {
+          ...minedUpdate,
+          status: 'failed',
+          error: lookup.state === 'mined' ? 'Transaction reverted' : 'Transaction dropped before it was mined',
+          completedAt: Date.now(),
+        });
+        summary.failed++;
+      }
+    }
+
+    // An interrupted batch whose last items just settled is done
+    if (changed && batch.status === 'executing') {
+      const current = await db.batches.get(batch.id!);
+      const unresolved = current?.items.some(
+        (i) => i.status === 'pending' || i.status === 'executing' || i.status === 'submitted'
+      );
+      if (current && !unresolved) {
+        await updateBatchStatus(batch.id!, 'completed');
+      }
+    }
+  }
+
+  return summary;
+}
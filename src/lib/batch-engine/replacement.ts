@@ -0,0 +1,183 @@
+import {
+  type Address,
+  type Transaction,
+  type TransactionReceipt,
+  type ReplacementReturnType,
+  type WalletClient,
+} from 'viem';
+import { getPublicClient, monadMainnet } from '@/lib/chain';
+import { type BatchItem, type TxOverrides } from './types';
+import { getBatch, updateBatchItems } from './batch-store';
+import { resolveFeeOverrides } from './fees';
+
+const publicClient = getPublicClient();
+
+// Replacement fees as a percent of the stuck tx's. Nodes only accept a replacement at
+// least 10% higher; 25% clears that with room for a base fee that rose meanwhile, so a
+// single replacement is usually enough
+const REPLACEMENT_FEE_BUMP_PERCENT = 125n;
+
+export const CANCELLED_ERROR = 'Cancelled by user';
+
+export type ReplacementAction = 'speed-up' | 'cancel';
+
+/**
+ * Every hash that can settle an item: the latest first, then the ones it replaced
+ */
+export function getItemTxHashes(item: BatchItem): string[] {
+  if (!item.txHash) return [];
+  return [item.txHash, ...(item.replacedTxHashes ?? []).filter((h) => h !== item.txHash)];
+}
+
+/**
+ * Point an item at whichever of its hashes was mined.
+ * When the mined tx is the user's cancel, the update also settles the item.
+ */
+export function getMinedTxUpdate(item: BatchItem, receipt: TransactionReceipt): Partial<BatchItem> {
+  const minedHash = receipt.transactionHash;
+  const replaced = getItemTxHashes(item).filter((h) => h !== minedHash);
+  const update: Partial<BatchItem> = {
+    txHash: minedHash,
+    replacedTxHashes: replaced.length > 0 ? replaced : undefined,
+  };
+
+  if (item.cancelTxHash === minedHash) {
+    return { ...update, status: 'skipped', error: CANCELLED_ERROR, completedAt: Date.now() };
+  }
+  return update;
+}
+
+/**
+ * Item update for a replacement reported by waitForTransactionReceipt's `onReplaced`.
+ * A repriced tx still delivers the item; a cancel or unrelated tx at the nonce settles it.
+ */
+export function getReplacementUpdate(
+  item: BatchItem | undefined,
+  replacement: ReplacementReturnType
+): Partial<BatchItem> {
+  const minedHash = replacement.transaction.hash;
+  const known = item ? getItemTxHashes(item) : [];
+  const replaced = [...new Set([...known, replacement.replacedTransaction.hash])].filter(
+    (h) => h !== minedHash
+  );
+  const update: Partial<BatchItem> = { txHash: minedHash, replacedTxHashes: replaced };
+
+  if (replacement.reason === 'cancelled' || item?.cancelTxHash === minedHash) {
+    return { ...update, status: 'skipped', error: CANCELLED_ERROR, completedAt: Date.now() };
+  }
+  if (replacement.reason === 'repriced') return update;
+
+  return {
+    ...update,
+    status: 'failed',
+    error: `Replaced by ${minedHash}`,
+    completedAt: Date.now(),
+  };
+}
+
+/**
+ * Fees for a replacement: a fixed bump over the stuck tx, or the current fast fee if higher
+ */
+async function getReplacementFees(tx: Transaction): Promise<TxOverrides> {
+  const bump = (value: bigint) => (value * REPLACEMENT_FEE_BUMP_PERCENT + 99n) / 100n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+  const current = await resolveFeeOverrides({ strategy: 'fast' });
+  const maxPriorityFeePerGas = max(
+    bump(tx.maxPriorityFeePerGas ?? tx.gasPrice ?? 0n),
+    current.maxPriorityFeePerGas ?? 0n
+  );
+  const maxFeePerGas = max(
+    max(bump(tx.maxFeePerGas ?? tx.gasPrice ?? 0n), current.maxFeePerGas ?? 0n),
+    maxPriorityFeePerGas
+  );
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Re-send a submitted item's transaction at the same nonce.
+ * Items sent in one chunk share a tx, so all of them move to the new hash.
+ */
+async function replaceBatchItem(
+  batchId: number,
+  itemIndex: number,
+  walletClient: WalletClient,
+  action: ReplacementAction
+): Promise<`0x${string}`> {
+  const batch = await getBatch(batchId);
+  if (!batch) throw new Error('Batch not found');
+
+  const item = batch.items[itemIndex];
+  if (!item || item.status !== 'submitted' || !item.txHash) {
+    throw new Error('Only submitted transactions can be replaced');
+  }
+
+  const hash = item.txHash as `0x${string}`;
+  const mined = await publicClient.getTransactionReceipt({ hash }).then(() => true, () => false);
+  if (mined) throw new Error('Transaction is already confirmed');
+
+  let tx: Transaction;
+  try {
+    tx = await publicClient.getTransaction({ hash });
+  } catch {
+    throw new Error('Transaction is no longer pending');
+  }
+
+  const account = batch.signerAddress as Address;
+  const fees = await getReplacementFees(tx);
+
+  const newHash = action === 'cancel'
+    ? await walletClient.sendTransaction({
+        to: account,
+        value: 0n,
+        nonce: tx.nonce,
+        ...fees,
+        chain: monadMainnet,
+        account,
+      })
+    : await walletClient.sendTransaction({
+        to: tx.to as Address,
+        data: tx.input,
+        value: tx.value,
+        gas: tx.gas,
+        nonce: tx.nonce,
+        ...fees,
+        chain: monadMainnet,
+        account,
+      });
+
+  // Speeding up a cancel is still a cancel
+  const isCancel = action === 'cancel' || item.cancelTxHash === item.txHash;
+  const indexes = batch.items.filter((i) => i.txHash === item.txHash).map((i) => i.index);
+  await updateBatchItems(batchId, indexes, {
+    txHash: newHash,
+    replacedTxHashes: getItemTxHashes(item),
+    cancelTxHash: isCancel ? newHash : item.cancelTxHash,
+    nonce: tx.nonce,
+  });
+
+  return newHash;
+}
+
+/**
+ * Re-send a stuck item at the same nonce with higher fees
+ */
+export function speedUpBatchItem(
+  batchId: number,
+  itemIndex: number,
+  walletClient: WalletClient
+): Promise<`0x${string}`> {
+  return replaceBatchItem(batchId, itemIndex, walletClient, 'speed-up');
+}
+
+/**
+ * Replace a stuck item with a 0-value self-transfer at the same nonce
+ */
+export function cancelBatchItem(
+  batchId: number,
+  itemIndex: number,
+  walletClient: WalletClient
+): Promise<`0x${string}`> {
+  return replaceBatchItem(batchId, itemIndex, walletClient, 'cancel');
+}
@@ -0,0 +1,353 @@
+import { type Address, type WalletClient, type TransactionReceipt } from 'viem';
+import { getPublicClient } from '@/lib/chain';
+import {
+  type Batch,
+  type BatchItem,
+  type BatchType,
+  type BatchExecutionCallbacks,
+  type DisperseItem,
+  type NFTTransferItem,
+  type TxOverrides,
+} from './types';
+import { getBatch, updateBatchItem } from './batch-store';
+import { lookupItemTransaction, type TransactionLookup } from './reconciler';
+import { getFeePaid } from './fees';
+import { getMinedTxUpdate } from './replacement';
+import {
+  runBatch,
+  executeSequential,
+  executeChunks,
+  executePipelined,
+  resendAtNonce,
+  type ChunkEntry,
+} from './execution-runner';
+import {
+  sendMonTransfer,
+  sendTokenTransfer,
+  sendDisperseEtherChunk,
+  sendDisperseTokenChunk,
+  ensureDisperseAllowance,
+  resolveDisperseChunkSize,
+} from './disperse';
+import {
+  sendNFTTransfer,
+  sendNFTTransferChunk,
+  planNFTTransferChunks,
+  ensureBatchTransferApprovals,
+  resolveNFTTransferChunkSize,
+} from './nft-transfer';
+import { chunk } from '@/lib/utils';
+
+const publicClient = getPublicClient();
+
+type Hash = `0x${string}`;
+type ItemData = Record<string, unknown>;
+
+/**
+ * How to re-send the items of one BatchType.
+ * `contract` is only used when the batch was created in contract mode.
+ */
+interface BatchTypeExecutor {
+  sendItem: (batch: Batch, walletClient: WalletClient, item: ItemData, overrides?: TxOverrides) => Promise<Hash>;
+  contract?: {
+    prepare: (batch: Batch, walletClient: WalletClient, items: ItemData[]) => Promise<void>;
+    plan: (entries: ChunkEntry<ItemData>[], chunkSize?: number) => ChunkEntry<ItemData>[][];
+    sendChunk: (
+      batch: Batch,
+      walletClient: WalletClient,
+      items: ItemData[],
+      overrides?: TxOverrides
+    ) => Promise<Hash>;
+  };
+}
+
+function getTokenAddress(batch: Batch): string {
+  const tokenAddress = batch.metadata?.tokenAddress;
+  if (typeof tokenAddress !== 'string') {
+    throw new Error('Batch is missing its token address');
+  }
+  return tokenAddress;
+}
+
+const BATCH_EXECUTORS: Record<BatchType, BatchTypeExecutor> = {
+  TRANSFER_NFT: {
+    sendItem: (batch, walletClient, item, overrides) =>
+      sendNFTTransfer(walletClient, batch.signerAddress, item as unknown as NFTTransferItem, overrides),
+    contract: {
+      prepare: (batch, walletClient, items) =>
+        ensureBatchTransferApprovals(
+          walletClient,
+          batch.signerAddress,
+          items as unknown as NFTTransferItem[]
+        ),
+      plan: (entries, chunkSize) =>
+        planNFTTransferChunks(
+          entries as unknown as ChunkEntry<NFTTransferItem>[],
+          resolveNFTTransferChunkSize(chunkSize)
+        ) as unknown as ChunkEntry<ItemData>[][],
+      sendChunk: (batch, walletClient, items, overrides) =>
+        sendNFTTransferChunk(
+          walletClient,
+          batch.signerAddress,
+          items as unknown as NFTTransferItem[],
+          overrides
+        ),
+    },
+  },
+  DISPERSE_MON: {
+    sendItem: (batch, walletClient, item, overrides) =>
+      sendMonTransfer(walletClient, batch.signerAddress, item as unknown as DisperseItem, overrides),
+    contract: {
+      prepare: async () => {},
+      plan: (entries, chunkSize) => chunk(entries, resolveDisperseChunkSize(chunkSize)),
+      sendChunk: (batch, walletClient, items, overrides) =>
+        sendDisperseEtherChunk(
+          walletClient,
+          batch.signerAddress,
+          items as unknown as DisperseItem[],
+          overrides
+        ),
+    },
+  },
+  DISPERSE_ERC20: {
+    sendItem: (batch, walletClient, item, overrides) =>
+      sendTokenTransfer(
+        walletClient,
+        batch.signerAddress,
+        getTokenAddress(batch),
+        item as unknown as DisperseItem,
+        overrides
+      ),
+    contract: {
+      prepare: (batch, walletClient, items) =>
+        ensureDisperseAllowance(
+          walletClient,
+          batch.signerAddress,
+          getTokenAddress(batch),
+          items as unknown as DisperseItem[]
+        ),
+      plan: (entries, chunkSize) => chunk(entries, resolveDisperseChunkSize(chunkSize)),
+      sendChunk: (batch, walletClient, items, overrides) =>
+        sendDisperseTokenChunk(
+          walletClient,
+          batch.signerAddress,
+          getTokenAddress(batch),
+          items as unknown as DisperseItem[],
+          overrides
+        ),
+    },
+  },
+};
+
+/**
+ * Look up the final receipt for an item's recorded hashes (including speed-ups and cancels).
+ * Waits if a tx is still pending; returns null if the node doesn't know any of them, which
+ * doesn't prove the tx can't still be mined. RPC errors are thrown.
+ */
+async function findReceipt(
+  item: BatchItem,
+  lookups: Map<string, TransactionLookup>
+): Promise<TransactionReceipt | null> {
+  const lookup = await lookupItemTransaction(item, lookups);
+  if (lookup.state === 'mined') return lookup.receipt;
+  if (lookup.state === 'dropped') return null;
+
+  return publicClient.waitForTransactionReceipt({ hash: item.txHash as Hash });
+}
+
+// Items of one dropped tx whose nonce is still unused, re-sent at that nonce
+interface NonceResend {
+  nonce: number;
+  indexes: number[];
+}
+
+interface ReconcileResult {
+  retryIndexes: number[]; // Never sent, reverted, or their nonce was used by another tx
+  resends: NonceResend[]; // In nonce order
+}
+
+/**
+ * Settle items that may already have been sent before the batch was interrupted.
+ * Items with a recorded hash are resolved from their receipt; an item stuck in
+ * `executing` without a hash is never re-sent, since it may have been signed.
+ * A tx the node doesn't know may still be mined, so its items are only sent
+ * again at a fresh nonce once its own nonce was used by another tx; while the
+ * nonce is open they are re-sent at it, so at most one of the two is mined.
+ */
+async function reconcileBatchItems(
+  batch: Batch,
+  callbacks?: BatchExecutionCallbacks
+): Promise<ReconcileResult> {
+  const retryIndexes: number[] = [];
+  const resends = new Map<number, number[]>(); // nonce -> item indexes
+  const lookups = new Map<string, TransactionLookup>(); // Chunk items share a hash
+  let minedNonce: number | undefined; // Signer's mined tx count, fetched on first need
+
+  for (const item of batch.items) {
+    if (item.status === 'success' || item.status === 'skipped') continue;
+
+    if (item.txHash) {
+      const receipt = await findReceipt(item, lookups);
+      const minedUpdate = receipt ? getMinedTxUpdate(item, receipt) : {};
+
+      if (minedUpdate.status) {
+        // The user's cancel was mined: never re-send
+        await updateBatchItem(batch.id!, item.index, minedUpdate);
+        callbacks?.onItemFailed?.(item.index, minedUpdate.error!);
+        continue;
+      }
+
+      if (receipt?.status === 'success') {
+        const gasUsed = item.chunkIndex === undefined ? receipt.gasUsed.toString() : item.gasUsed;
+        await updateBatchItem(batch.id!, item.index, {
+          ...minedUpdate,
+          status: 'success',
+          gasUsed,
+          ...(gasUsed ? getFeePaid(receipt, gasUsed) : {}),
+          error: undefined,
+          completedAt: Date.now(),
+        });
+        callbacks?.onItemComplete?.(item.index, receipt.transactionHash, gasUsed ?? '0');
+        continue;
+      }
+
+      // Reverted: nothing was delivered, so it can be retried
+      if (receipt) {
+        retryIndexes.push(item.index);
+        continue;
+      }
+
+      if (item.nonce === undefined) {
+        const error = 'Transaction not found and its nonce was not recorded. Check the explorer before sending again.';
+        await updateBatchItem(batch.id!, item.index, { status: 'failed', error, completedAt: Date.now() });
+        callbacks?.onItemFailed?.(item.index, error);
+        continue;
+      }
+
+      minedNonce ??= await publicClient.getTransactionCount({
+        address: batch.signerAddress as Address,
+        blockTag: 'latest',
+      });
+      if (item.nonce < minedNonce) {
+        // Another tx took the nonce, so the dropped one can never be mined
+        retryIndexes.push(item.index);
+      } else {
+        resends.set(item.nonce, [...(resends.get(item.nonce) ?? []), item.index]);
+      }
+      continue;
+    }
+
+    if (item.status === 'executing') {
+      const error = 'Interrupted before a transaction hash was recorded. Check the explorer before sending again.';
+      await updateBatchItem(batch.id!, item.index, {
+        status: 'skipped',
+        error,
+        completedAt: Date.now(),
+      });
+      callbacks?.onItemFailed?.(item.index, error);
+      continue;
+    }
+
+    retryIndexes.push(item.index);
+  }
+
+  return {
+    retryIndexes,
+    resends: Array.from(resends.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([nonce, indexes]) => ({ nonce, indexes })),
+  };
+}
+
+/**
+ * Resume a pending, paused or interrupted batch of any BatchType.
+ * Already-sent items are reconciled against their tx hash first, so a
+ * recipient is never paid twice.
+ */
+export async function resumeBatch(
+  batchId: number,
+  walletClient: WalletClient,
+  callbacks?: BatchExecutionCallbacks
+): Promise<void> {
+  const batch = await getBatch(batchId);
+  if (!batch) throw new Error('Batch not found');
+
+  const executor = BATCH_EXECUTORS[batch.type];
+  if (!executor) throw new Error(`Unsupported batch type: ${batch.type}`);
+
+  await runBatch(
+    batchId,
+    async () => {
+      const { retryIndexes, resends } = await reconcileBatchItems(batch, callbacks);
+
+      for (const { nonce, indexes } of resends) {
+        const items = indexes.map((index) => batch.items[index].data);
+        const sent = await resendAtNonce(
+          batchId,
+          indexes,
+          nonce,
+          (overrides) =>
+            batch.items[indexes[0]].chunkIndex !== undefined && executor.contract
+              ? executor.contract.sendChunk(batch, walletClient, items, overrides)
+              : executor.sendItem(batch, walletClient, items[0], overrides),
+          callbacks
+        );
+        if (!sent) return false;
+      }
+      if (retryIndexes.length === 0) return true;
+
+      const entries = retryIndexes.map((index) => ({ index, item: batch.items[index].data }));
+
+      if (batch.metadata?.mode === 'contract' && executor.contract) {
+        const { prepare, plan, sendChunk } = executor.contract;
+        const chunkSize = batch.metadata.chunkSize as number | undefined;
+        const firstChunkIndex =
+          Math.max(-1, ...batch.items.map((item) => item.chunkIndex ?? -1)) + 1;
+
+        await prepare(batch, walletClient, entries.map((e) => e.item));
+        return executeChunks(
+          batchId,
+          plan(entries, chunkSize),
+          (items, overrides) => sendChunk(batch, walletClient, items, overrides),
+          callbacks,
+          firstChunkIndex
+        );
+      }
+
+      if (batch.metadata?.mode === 'pipelined') {
+        // Numbering restarts from the pending nonce, after anything the last run broadcast
+        return executePipelined(
+          batchId,
+          entries,
+          {
+            signerAddress: batch.signerAddress,
+            walletClient,
+            sendItem: (item, overrides) => executor.sendItem(batch, walletClient, item, overrides),
+            maxInFlight: batch.metadata.maxInFlight as number | undefined,
+          },
+          callbacks
+        );
+      }
+
+      return executeSequential(
+        batchId,
+        entries,
+        (item, overrides) => executor.sendItem(batch, walletClient, item, overrides),
+        callbacks
+      );
+    },
+    callbacks
+  );
+}
+
+/**
+ * Resume a paused/failed NFT transfer batch
+ * @deprecated Use resumeBatch, which handles every BatchType
+ */
+export async function resumeNFTTransfers(
+  batchId: number,
+  walletClient: WalletClient,
+  callbacks?: BatchExecutionCallbacks
+): Promise<void> {
+  return resumeBatch(batchId, walletClient, callbacks);
+}
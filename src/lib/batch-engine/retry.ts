@@ -0,0 +1,199 @@
+import { type Address, type WalletClient } from 'viem';
+import { getPublicClient } from '@/lib/chain';
+import {
+  type Batch,
+  type BatchExecutionCallbacks,
+  type BatchExecutionMode,
+  type DisperseExecutionOptions,
+  type DisperseItem,
+  type NFTTransferItem,
+  type PreflightResult,
+} from './types';
+import { getBatch, updateBatchItem } from './batch-store';
+import { lookupItemTransaction, type TransactionLookup } from './reconciler';
+import { getMinedTxUpdate } from './replacement';
+import { getFeePaid, parseFeeOptions } from './fees';
+import { preflightNFTTransfers, executeNFTTransfers } from './nft-transfer';
+import {
+  preflightDisperseMon,
+  preflightDisperseERC20,
+  executeDisperseMon,
+  executeDisperseERC20,
+} from './disperse';
+
+const publicClient = getPublicClient();
+
+export interface RetryPlan {
+  parentBatchId: number;
+  items: Record<string, unknown>[]; // Items that passed preflight, in parent order
+  itemIndexes: number[]; // Parent item index of each entry in `items`
+  checkedIndexes: number[]; // Parent item index for each preflight result index
+  preflight: PreflightResult;
+  confirmed: number; // "Failed" items whose tx turned out to be mined
+  stillPending: number; // Items whose tx may still be mined or couldn't be looked up; not retried
+}
+
+/**
+ * Execution options of the parent batch, so the retry runs the same way
+ */
+function getExecutionOptions(batch: Batch, parentItemIndexes?: number[]): DisperseExecutionOptions {
+  const metadata = batch.metadata ?? {};
+  return {
+    mode: metadata.mode as BatchExecutionMode | undefined,
+    chunkSize: metadata.chunkSize as number | undefined,
+    maxInFlight: metadata.maxInFlight as number | undefined,
+    fees: parseFeeOptions(metadata),
+    parentBatchId: batch.id,
+    parentItemIndexes,
+  };
+}
+
+/**
+ * Re-run preflight for a parent batch's failed items, dispatched on BatchType
+ */
+async function preflightItems(batch: Batch, items: Record<string, unknown>[]): Promise<PreflightResult> {
+  const options = getExecutionOptions(batch);
+
+  switch (batch.type) {
+    case 'TRANSFER_NFT':
+      return preflightNFTTransfers(items as unknown as NFTTransferItem[], batch.signerAddress, options);
+    case 'DISPERSE_MON':
+      return preflightDisperseMon(items as unknown as DisperseItem[], batch.signerAddress, options);
+    case 'DISPERSE_ERC20':
+      return preflightDisperseERC20(
+        items as unknown as DisperseItem[],
+        batch.signerAddress,
+        String(batch.metadata?.tokenAddress),
+        options
+      );
+  }
+}
+
+/**
+ * Collect a batch's failed items and re-run preflight on them.
+ * A failed item that has a tx hash may still have been mined (e.g. the receipt
+ * wait timed out), so its hashes are checked first and it is only retried if
+ * nothing was delivered. A tx the node doesn't know can still be mined while its
+ * nonce is unused, so, as on resume, it is only retried once another tx took that nonce.
+ */
+export async function planRetry(batchId: number): Promise<RetryPlan> {
+  const batch = await getBatch(batchId);
+  if (!batch) throw new Error('Batch not found');
+
+  const candidates: number[] = [];
+  const lookups = new Map<string, TransactionLookup>();
+  let confirmed = 0;
+  let stillPending = 0;
+  let minedNonce: number | undefined; // Signer's mined tx count, fetched on first need
+
+  for (const item of batch.items) {
+    // Items a retry batch already took over are that batch's to retry
+    if (item.status !== 'failed' || item.retriedInBatchId !== undefined) continue;
+
+    if (item.txHash) {
+      // An RPC error leaves the outcome unknown, so the item is not retried yet
+      const lookup = await lookupItemTransaction(item, lookups).catch(() => null);
+      if (!lookup || lookup.state === 'pending') {
+        stillPending++;
+        continue;
+      }
+      if (lookup.state === 'dropped') {
+        if (item.nonce !== undefined) {
+          minedNonce ??= await publicClient.getTransactionCount({
+            address: batch.signerAddress as Address,
+            blockTag: 'latest',
+          });
+        }
+        if (item.nonce === undefined || item.nonce >= minedNonce!) {
+          stillPending++;
+          continue;
+        }
+      }
+      if (lookup.state === 'mined' && lookup.receipt.status === 'success') {
+        const update = getMinedTxUpdate(item, lookup.receipt);
+        if (!update.status) {
+          const gasUsed = item.chunkIndex === undefined ? lookup.receipt.gasUsed.toString() : item.gasUsed;
+          await updateBatchItem(batchId, item.index, {
+            ...update,
+            status: 'success',
+            gasUsed,
+            ...(gasUsed ? getFeePaid(lookup.receipt, gasUsed) : {}),
+            error: undefined,
+          });
+          confirmed++;
+          continue;
+        }
+      }
+    }
+
+    candidates.push(item.index);
+  }
+
+  const candidateItems = candidates.map((index) => batch.items[index].data);
+  const preflight = candidateItems.length > 0
+    ? await preflightItems(batch, candidateItems)
+    : { valid: true, errors: [], estimatedGas: 0n, estimatedTotal: 0n, itemResults: [] };
+
+  const validResults = preflight.itemResults.filter((r) => r.valid);
+  return {
+    parentBatchId: batchId,
+    items: validResults.map((r) => candidateItems[r.index]),
+    itemIndexes: validResults.map((r) => candidates[r.index]),
+    checkedIndexes: candidates,
+    preflight,
+    confirmed,
+    stillPending,
+  };
+}
+
+/**
+ * Run a retry plan as a new batch linked to its parent via `metadata.parentBatchId`.
+ * Returns the child batch ID.
+ */
+export async function executeRetry(
+  plan: RetryPlan,
+  walletClient: WalletClient,
+  callbacks?: BatchExecutionCallbacks
+): Promise<number> {
+  const parent = await getBatch(plan.parentBatchId);
+  if (!parent) throw new Error('Batch not found');
+  if (plan.items.length === 0) throw new Error('No failed items passed preflight');
+
+  const blocking = plan.preflight.errors.filter((e) => e.index === -1);
+  if (blocking.length > 0) throw new Error(blocking[0].message);
+
+  // Re-check the parent: another retry may have taken these items over since planning
+  if (plan.itemIndexes.some((index) => parent.items[index].retriedInBatchId !== undefined)) {
+    throw new Error('These items were already retried; plan the retry again');
+  }
+
+  const options = getExecutionOptions(parent, plan.itemIndexes);
+
+  switch (parent.type) {
+    case 'TRANSFER_NFT':
+      return executeNFTTransfers(
+        plan.items as unknown as NFTTransferItem[],
+        parent.signerAddress,
+        walletClient,
+        callbacks,
+        options
+      );
+    case 'DISPERSE_MON':
+      return executeDisperseMon(
+        plan.items as unknown as DisperseItem[],
+        parent.signerAddress,
+        walletClient,
+        callbacks,
+        options
+      );
+    case 'DISPERSE_ERC20':
+      return executeDisperseERC20(
+        plan.items as unknown as DisperseItem[],
+        parent.signerAddress,
+        String(parent.metadata?.tokenAddress),
+        walletClient,
+        callbacks,
+        options
+      );
+  }
+}
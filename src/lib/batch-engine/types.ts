@@ -1,15 +1,23 @@
 export type BatchStatus = 'pending' | 'simulating' | 'executing' | 'paused' | 'completed' | 'failed';
 export type BatchType = 'TRANSFER_NFT' | 'DISPERSE_MON' | 'DISPERSE_ERC20';
-export type BatchItemStatus = 'pending' | 'simulating' | 'executing' | 'success' | 'failed' | 'skipped';
+export type BatchItemStatus = 'pending' | 'simulating' | 'executing' | 'submitted' | 'success' | 'failed' | 'skipped';
 
 export interface BatchItem {
   index: number;
   status: BatchItemStatus;
   data: Record<string, unknown>;
-  txHash?: string;
+  txHash?: string; // Stored as soon as the wallet returns it ('submitted')
+  replacedTxHashes?: string[]; // Earlier hashes at the same nonce (speed-up/cancel)
+  cancelTxHash?: string; // Set when the user sent a cancel tx at this item's nonce
   error?: string;
   gasUsed?: string;
+  effectiveGasPrice?: string; // Wei per gas actually paid
+  feePaid?: string; // gasUsed * effectiveGasPrice, in wei
+  submittedAt?: number;
   completedAt?: number;
+  chunkIndex?: number; // Set when the item was sent as part of a multi-recipient tx
+  nonce?: number; // Nonce the item's tx was sent at; lets a resume tell whether a dropped tx can still mine
+  retriedInBatchId?: number; // Set on a failed item once a retry batch took it over
 }
 
 export interface Batch {
@@ -24,21 +32,64 @@ export interface Batch {
   metadata?: Record<string, unknown>;
 }
 
+// Execution modes
+// 'sequential' sends one tx per item and waits for each receipt,
+// 'pipelined' sends one tx per item with local nonces and several in flight,
+// 'contract' chunks items through a batch contract
+export type BatchExecutionMode = 'sequential' | 'pipelined' | 'contract';
+
+export interface BatchExecutionOptions {
+  mode?: BatchExecutionMode;
+  maxInFlight?: number; // Unconfirmed txs allowed at once (pipelined mode only)
+  fees?: BatchFeeOptions; // Omit to let the wallet pick fees
+  parentBatchId?: number; // Set when this batch retries another batch's failed items
+  parentItemIndexes?: number[]; // Parent item index of each item, with parentBatchId
+}
+
+// Fee strategy
+// Presets derive EIP-1559 fees from the latest base fee at each send;
+// 'custom' uses the given maxFeePerGas/maxPriorityFeePerGas as-is
+export type FeeStrategy = 'slow' | 'normal' | 'fast' | 'custom';
+
+export interface BatchFeeOptions {
+  strategy?: FeeStrategy;
+  maxFeePerGas?: bigint; // Required for 'custom'
+  maxPriorityFeePerGas?: bigint; // Required for 'custom'
+  maxBaseFeePerGas?: bigint; // Ceiling: the batch pauses while base fee is above this
+}
+
+// Per-transaction overrides handed to send helpers
+export interface TxOverrides {
+  nonce?: number;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
 // NFT Transfer specific
 export interface NFTTransferItem {
-  to: string;
+  to: string; // Always a hex address; names are resolved before the batch is created
+  toName?: string; // Name the recipient was entered as, for display only
   tokenId: string;
   amount?: number; // For ERC-1155
   collectionAddress: string;
   collectionType: 'ERC721' | 'ERC1155';
 }
 
+export interface NFTTransferExecutionOptions extends BatchExecutionOptions {
+  chunkSize?: number; // Transfers per BatchNFTTransfer call (contract mode only)
+}
+
 // Disperse specific
 export interface DisperseItem {
-  to: string;
+  to: string; // Always a hex address; names are resolved before the batch is created
+  toName?: string; // Name the recipient was entered as, for display only
   amount: string; // In wei for MON, smallest unit for ERC20
 }
 
+export interface DisperseExecutionOptions extends BatchExecutionOptions {
+  chunkSize?: number; // Recipients per Disperse call (contract mode only)
+}
+
 export interface DisperseERC20Metadata {
   tokenAddress: string;
   tokenSymbol: string;
@@ -52,6 +103,13 @@ export interface PreflightResult {
   estimatedGas: bigint;
   estimatedTotal: bigint;
   itemResults: PreflightItemResult[];
+  approvals?: ApprovalStep[]; // Approvals the user must sign before the batch can run
+}
+
+export interface ApprovalStep {
+  collectionAddress: string;
+  collectionType: 'ERC721' | 'ERC1155';
+  operator: string;
 }
 
 export interface PreflightError {
@@ -69,7 +127,8 @@ export interface PreflightItemResult {
 // Batch execution callbacks
 export interface BatchExecutionCallbacks {
   onItemStart?: (index: number) => void;
-  onItemComplete?: (index: number, txHash: string, gasUsed: string) => void;
+  onItemSubmitted?: (index: number, txHash: string) => void; // Wallet returned a hash
+  onItemComplete?: (index: number, txHash: string, gasUsed: string) => void; // Receipt confirmed
   onItemFailed?: (index: number, error: string) => void;
   onBatchComplete?: () => void;
   onBatchFailed?: (error: string) => void;
@@ -325,6 +325,99 @@ export const ERC20_ABI = [
   },
 ] as const;
 
+// Disperse ABI (MonOps batch MON/ERC-20 sender)
+export const DISPERSE_ABI = [
+  {
+    type: 'event',
+    name: 'EtherDispersed',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'recipientCount', type: 'uint256', indexed: false },
+      { name: 'totalAmount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'TokenDispersed',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'recipientCount', type: 'uint256', indexed: false },
+      { name: 'totalAmount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'MAX_BATCH_SIZE',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'disperseEther',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'recipients', type: 'address[]' },
+      { name: 'values', type: 'uint256[]' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'disperseToken',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'recipients', type: 'address[]' },
+      { name: 'values', type: 'uint256[]' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+// BatchNFTTransfer ABI (MonOps operator-approved batch NFT mover)
+export const BATCH_NFT_TRANSFER_ABI = [
+  {
+    type: 'event',
+    name: 'BatchTransferred',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'transferCount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'MAX_BATCH_SIZE',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'batchTransferERC721',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'collections', type: 'address[]' },
+      { name: 'recipients', type: 'address[]' },
+      { name: 'tokenIds', type: 'uint256[]' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'batchTransferERC1155',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'collections', type: 'address[]' },
+      { name: 'recipients', type: 'address[]' },
+      { name: 'ids', type: 'uint256[]' },
+      { name: 'amounts', type: 'uint256[]' },
+    ],
+    outputs: [],
+  },
+] as const;
+
 // Interface IDs
 export const INTERFACE_IDS = {
   ERC721: '0x80ac58cd',
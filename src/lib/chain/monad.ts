@@ -29,6 +29,13 @@ export const monadMainnet = defineChain({
       url: 'https://monadvision.com',
     },
   },
+  contracts: {
+    // Lets `batch: { multicall: true }` clients aggregate reads; older blocks fall back to plain calls
+    multicall3: {
+      address: '0xcA11bde05977b3631167028862bE2a173976CA11',
+      blockCreated: 9_248_132,
+    },
+  },
 });
 
 // Network guardrail constants
@@ -53,6 +60,10 @@ export const DEFAULT_SCAN_BLOCK_RANGE = Number(
   process.env.NEXT_PUBLIC_SCAN_BLOCK_RANGE || '500000'
 );
 export const MAX_LOGS_PER_REQUEST = 10_000;
+// Blocks behind the head that may still be reorged; synced blocks within it are re-checked
+export const CONFIRMATION_DEPTH = Number(
+  process.env.NEXT_PUBLIC_CONFIRMATION_DEPTH || '20'
+);
 
 /**
  * Check if the provided chain ID matches Monad mainnet
@@ -4,3 +4,7 @@ import { type Address } from 'viem';
 // Single source of truth — all pages import from here
 export const TOKEN_STREAM_ADDRESS: Address = '0x45060bA620768a20c792E60fbc6161344cA22a12';
 export const TOKEN_LOCK_ADDRESS: Address = '0xC4Ca03a135B6dE0Dba430e28de5fe9C10cA99CB0';
+
+// Batch helper contracts — null until deployed; contract-mode batches refuse to run without them
+export const DISPERSE_ADDRESS: Address | null = null;
+export const BATCH_NFT_TRANSFER_ADDRESS: Address | null = null;
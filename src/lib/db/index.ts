@@ -4,11 +4,20 @@ import Dexie, { type Table } from 'dexie';
 // Types
 // ============================================================================
 
-export interface StoredWallet {
+export interface AddressBookEntry {
   id?: number;
-  address: string;
+  address: string; // Lowercase
   label: string;
-  isConnected: boolean;
+  tags: string[]; // Lowercase, deduplicated
+  notes?: string;
+  firstSeenAt: number; // When the address was added to the book
+  lastUsedAt?: number; // Last time it was a recipient of a transfer, batch or stream
+}
+
+export interface WatchedWallet {
+  id?: number;
+  address: string; // Lowercase
+  label?: string;
   addedAt: number;
 }
 
@@ -20,8 +29,10 @@ export interface WatchedCollection {
   type: 'ERC721' | 'ERC1155';
   walletAddress: string;
   addedAt: number;
-  lastSyncBlock?: number;
+  lastSyncBlock?: number; // Set once the on-chain scanner owns this collection's holdings
   lastSyncAt?: number;
+  source?: 'manual' | 'sync'; // Added by the user, or discovered by wallet sync
+  customName?: boolean; // Name was set by the user; wallet sync leaves it alone
 }
 
 export interface NFTHolding {
@@ -46,21 +57,30 @@ export interface TransferEvent {
   blockNumber: number;
   transactionHash: string;
   logIndex: number;
+  blockHash?: string; // Checked against the canonical chain for reorgs
   timestamp?: number;
 }
 
 export type BatchStatus = 'pending' | 'simulating' | 'executing' | 'paused' | 'completed' | 'failed';
 export type BatchType = 'TRANSFER_NFT' | 'DISPERSE_MON' | 'DISPERSE_ERC20';
-export type BatchItemStatus = 'pending' | 'simulating' | 'executing' | 'success' | 'failed' | 'skipped';
+export type BatchItemStatus = 'pending' | 'simulating' | 'executing' | 'submitted' | 'success' | 'failed' | 'skipped';
 
 export interface BatchItem {
   index: number;
   status: BatchItemStatus;
   data: Record<string, unknown>;
-  txHash?: string;
+  txHash?: string; // Stored as soon as the wallet returns it ('submitted')
+  replacedTxHashes?: string[]; // Earlier hashes at the same nonce (speed-up/cancel)
+  cancelTxHash?: string; // Set when the user sent a cancel tx at this item's nonce
   error?: string;
   gasUsed?: string;
+  effectiveGasPrice?: string; // Wei per gas actually paid
+  feePaid?: string; // gasUsed * effectiveGasPrice, in wei
+  submittedAt?: number;
   completedAt?: number;
+  chunkIndex?: number; // Set when the item was sent as part of a multi-recipient tx
+  nonce?: number; // Nonce the item's tx was sent at; lets a resume tell whether a dropped tx can still mine
+  retriedInBatchId?: number; // Set on a failed item once a retry batch took it over
 }
 
 export interface Batch {
@@ -100,6 +120,39 @@ export interface StoredToken {
   lastUpdatedAt: number;
 }
 
+export type SnapshotStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+// A holder snapshot built in the browser; its owners live in `snapshotTokens`
+export interface StoredSnapshot {
+  id?: number;
+  collectionAddress: string; // Lowercase
+  name: string;
+  blockNumber: number;
+  blockTimestamp: number;
+  discovery: 'enumerable' | 'mints'; // Where token ids come from
+  totalSupply?: number; // Enumerable: ids are tokenByIndex(0..totalSupply-1)
+  deployBlock?: number; // Mints: ids come from mint logs since this block
+  nextIndex: number; // Enumerable: next tokenByIndex index to read
+  nextBlock?: number; // Mints: next block of mint logs to read
+  nextLogIndex?: number; // Mints: logs of `nextBlock` up to this index were already read
+  lastTokenId?: string; // Last token id whose owner was stored
+  scannedTokens: number;
+  failedTokens: number; // RPC errors; the owner is unknown
+  burnedTokens: number; // ownerOf reverted at the snapshot block
+  failedRanges: number; // Mint log ranges that could not be read
+  status: SnapshotStatus;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface SnapshotToken {
+  snapshotId: number;
+  tokenId: string;
+  owner: string; // Lowercase
+}
+
 // ============================================================================
 // Database Class
 // ============================================================================
@@ -112,6 +165,10 @@ export class MonOpsDB extends Dexie {
   syncState!: Table<SyncState>;
   settings!: Table<AppSettings>;
   tokens!: Table<StoredToken>;
+  addressBook!: Table<AddressBookEntry>;
+  watchedWallets!: Table<WatchedWallet>;
+  snapshots!: Table<StoredSnapshot>;
+  snapshotTokens!: Table<SnapshotToken>;
 
   constructor() {
     super('monops');
@@ -127,6 +184,22 @@ export class MonOpsDB extends Dexie {
       settings: '++id, &key',
       tokens: '++id, address, walletAddress, symbol, [walletAddress+address]',
     });
+
+    // Version 6: Address book (labels, tags and notes for recipient addresses)
+    this.version(6).stores({
+      addressBook: '++id, &address, label, *tags, lastUsedAt',
+    });
+
+    // Version 7: Read-only watched wallets, synced alongside the connected wallet
+    this.version(7).stores({
+      watchedWallets: '++id, &address, addedAt',
+    });
+
+    // Version 8: Browser-built holder snapshots, resumable after a reload
+    this.version(8).stores({
+      snapshots: '++id, collectionAddress, status, createdAt',
+      snapshotTokens: '[snapshotId+tokenId], snapshotId, [snapshotId+owner]',
+    });
   }
 }
 
@@ -26,7 +26,8 @@ export interface PlanLimits {
   maxBatchSize: number;
   maxExportRows: number;
   maxWatchedCollections: number;
-  maxStoredWallets: number;
+  maxAddressBookEntries: number;
+  maxWatchedWallets: number;
 }
 
 export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
@@ -34,13 +35,15 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     maxBatchSize: 10,
     maxExportRows: 100,
     maxWatchedCollections: 3,
-    maxStoredWallets: 5,
+    maxAddressBookEntries: 5,
+    maxWatchedWallets: 2,
   },
   supporter: {
     maxBatchSize: 1000,
     maxExportRows: 10000,
     maxWatchedCollections: 50,
-    maxStoredWallets: 100,
+    maxAddressBookEntries: 100,
+    maxWatchedWallets: 25,
   },
 };
 
@@ -0,0 +1,85 @@
+import Papa from 'papaparse';
+import { type Address, getAddress } from 'viem';
+import { isValidAddress } from '@/lib/utils';
+import type { NameResolver } from './types';
+
+const STORAGE_KEY = 'monops_address_book_file';
+
+export interface AddressBookFile {
+  filename: string;
+  loadedAt: number;
+  entries: Record<string, Address>; // Lowercase name -> checksummed address
+}
+
+/**
+ * Parse an address-book file: JSON `{ "name": "0x..." }`, JSON `[{ name, address }]`
+ * or CSV `name,address` (header optional). Invalid entries are skipped.
+ */
+export function parseAddressBookFile(text: string): Record<string, Address> {
+  const entries: Record<string, Address> = {};
+  const add = (name: unknown, address: unknown) => {
+    if (typeof name !== 'string' || typeof address !== 'string') return;
+    const key = name.trim().toLowerCase();
+    if (key && isValidAddress(address.trim())) entries[key] = getAddress(address.trim());
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json: unknown = JSON.parse(trimmed);
+    if (Array.isArray(json)) {
+      for (const entry of json) {
+        if (entry && typeof entry === 'object') add(entry.name, entry.address);
+      }
+    } else if (json && typeof json === 'object') {
+      for (const [name, address] of Object.entries(json)) add(name, address);
+    }
+    return entries;
+  }
+
+  const parsed = Papa.parse<string[]>(trimmed, { skipEmptyLines: 'greedy' });
+  for (const [name, address] of parsed.data) add(name, address);
+  return entries;
+}
+
+export function getAddressBookFile(): AddressBookFile | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load an address-book file into this browser, replacing any previous one
+ */
+export async function loadAddressBookFile(file: File): Promise<AddressBookFile> {
+  const entries = parseAddressBookFile(await file.text());
+  if (Object.keys(entries).length === 0) {
+    throw new Error('No valid name,address entries found');
+  }
+
+  const book: AddressBookFile = { filename: file.name, loadedAt: Date.now(), entries };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(book));
+  return book;
+}
+
+export function clearAddressBookFile(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Resolver backed by the loaded address-book file; re-reads storage on each lookup
+ * so a newly loaded file applies without re-registering
+ */
+export function createAddressBookFileResolver(): NameResolver {
+  const lookup = (name: string) => getAddressBookFile()?.entries[name.trim().toLowerCase()] ?? null;
+
+  return {
+    id: 'address-book-file',
+    label: 'Address book',
+    supports: (name) => lookup(name) !== null,
+    resolve: async (name) => lookup(name),
+  };
+}
@@ -0,0 +1,19 @@
+import { getAddress } from 'viem';
+import { db } from '@/lib/db';
+import type { NameResolver } from './types';
+
+/**
+ * Resolver backed by the address-book table: a saved label resolves to its address.
+ * Labels are matched case-insensitively; an ambiguous label resolves to nothing.
+ */
+export function createAddressBookTableResolver(): NameResolver {
+  return {
+    id: 'address-book',
+    label: 'Saved label',
+    supports: () => true,
+    async resolve(name) {
+      const matches = await db.addressBook.where('label').equalsIgnoreCase(name.trim()).toArray();
+      return matches.length === 1 ? getAddress(matches[0].address) : null;
+    },
+  };
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './resolver';
+export * from './name-service';
+export * from './address-book-file';
+export * from './address-book-table';
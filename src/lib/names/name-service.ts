@@ -0,0 +1,69 @@
+import { type Address, parseAbi, zeroAddress, getAddress } from 'viem';
+import { namehash, normalize } from 'viem/ens';
+import { getPublicClient } from '@/lib/chain/client';
+import type { NameResolver } from './types';
+
+// ENS-compatible registry/resolver interface, which Monad name services expose
+const REGISTRY_ABI = parseAbi(['function resolver(bytes32 node) view returns (address)']);
+const RESOLVER_ABI = parseAbi(['function addr(bytes32 node) view returns (address)']);
+
+export interface NameServiceConfig {
+  id: string;
+  label: string;
+  registryAddress: Address;
+  suffixes: string[]; // e.g. ['.mon']
+}
+
+/**
+ * Resolver for an ENS-style name service contract: registry -> resolver -> addr(node)
+ */
+export function createNameServiceResolver(config: NameServiceConfig): NameResolver {
+  const suffixes = config.suffixes.map((s) => s.toLowerCase());
+
+  return {
+    id: config.id,
+    label: config.label,
+    supports: (name) => suffixes.some((suffix) => name.toLowerCase().endsWith(suffix)),
+    async resolve(name) {
+      const client = getPublicClient();
+      const node = namehash(normalize(name));
+
+      const resolver = await client.readContract({
+        address: config.registryAddress,
+        abi: REGISTRY_ABI,
+        functionName: 'resolver',
+        args: [node],
+      });
+      if (resolver === zeroAddress) return null;
+
+      const address = await client.readContract({
+        address: resolver,
+        abi: RESOLVER_ABI,
+        functionName: 'addr',
+        args: [node],
+      });
+      return address === zeroAddress ? null : getAddress(address);
+    },
+  };
+}
+
+/**
+ * Name service configured via NEXT_PUBLIC_NAME_REGISTRY_ADDRESS, if any
+ */
+export function getConfiguredNameService(): NameServiceConfig | null {
+  const registryAddress = process.env.NEXT_PUBLIC_NAME_REGISTRY_ADDRESS;
+  if (!registryAddress || !/^0x[a-fA-F0-9]{40}$/.test(registryAddress)) return null;
+
+  const suffixes = (process.env.NEXT_PUBLIC_NAME_SUFFIXES || '.mon')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => (s.startsWith('.') ? s : `.${s}`));
+
+  return {
+    id: 'name-service',
+    label: process.env.NEXT_PUBLIC_NAME_SERVICE_LABEL || 'Name service',
+    registryAddress: registryAddress as Address,
+    suffixes,
+  };
+}
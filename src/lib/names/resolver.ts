@@ -0,0 +1,110 @@
+import { getAddress } from 'viem';
+import { isValidAddress, chunk } from '@/lib/utils';
+import type { NameResolver, RecipientResolution, ResolvedName } from './types';
+import { createAddressBookTableResolver } from './address-book-table';
+import { createAddressBookFileResolver } from './address-book-file';
+import { createNameServiceResolver, getConfiguredNameService } from './name-service';
+
+// Parallel lookups when resolving an imported list
+const RESOLVE_CONCURRENCY = 10;
+
+const resolvers: NameResolver[] = [];
+let defaultsRegistered = false;
+
+/**
+ * The user's own labels first (saved address book, then a loaded address-book file),
+ * then the configured name service
+ */
+function registerDefaultResolvers(): void {
+  if (defaultsRegistered) return;
+  defaultsRegistered = true;
+
+  resolvers.push(createAddressBookTableResolver());
+  resolvers.push(createAddressBookFileResolver());
+  const nameService = getConfiguredNameService();
+  if (nameService) resolvers.push(createNameServiceResolver(nameService));
+}
+
+/**
+ * Add a resolver, replacing any registered under the same ID
+ */
+export function registerNameResolver(resolver: NameResolver): void {
+  registerDefaultResolvers();
+  const existing = resolvers.findIndex((r) => r.id === resolver.id);
+  if (existing >= 0) resolvers[existing] = resolver;
+  else resolvers.push(resolver);
+}
+
+export function getNameResolvers(): readonly NameResolver[] {
+  registerDefaultResolvers();
+  return resolvers;
+}
+
+/**
+ * True for anything that should go through name resolution rather than address validation
+ */
+export function isNameInput(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.length > 0 && !/^0x/i.test(trimmed);
+}
+
+/**
+ * Resolve a name with the first resolver that supports it and returns an address
+ */
+export async function resolveName(name: string): Promise<ResolvedName | null> {
+  const trimmed = name.trim();
+
+  for (const resolver of getNameResolvers()) {
+    if (!resolver.supports(trimmed)) continue;
+    try {
+      const address = await resolver.resolve(trimmed);
+      if (address) {
+        return {
+          name: trimmed,
+          address: getAddress(address),
+          resolverId: resolver.id,
+          resolverLabel: resolver.label,
+        };
+      }
+    } catch (error) {
+      console.warn(`Name resolver ${resolver.id} failed for ${trimmed}:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a recipient field: hex addresses pass through, names are looked up
+ */
+export async function resolveRecipient(input: string): Promise<RecipientResolution> {
+  const trimmed = input.trim();
+  if (!trimmed) return { input: trimmed };
+
+  if (!isNameInput(trimmed)) {
+    return isValidAddress(trimmed)
+      ? { input: trimmed, address: getAddress(trimmed) }
+      : { input: trimmed, error: 'Invalid address' };
+  }
+
+  const resolved = await resolveName(trimmed);
+  return resolved
+    ? { input: trimmed, address: resolved.address, name: resolved.name, resolverLabel: resolved.resolverLabel }
+    : { input: trimmed, name: trimmed, error: `Could not resolve "${trimmed}"` };
+}
+
+/**
+ * Resolve many names at once (deduplicated, case-insensitive).
+ * Returns lowercase name -> resolution, null when no resolver knows the name.
+ */
+export async function resolveNames(names: string[]): Promise<Map<string, ResolvedName | null>> {
+  const unique = Array.from(new Set(names.map((n) => n.trim().toLowerCase()).filter(Boolean)));
+  const results = new Map<string, ResolvedName | null>();
+
+  for (const group of chunk(unique, RESOLVE_CONCURRENCY)) {
+    const resolved = await Promise.all(group.map(resolveName));
+    group.forEach((name, j) => results.set(name, resolved[j]));
+  }
+
+  return results;
+}
@@ -0,0 +1,30 @@
+import { type Address } from 'viem';
+
+/**
+ * A source of name -> address mappings. Resolvers are tried in registration
+ * order; the first one that supports a name and returns an address wins.
+ */
+export interface NameResolver {
+  id: string;
+  label: string; // Shown next to resolved names, e.g. "Address book"
+  supports(name: string): boolean;
+  resolve(name: string): Promise<Address | null>;
+}
+
+export interface ResolvedName {
+  name: string; // As entered, trimmed
+  address: Address; // Checksummed
+  resolverId: string;
+  resolverLabel: string;
+}
+
+/**
+ * A recipient field after resolution: either a hex address, a resolved name or an error
+ */
+export interface RecipientResolution {
+  input: string;
+  address?: Address;
+  name?: string; // Only set when the input was a name
+  resolverLabel?: string;
+  error?: string;
+}
@@ -0,0 +1,63 @@
+import { type Address, type PublicClient } from 'viem';
+
+// Binary searches over block heights. They take the client so API routes can pass their own.
+
+/**
+ * Block a contract was created in, by binary-searching `getCode` over block heights.
+ * Needs an RPC that serves historical state.
+ */
+export async function searchDeployBlock(
+  client: PublicClient,
+  address: Address,
+  latestBlock?: bigint
+): Promise<bigint> {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await client.getCode({ address, blockNumber });
+    return !!code && code !== '0x';
+  };
+
+  const head = latestBlock ?? (await client.getBlockNumber());
+  if (!(await hasCode(head))) {
+    throw new Error(`No contract code at ${address}`);
+  }
+
+  let low = 0n;
+  let high = head;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if (await hasCode(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1n;
+    }
+  }
+  return low;
+}
+
+/**
+ * Last block mined at or before a unix timestamp (seconds), by binary search over
+ * block timestamps. Timestamps past the head resolve to the head.
+ */
+export async function findBlockByTimestamp(client: PublicClient, timestamp: number): Promise<bigint> {
+  const target = BigInt(Math.floor(timestamp));
+  const head = await client.getBlock();
+  if (target >= head.timestamp) return head.number;
+
+  const genesis = await client.getBlock({ blockNumber: 0n });
+  if (target < genesis.timestamp) {
+    throw new Error('Timestamp is before the first block');
+  }
+
+  let low = 0n;
+  let high = head.number;
+  while (low < high) {
+    const mid = (low + high + 1n) / 2n;
+    const block = await client.getBlock({ blockNumber: mid });
+    if (block.timestamp <= target) {
+      low = mid;
+    } else {
+      high = mid - 1n;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,20 @@
+import { type Address } from 'viem';
+import { getPublicClient } from '@/lib/chain/client';
+import { getSyncState, setSyncState } from '@/lib/db';
+import { searchDeployBlock } from './block-search';
+
+function deployBlockKey(address: string): string {
+  return `deploy_block_${address.toLowerCase()}`;
+}
+
+/**
+ * Deploy block of a contract, cached in syncState since it never changes
+ */
+export async function findDeployBlock(address: Address, latestBlock?: bigint): Promise<bigint> {
+  const cached = await getSyncState<number>(deployBlockKey(address));
+  if (cached !== undefined) return BigInt(cached);
+
+  const deployBlock = await searchDeployBlock(getPublicClient(), address, latestBlock);
+  await setSyncState(deployBlockKey(address), Number(deployBlock));
+  return deployBlock;
+}
@@ -1 +1,5 @@
 export * from './token-scanner';
+export * from './log-scanner';
+export * from './deploy-block';
+export * from './block-search';
+export * from './mint-scanner';
@@ -0,0 +1,155 @@
+import {
+  BaseError,
+  HttpRequestError,
+  LimitExceededRpcError,
+  TimeoutError,
+} from 'viem';
+import { MAX_LOGS_PER_REQUEST } from '@/lib/chain/monad';
+import { sleep } from '@/lib/utils';
+
+export interface BlockRange {
+  from: bigint;
+  to: bigint;
+}
+
+export interface LogScanProgress {
+  scannedBlocks: bigint; // Blocks fetched or given up on so far
+  totalBlocks: bigint;
+  itemsFound: number;
+  rangeSize: bigint; // Current adaptive window
+}
+
+export interface LogScanOptions<T> {
+  fromBlock: bigint;
+  toBlock: bigint;
+  // Fetch and decode one block range; throw to have the range retried or split
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+  initialRange?: bigint;
+  minRange?: bigint;
+  maxRange?: bigint;
+  concurrency?: number; // Ranges in flight at once
+  maxRetries?: number; // Retries per range for errors that aren't about size
+  onProgress?: (progress: LogScanProgress) => void;
+  signal?: AbortSignal; // Stops handing out ranges; the scan then rejects with an AbortError
+}
+
+export interface LogScanResult<T> {
+  items: T[];
+  failedRanges: BlockRange[]; // Ranges still failing after retries, in no particular order
+}
+
+export const DEFAULT_LOG_RANGE = 10_000n;
+export const MIN_LOG_RANGE = 100n;
+export const MAX_LOG_RANGE = 200_000n;
+export const DEFAULT_LOG_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_MS = 250;
+
+// A range that returned fewer logs than this lets the window double
+const SPARSE_LOG_COUNT = MAX_LOGS_PER_REQUEST / 10;
+
+// Provider wordings for "too many results" / "range too wide" / timeouts
+const RANGE_ERROR_PATTERN =
+  /too many|more than \d+ results|limit exceeded|exceeds? (the )?(max|limit)|response (is )?too (large|big)|response size|block range|range (is )?too (large|wide)|timed? ?out/i;
+
+/**
+ * Whether a getLogs failure means the range asked for too much, so splitting it can help
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  const matches = (e: unknown) =>
+    e instanceof TimeoutError ||
+    e instanceof LimitExceededRpcError ||
+    (e instanceof HttpRequestError && e.status === 413);
+  if (matches(error)) return true;
+  if (error instanceof BaseError && error.walk(matches)) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return RANGE_ERROR_PATTERN.test(message);
+}
+
+function rangeSize(range: BlockRange): bigint {
+  return range.to - range.from + 1n;
+}
+
+/**
+ * Scan a block span in adaptive windows with a bounded number of ranges in flight.
+ * The window halves when a range is too large (its halves are re-queued) and doubles
+ * after sparse ranges. Other errors are retried per range with backoff; a range that
+ * keeps failing is reported in `failedRanges` instead of failing the scan.
+ */
+export async function scanLogs<T>(options: LogScanOptions<T>): Promise<LogScanResult<T>> {
+  const { fromBlock, toBlock, fetchRange, onProgress, signal } = options;
+  const minRange = options.minRange ?? MIN_LOG_RANGE;
+  const maxRange = options.maxRange ?? MAX_LOG_RANGE;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_LOG_CONCURRENCY);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const items: T[] = [];
+  const failedRanges: BlockRange[] = [];
+  if (toBlock < fromBlock) return { items, failedRanges };
+
+  const totalBlocks = toBlock - fromBlock + 1n;
+  let window = options.initialRange ?? DEFAULT_LOG_RANGE;
+  window = window < minRange ? minRange : window > maxRange ? maxRange : window;
+  let cursor = fromBlock;
+  let scannedBlocks = 0n;
+  const pending: BlockRange[] = []; // Halves of split ranges, scanned before new ranges
+
+  const report = () =>
+    onProgress?.({ scannedBlocks, totalBlocks, itemsFound: items.length, rangeSize: window });
+
+  const nextRange = (): BlockRange | undefined => {
+    if (signal?.aborted) return undefined;
+    const split = pending.shift();
+    if (split) return split;
+    if (cursor > toBlock) return undefined;
+    const end = cursor + window - 1n > toBlock ? toBlock : cursor + window - 1n;
+    const range = { from: cursor, to: end };
+    cursor = end + 1n;
+    return range;
+  };
+
+  const scanRange = async (range: BlockRange) => {
+    const size = rangeSize(range);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const found = await fetchRange(range.from, range.to);
+        for (const item of found) items.push(item);
+        scannedBlocks += size;
+        if (found.length < SPARSE_LOG_COUNT && size >= window && window < maxRange) {
+          window = window * 2n > maxRange ? maxRange : window * 2n;
+        }
+        report();
+        return;
+      } catch (error) {
+        if (isRangeTooLargeError(error) && size > minRange) {
+          const half = size / 2n;
+          window = half < minRange ? minRange : half < window ? half : window;
+          pending.push({ from: range.from, to: range.from + half - 1n }, { from: range.from + half, to: range.to });
+          return;
+        }
+        if (attempt >= maxRetries) {
+          console.error(`[LogScanner] Giving up on blocks ${range.from}-${range.to}:`, error);
+          failedRanges.push(range);
+          scannedBlocks += size;
+          report();
+          return;
+        }
+        await sleep(RETRY_BASE_MS * 2 ** attempt);
+      }
+    }
+  };
+
+  // Workers pull ranges until none are left; split halves queued meanwhile are
+  // picked up by whichever worker is still running
+  const worker = async () => {
+    for (let range = nextRange(); range; range = nextRange()) {
+      await scanRange(range);
+    }
+  };
+
+  report();
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  if (signal?.aborted) throw new DOMException('Log scan aborted', 'AbortError');
+
+  return { items, failedRanges };
+}
@@ -0,0 +1,99 @@
+import { type Address, type PublicClient, parseAbiItem, zeroAddress } from 'viem';
+import { scanLogs, type BlockRange, type LogScanProgress } from './log-scanner';
+
+// Mint-log discovery of token ids. Takes the client so API routes can pass their own.
+
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+);
+
+// Where a mint scan continues: logs of `block` up to `logIndex` were already taken
+export interface MintPosition {
+  block: bigint;
+  logIndex?: number;
+}
+
+export interface MintScanOptions {
+  from: MintPosition;
+  toBlock: bigint;
+  maxTokens: number; // Stops at the mint log that reaches this many ids, even inside a segment
+  segmentBlocks: bigint; // Blocks scanned per scanLogs call
+  onProgress?: (progress: LogScanProgress) => void; // Blocks counted from `from.block`
+  signal?: AbortSignal;
+}
+
+export interface MintScanResult {
+  tokenIds: bigint[];
+  failedRanges: BlockRange[];
+  next: MintPosition | null; // Null once `toBlock` was scanned
+}
+
+interface MintLog {
+  block: bigint;
+  logIndex: number;
+  tokenId: bigint;
+}
+
+/**
+ * Ids minted (Transfer from the zero address) from `from` on, in block segments, up to
+ * `maxTokens` ids. Logs are taken in chain order, so the returned position splits a
+ * segment exactly where the limit was reached and the next scan resumes after that log.
+ */
+export async function scanMints(
+  client: PublicClient,
+  address: Address,
+  options: MintScanOptions
+): Promise<MintScanResult> {
+  const { toBlock, maxTokens, segmentBlocks, onProgress, signal } = options;
+  const tokenIds = new Set<bigint>();
+  const failedRanges: BlockRange[] = [];
+  let next: MintPosition = options.from;
+
+  while (next.block <= toBlock && tokenIds.size < maxTokens) {
+    const start = next.block;
+    const after = next.logIndex ?? -1;
+    const to = start + segmentBlocks - 1n > toBlock ? toBlock : start + segmentBlocks - 1n;
+    const result = await scanLogs<MintLog>({
+      fromBlock: start,
+      toBlock: to,
+      fetchRange: async (fromBlock, toBlock) => {
+        const logs = await client.getLogs({
+          address,
+          event: TRANSFER_EVENT,
+          args: { from: zeroAddress },
+          fromBlock,
+          toBlock,
+        });
+        return logs.flatMap((log) =>
+          log.args.tokenId !== undefined && log.blockNumber !== null && log.logIndex !== null
+            ? [{ block: log.blockNumber, logIndex: log.logIndex, tokenId: log.args.tokenId }]
+            : []
+        );
+      },
+      onProgress: onProgress && ((progress) =>
+        onProgress({
+          ...progress,
+          scannedBlocks: start - options.from.block + progress.scannedBlocks,
+          totalBlocks: toBlock - options.from.block + 1n,
+        })),
+      signal,
+    });
+
+    const logs = result.items
+      .filter((log) => log.block > start || log.logIndex > after)
+      .sort((a, b) => (a.block === b.block ? a.logIndex - b.logIndex : a.block < b.block ? -1 : 1));
+
+    next = { block: to + 1n };
+    for (let i = 0; i < logs.length; i++) {
+      tokenIds.add(logs[i].tokenId);
+      if (tokenIds.size >= maxTokens && i < logs.length - 1) {
+        next = { block: logs[i].block, logIndex: logs[i].logIndex };
+        break;
+      }
+    }
+    // Ranges past the split are scanned again by the next call
+    failedRanges.push(...result.failedRanges.filter((range) => range.from < next.block));
+  }
+
+  return { tokenIds: Array.from(tokenIds), failedRanges, next: next.block <= toBlock ? next : null };
+}
@@ -1,5 +1,6 @@
 import { getPublicClient } from '@/lib/chain/client';
 import { type Address, erc20Abi, formatUnits, parseAbiItem } from 'viem';
+import { scanLogs } from './log-scanner';
 
 export interface TokenBalance {
   address: Address;
@@ -32,15 +33,26 @@ export async function findWalletTokens(
   onProgress?.('Scanning for token transfers...');
 
   // Get all Transfer events TO this wallet
-  const logs = await client.getLogs({
-    event: TRANSFER_EVENT,
-    args: { to: walletAddress },
+  const { items, failedRanges } = await scanLogs({
     fromBlock,
     toBlock: currentBlock,
+    fetchRange: async (from, to) => {
+      const logs = await client.getLogs({
+        event: TRANSFER_EVENT,
+        args: { to: walletAddress },
+        fromBlock: from,
+        toBlock: to,
+      });
+      return logs.map((log) => log.address as Address);
+    },
   });
 
+  if (failedRanges.length > 0) {
+    onProgress?.(`${failedRanges.length} block range(s) could not be scanned — token list may be incomplete`);
+  }
+
   // Extract unique token contract addresses
-  const tokenAddresses = [...new Set(logs.map((log) => log.address as Address))];
+  const tokenAddresses = [...new Set(items)];
 
   onProgress?.(`Found ${tokenAddresses.length} potential tokens`);
 
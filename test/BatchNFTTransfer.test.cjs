@@ -0,0 +1,213 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("BatchNFTTransfer", function () {
+  let batchTransfer;
+  let collectionA;
+  let collectionB;
+  let multiToken;
+  let owner;
+  let addr1;
+  let addr2;
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    // Deploy mock collections
+    const MockERC721 = await ethers.getContractFactory("MockERC721");
+    collectionA = await MockERC721.deploy("Collection A", "A");
+    await collectionA.waitForDeployment();
+    collectionB = await MockERC721.deploy("Collection B", "B");
+    await collectionB.waitForDeployment();
+
+    const MockERC1155 = await ethers.getContractFactory("MockERC1155");
+    multiToken = await MockERC1155.deploy();
+    await multiToken.waitForDeployment();
+
+    // Deploy BatchNFTTransfer
+    const BatchNFTTransfer = await ethers.getContractFactory("BatchNFTTransfer");
+    batchTransfer = await BatchNFTTransfer.deploy();
+    await batchTransfer.waitForDeployment();
+
+    // Mint to owner
+    for (let id = 1; id <= 3; id++) {
+      await collectionA.mint(owner.address, id);
+      await collectionB.mint(owner.address, id);
+    }
+    await multiToken.mint(owner.address, 1, 100);
+    await multiToken.mint(owner.address, 2, 50);
+  });
+
+  describe("Deployment", function () {
+    it("Should expose MAX_BATCH_SIZE", async function () {
+      expect(await batchTransfer.MAX_BATCH_SIZE()).to.equal(100);
+    });
+  });
+
+  describe("batchTransferERC721", function () {
+    beforeEach(async function () {
+      const operator = await batchTransfer.getAddress();
+      await collectionA.setApprovalForAll(operator, true);
+      await collectionB.setApprovalForAll(operator, true);
+    });
+
+    it("Should transfer tokens across collections and recipients", async function () {
+      const a = await collectionA.getAddress();
+      const b = await collectionB.getAddress();
+
+      await batchTransfer.batchTransferERC721(
+        [a, a, b],
+        [addr1.address, addr2.address, addr1.address],
+        [1, 2, 3]
+      );
+
+      expect(await collectionA.ownerOf(1)).to.equal(addr1.address);
+      expect(await collectionA.ownerOf(2)).to.equal(addr2.address);
+      expect(await collectionB.ownerOf(3)).to.equal(addr1.address);
+      expect(await collectionA.ownerOf(3)).to.equal(owner.address);
+    });
+
+    it("Should emit BatchTransferred event", async function () {
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721([a, a], [addr1.address, addr2.address], [1, 2])
+      )
+        .to.emit(batchTransfer, "BatchTransferred")
+        .withArgs(owner.address, 2);
+    });
+
+    it("Should revert without operator approval", async function () {
+      await collectionA.setApprovalForAll(await batchTransfer.getAddress(), false);
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721([a], [addr1.address], [1])
+      ).to.be.reverted;
+    });
+
+    it("Should not move tokens owned by someone else", async function () {
+      const a = await collectionA.getAddress();
+      await collectionA.mint(addr2.address, 10);
+      await collectionA.connect(addr2).setApprovalForAll(await batchTransfer.getAddress(), true);
+
+      await expect(
+        batchTransfer.batchTransferERC721([a], [addr1.address], [10])
+      ).to.be.reverted;
+      expect(await collectionA.ownerOf(10)).to.equal(addr2.address);
+    });
+
+    it("Should revert the whole batch if one transfer fails", async function () {
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721([a, a], [addr1.address, addr1.address], [1, 99])
+      ).to.be.reverted;
+      expect(await collectionA.ownerOf(1)).to.equal(owner.address);
+    });
+
+    it("Should revert with array length mismatch", async function () {
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721([a, a], [addr1.address], [1, 2])
+      ).to.be.revertedWith("Array length mismatch");
+    });
+
+    it("Should revert with empty batch", async function () {
+      await expect(
+        batchTransfer.batchTransferERC721([], [], [])
+      ).to.be.revertedWith("Empty batch");
+    });
+
+    it("Should revert with batch too large (>100)", async function () {
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721(
+          Array(101).fill(a),
+          Array(101).fill(addr1.address),
+          Array.from({ length: 101 }, (_, i) => i)
+        )
+      ).to.be.revertedWith("Batch too large");
+    });
+
+    it("Should revert with invalid recipient (zero address)", async function () {
+      const a = await collectionA.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC721([a], [ethers.ZeroAddress], [1])
+      ).to.be.revertedWith("Invalid recipient");
+    });
+  });
+
+  describe("batchTransferERC1155", function () {
+    beforeEach(async function () {
+      await multiToken.setApprovalForAll(await batchTransfer.getAddress(), true);
+    });
+
+    it("Should transfer quantities to multiple recipients", async function () {
+      const m = await multiToken.getAddress();
+
+      await batchTransfer.batchTransferERC1155(
+        [m, m, m],
+        [addr1.address, addr2.address, addr1.address],
+        [1, 1, 2],
+        [10, 20, 5]
+      );
+
+      expect(await multiToken.balanceOf(addr1.address, 1)).to.equal(10);
+      expect(await multiToken.balanceOf(addr2.address, 1)).to.equal(20);
+      expect(await multiToken.balanceOf(addr1.address, 2)).to.equal(5);
+      expect(await multiToken.balanceOf(owner.address, 1)).to.equal(70);
+    });
+
+    it("Should emit BatchTransferred event", async function () {
+      const m = await multiToken.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC1155([m], [addr1.address], [1], [10])
+      )
+        .to.emit(batchTransfer, "BatchTransferred")
+        .withArgs(owner.address, 1);
+    });
+
+    it("Should revert with insufficient balance", async function () {
+      const m = await multiToken.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC1155([m], [addr1.address], [2], [51])
+      ).to.be.reverted;
+    });
+
+    it("Should revert with zero amount", async function () {
+      const m = await multiToken.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC1155([m], [addr1.address], [1], [0])
+      ).to.be.revertedWith("Amount must be > 0");
+    });
+
+    it("Should revert with array length mismatch", async function () {
+      const m = await multiToken.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC1155([m], [addr1.address], [1, 2], [10])
+      ).to.be.revertedWith("Array length mismatch");
+    });
+
+    it("Should revert with empty batch", async function () {
+      await expect(
+        batchTransfer.batchTransferERC1155([], [], [], [])
+      ).to.be.revertedWith("Empty batch");
+    });
+
+    it("Should revert with invalid recipient (zero address)", async function () {
+      const m = await multiToken.getAddress();
+
+      await expect(
+        batchTransfer.batchTransferERC1155([m], [ethers.ZeroAddress], [1], [10])
+      ).to.be.revertedWith("Invalid recipient");
+    });
+  });
+});
@@ -0,0 +1,225 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("Disperse", function () {
+  let disperse;
+  let mockToken;
+  let owner;
+  let addr1;
+  let addr2;
+
+  const AMOUNT = ethers.parseEther("10");
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    // Deploy mock token
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    mockToken = await MockERC20.deploy("Test Token", "TEST", 18);
+    await mockToken.waitForDeployment();
+
+    // Deploy Disperse
+    const Disperse = await ethers.getContractFactory("Disperse");
+    disperse = await Disperse.deploy();
+    await disperse.waitForDeployment();
+
+    // Mint tokens to owner
+    await mockToken.mint(owner.address, ethers.parseEther("100000"));
+    await mockToken.approve(await disperse.getAddress(), ethers.parseEther("100000"));
+  });
+
+  describe("Deployment", function () {
+    it("Should expose MAX_BATCH_SIZE", async function () {
+      expect(await disperse.MAX_BATCH_SIZE()).to.equal(200);
+    });
+  });
+
+  describe("disperseEther", function () {
+    it("Should send MON to every recipient", async function () {
+      const balance1Before = await ethers.provider.getBalance(addr1.address);
+      const balance2Before = await ethers.provider.getBalance(addr2.address);
+
+      await disperse.disperseEther(
+        [addr1.address, addr2.address],
+        [AMOUNT, AMOUNT * 2n],
+        { value: AMOUNT * 3n }
+      );
+
+      expect(await ethers.provider.getBalance(addr1.address)).to.equal(balance1Before + AMOUNT);
+      expect(await ethers.provider.getBalance(addr2.address)).to.equal(balance2Before + AMOUNT * 2n);
+    });
+
+    it("Should not hold any MON after dispersing", async function () {
+      await disperse.disperseEther(
+        [addr1.address, addr2.address],
+        [AMOUNT, AMOUNT],
+        { value: AMOUNT * 2n }
+      );
+
+      expect(await ethers.provider.getBalance(await disperse.getAddress())).to.equal(0);
+    });
+
+    it("Should emit EtherDispersed event", async function () {
+      await expect(
+        disperse.disperseEther(
+          [addr1.address, addr2.address],
+          [AMOUNT, AMOUNT],
+          { value: AMOUNT * 2n }
+        )
+      )
+        .to.emit(disperse, "EtherDispersed")
+        .withArgs(owner.address, 2, AMOUNT * 2n);
+    });
+
+    it("Should revert when msg.value is too low", async function () {
+      await expect(
+        disperse.disperseEther(
+          [addr1.address, addr2.address],
+          [AMOUNT, AMOUNT],
+          { value: AMOUNT }
+        )
+      ).to.be.revertedWith("Incorrect value");
+    });
+
+    it("Should revert when msg.value is too high", async function () {
+      await expect(
+        disperse.disperseEther(
+          [addr1.address],
+          [AMOUNT],
+          { value: AMOUNT * 2n }
+        )
+      ).to.be.revertedWith("Incorrect value");
+    });
+
+    it("Should revert the whole batch if one recipient rejects MON", async function () {
+      const MockRejectEther = await ethers.getContractFactory("MockRejectEther");
+      const rejecter = await MockRejectEther.deploy();
+      await rejecter.waitForDeployment();
+
+      const balanceBefore = await ethers.provider.getBalance(addr1.address);
+
+      await expect(
+        disperse.disperseEther(
+          [addr1.address, await rejecter.getAddress()],
+          [AMOUNT, AMOUNT],
+          { value: AMOUNT * 2n }
+        )
+      ).to.be.revertedWith("Transfer failed");
+
+      expect(await ethers.provider.getBalance(addr1.address)).to.equal(balanceBefore);
+    });
+
+    it("Should revert with array length mismatch", async function () {
+      await expect(
+        disperse.disperseEther([addr1.address, addr2.address], [AMOUNT], { value: AMOUNT })
+      ).to.be.revertedWith("Array length mismatch");
+    });
+
+    it("Should revert with empty batch", async function () {
+      await expect(disperse.disperseEther([], [])).to.be.revertedWith("Empty batch");
+    });
+
+    it("Should revert with batch too large (>200)", async function () {
+      const recipients = Array(201).fill(addr1.address);
+      const values = Array(201).fill(1n);
+
+      await expect(
+        disperse.disperseEther(recipients, values, { value: 201n })
+      ).to.be.revertedWith("Batch too large");
+    });
+
+    it("Should revert with invalid recipient (zero address)", async function () {
+      await expect(
+        disperse.disperseEther([ethers.ZeroAddress], [AMOUNT], { value: AMOUNT })
+      ).to.be.revertedWith("Invalid recipient");
+    });
+
+    it("Should revert with zero amount", async function () {
+      await expect(
+        disperse.disperseEther([addr1.address, addr2.address], [AMOUNT, 0], { value: AMOUNT })
+      ).to.be.revertedWith("Amount must be > 0");
+    });
+  });
+
+  describe("disperseToken", function () {
+    it("Should send tokens to every recipient", async function () {
+      await disperse.disperseToken(
+        await mockToken.getAddress(),
+        [addr1.address, addr2.address],
+        [AMOUNT, AMOUNT * 2n]
+      );
+
+      expect(await mockToken.balanceOf(addr1.address)).to.equal(AMOUNT);
+      expect(await mockToken.balanceOf(addr2.address)).to.equal(AMOUNT * 2n);
+    });
+
+    it("Should not hold any tokens after dispersing", async function () {
+      await disperse.disperseToken(
+        await mockToken.getAddress(),
+        [addr1.address, addr2.address],
+        [AMOUNT, AMOUNT]
+      );
+
+      expect(await mockToken.balanceOf(await disperse.getAddress())).to.equal(0);
+    });
+
+    it("Should emit TokenDispersed event", async function () {
+      const tokenAddress = await mockToken.getAddress();
+
+      await expect(
+        disperse.disperseToken(tokenAddress, [addr1.address, addr2.address], [AMOUNT, AMOUNT])
+      )
+        .to.emit(disperse, "TokenDispersed")
+        .withArgs(owner.address, tokenAddress, 2, AMOUNT * 2n);
+    });
+
+    it("Should revert without sufficient allowance", async function () {
+      await mockToken.approve(await disperse.getAddress(), AMOUNT);
+
+      await expect(
+        disperse.disperseToken(
+          await mockToken.getAddress(),
+          [addr1.address, addr2.address],
+          [AMOUNT, AMOUNT]
+        )
+      ).to.be.revertedWith("Insufficient allowance");
+    });
+
+    it("Should revert with invalid token (zero address)", async function () {
+      await expect(
+        disperse.disperseToken(ethers.ZeroAddress, [addr1.address], [AMOUNT])
+      ).to.be.revertedWith("Invalid token");
+    });
+
+    it("Should revert with array length mismatch", async function () {
+      await expect(
+        disperse.disperseToken(
+          await mockToken.getAddress(),
+          [addr1.address, addr2.address],
+          [AMOUNT]
+        )
+      ).to.be.revertedWith("Array length mismatch");
+    });
+
+    it("Should revert with empty batch", async function () {
+      await expect(
+        disperse.disperseToken(await mockToken.getAddress(), [], [])
+      ).to.be.revertedWith("Empty batch");
+    });
+
+    it("Should revert with batch too large (>200)", async function () {
+      const recipients = Array(201).fill(addr1.address);
+      const values = Array(201).fill(1n);
+
+      await expect(
+        disperse.disperseToken(await mockToken.getAddress(), recipients, values)
+      ).to.be.revertedWith("Batch too large");
+    });
+
+    it("Should revert with invalid recipient (zero address)", async function () {
+      await expect(
+        disperse.disperseToken(await mockToken.getAddress(), [ethers.ZeroAddress], [AMOUNT])
+      ).to.be.revertedWith("Invalid recipient");
+    });
+  });
+});
@@ -0,0 +1,72 @@
+const { expect } = require("chai");
+
+// The scanner is TypeScript with `@/` paths; tsx compiles it on require
+require("tsx/cjs");
+const { scanMints } = require("../src/lib/scanner/mint-scanner.ts");
+
+const COLLECTION = "0x3333333333333333333333333333333333333333";
+
+/**
+ * Client whose getLogs serves `mints` ([block, logIndex, tokenId]) inside the asked range
+ */
+function fakeClient(mints) {
+  return {
+    getLogs: async ({ fromBlock, toBlock }) =>
+      mints
+        .filter(([block]) => BigInt(block) >= fromBlock && BigInt(block) <= toBlock)
+        .reverse() // Chain order must not depend on the RPC's order
+        .map(([block, logIndex, tokenId]) => ({
+          blockNumber: BigInt(block),
+          logIndex,
+          args: { tokenId: BigInt(tokenId) },
+        })),
+  };
+}
+
+function scan(mints, from, maxTokens) {
+  return scanMints(fakeClient(mints), COLLECTION, {
+    from,
+    toBlock: 1000n,
+    maxTokens,
+    segmentBlocks: 1000n,
+  });
+}
+
+describe("Mint scanner", function () {
+  const mints = [
+    [10, 0, 1],
+    [10, 1, 2],
+    [10, 2, 3],
+    [20, 0, 4],
+    [30, 5, 5],
+  ];
+
+  it("Should stop at the token limit inside a segment", async function () {
+    const result = await scan(mints, { block: 0n }, 2);
+    expect(result.tokenIds).to.deep.equal([1n, 2n]);
+    expect(result.next).to.deep.equal({ block: 10n, logIndex: 1 });
+  });
+
+  it("Should resume after the last log taken", async function () {
+    const result = await scan(mints, { block: 10n, logIndex: 1 }, 2);
+    expect(result.tokenIds).to.deep.equal([3n, 4n]);
+    expect(result.next).to.deep.equal({ block: 20n, logIndex: 0 });
+  });
+
+  it("Should finish when the last mint fills the limit", async function () {
+    const result = await scan(mints, { block: 20n, logIndex: 0 }, 1);
+    expect(result.tokenIds).to.deep.equal([5n]);
+    expect(result.next).to.equal(null);
+  });
+
+  it("Should cover every mint once across chunks", async function () {
+    const seen = [];
+    let from = { block: 0n };
+    while (from) {
+      const result = await scan(mints, from, 2);
+      seen.push(...result.tokenIds);
+      from = result.next;
+    }
+    expect(seen).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+  });
+});
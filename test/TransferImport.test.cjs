@@ -0,0 +1,249 @@
+const { expect } = require("chai");
+const zlib = require("zlib");
+const { DOMParser } = require("@xmldom/xmldom");
+
+// The importer is TypeScript with `@/` paths; tsx compiles it on require
+require("tsx/cjs");
+const {
+  parseImportText,
+  detectImportLayout,
+  importDisperseItems,
+  importNFTTransfers,
+} = require("../src/features/import/transfer-import.ts");
+const { readXLSXRows } = require("../src/features/import/xlsx-reader.ts");
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const COLLECTION_721 = "0x3333333333333333333333333333333333333333";
+const COLLECTION_1155 = "0x4444444444444444444444444444444444444444";
+
+function importDisperse(text, decimals = 18) {
+  const rows = parseImportText(text);
+  return importDisperseItems(rows, detectImportLayout(rows, "disperse"), { decimals, maxItems: 100 });
+}
+
+function importNFTs(text) {
+  const rows = parseImportText(text);
+  return importNFTTransfers(rows, detectImportLayout(rows, "nft"), {
+    collectionTypes: new Map([
+      [COLLECTION_721, "ERC721"],
+      [COLLECTION_1155, "ERC1155"],
+    ]),
+    maxItems: 100,
+  });
+}
+
+/**
+ * Build a zip archive; `deflate` entries are compressed, the rest stored
+ */
+function buildZip(files) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const { name, text, deflate } of files) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(text);
+    const data = deflate ? zlib.deflateRawSync(raw) : raw;
+    const crc = zlib.crc32 ? zlib.crc32(raw) : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  const zip = Buffer.concat([...locals, directory, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length);
+}
+
+const SHEET_NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+
+describe("Transfer import", function () {
+  describe("parseImportText", function () {
+    it("Should split comma, semicolon and tab separated rows", function () {
+      expect(parseImportText(`${ALICE},1\n${BOB},2`)).to.deep.equal([[ALICE, "1"], [BOB, "2"]]);
+      expect(parseImportText(`${ALICE};1\n${BOB};2`)).to.deep.equal([[ALICE, "1"], [BOB, "2"]]);
+      expect(parseImportText(`${ALICE}\t1\n${BOB}\t2`)).to.deep.equal([[ALICE, "1"], [BOB, "2"]]);
+    });
+
+    it("Should detect semicolons even when amounts use a decimal comma", function () {
+      expect(parseImportText(`address;amount\n${ALICE};1,5`)).to.deep.equal([
+        ["address", "amount"],
+        [ALICE, "1,5"],
+      ]);
+    });
+
+    it("Should keep blank lines so row numbers match the input", function () {
+      const rows = parseImportText(`\naddress,amount\n\n${ALICE},1\n`);
+      expect(rows).to.have.length(4);
+      expect(rows[3]).to.deep.equal([ALICE, "1"]);
+    });
+  });
+
+  describe("importDisperseItems", function () {
+    it("Should convert amounts to the smallest unit", function () {
+      const result = importDisperse(`address,amount\n${ALICE},1.5\n${BOB},2`, 6);
+      expect(result.errors).to.be.empty;
+      expect(result.items).to.deep.equal([
+        { to: ALICE, amount: "1500000" },
+        { to: BOB, amount: "2000000" },
+      ]);
+      expect(result.sourceRows).to.deep.equal([2, 3]);
+    });
+
+    it("Should reject a decimal comma instead of reading 1,5 as 15", function () {
+      const result = importDisperse(`address;amount\n${ALICE};1,5`);
+      expect(result.items).to.be.empty;
+      expect(result.errors).to.have.length(1);
+      expect(result.errors[0]).to.include({ row: 2, column: "amount" });
+    });
+
+    it("Should reject thousands separators", function () {
+      const result = importDisperse(`address,amount\n${ALICE},"1,000"`);
+      expect(result.items).to.be.empty;
+      expect(result.errors[0]).to.include({ row: 2, column: "amount" });
+    });
+
+    it("Should report invalid addresses and checksum mismatches", function () {
+      const badChecksum = "0x52908400098527886E0F7030069857D2E4169EE7".replace("E0F", "e0F");
+      const result = importDisperse(`address,amount\n0x1234,1\n${badChecksum},1\n${ALICE},1`);
+      expect(result.items).to.have.length(1);
+      expect(result.errors.map((e) => e.row)).to.deep.equal([2, 3]);
+      expect(result.errors[0].message).to.match(/Invalid address/);
+      expect(result.errors[1].message).to.match(/Checksum mismatch/);
+    });
+
+    it("Should warn on duplicate recipients", function () {
+      const result = importDisperse(`${ALICE},1\n${ALICE},2`);
+      expect(result.items).to.have.length(2);
+      expect(result.warnings[0]).to.include({ row: 2, column: "address" });
+    });
+
+    it("Should number rows from the source when blank lines are present", function () {
+      const result = importDisperse(`address,amount\n\n${ALICE},1\n\n${BOB},0`);
+      expect(result.sourceRows).to.deep.equal([3]);
+      expect(result.errors).to.have.length(1);
+      expect(result.errors[0]).to.include({ row: 5, column: "amount" });
+    });
+
+    it("Should cut items past the limit and count them", function () {
+      const rows = parseImportText(`${ALICE},1\n${BOB},1`);
+      const result = importDisperseItems(rows, detectImportLayout(rows, "disperse"), { decimals: 18, maxItems: 1 });
+      expect(result.items).to.have.length(1);
+      expect(result.truncated).to.equal(1);
+    });
+  });
+
+  describe("importNFTTransfers", function () {
+    it("Should read ERC-1155 amounts and default ERC-721 rows to one token", function () {
+      const result = importNFTs(
+        `address,tokenId,amount,collection\n${ALICE},7,,${COLLECTION_721}\n${BOB},9,25,${COLLECTION_1155}`
+      );
+      expect(result.errors).to.be.empty;
+      expect(result.items[0]).to.not.have.property("amount");
+      expect(result.items[1]).to.include({ tokenId: "9", amount: 25, collectionType: "ERC1155" });
+    });
+
+    it("Should reject ERC-1155 amounts past the safe integer range", function () {
+      const result = importNFTs(`address,tokenId,amount,collection\n${ALICE},1,9007199254740993,${COLLECTION_1155}`);
+      expect(result.items).to.be.empty;
+      expect(result.errors[0]).to.include({ row: 2, column: "amount" });
+    });
+
+    it("Should reject the same ERC-721 token twice", function () {
+      const result = importNFTs(
+        `address,tokenId,collection\n${ALICE},1,${COLLECTION_721}\n${BOB},1,${COLLECTION_721}`
+      );
+      expect(result.items).to.have.length(1);
+      expect(result.errors[0]).to.include({ row: 3, column: "tokenId" });
+    });
+
+    it("Should reject collections that are not synced", function () {
+      const result = importNFTs(`address,tokenId,collection\n${ALICE},1,${BOB}`);
+      expect(result.errors[0]).to.include({ row: 2, column: "collection" });
+    });
+  });
+
+  describe("readXLSXRows", function () {
+    before(function () {
+      global.DOMParser = DOMParser;
+    });
+
+    after(function () {
+      delete global.DOMParser;
+    });
+
+    const sharedStrings = `<sst ${SHEET_NS}><si><t>address</t></si><si><r><t>0x1111</t></r><r><t>111111111111111111111111111111111111</t></r></si></sst>`;
+    const sheet =
+      `<worksheet ${SHEET_NS}><sheetData>` +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>amount</t></is></c></row>' +
+      '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><v>1.5</v></c></row>' +
+      '<row r="4"><c r="C4" t="b"><v>1</v></c></row>' +
+      "</sheetData></worksheet>";
+
+    it("Should read shared, rich and inline strings, numbers and booleans", async function () {
+      const rows = await readXLSXRows(
+        buildZip([
+          { name: "xl/sharedStrings.xml", text: sharedStrings },
+          { name: "xl/worksheets/sheet1.xml", text: sheet, deflate: true },
+        ])
+      );
+      expect(rows[0]).to.deep.equal(["address", "amount"]);
+      expect(rows[2]).to.deep.equal([ALICE, "1.5"]);
+      expect(rows[3]).to.deep.equal(["", "", "TRUE"]);
+    });
+
+    it("Should keep blank rows so row numbers match the spreadsheet", async function () {
+      const rows = await readXLSXRows(
+        buildZip([
+          { name: "xl/sharedStrings.xml", text: sharedStrings, deflate: true },
+          { name: "xl/worksheets/sheet1.xml", text: sheet },
+        ])
+      );
+      expect(rows).to.have.length(4);
+      expect(rows[1]).to.deep.equal([]);
+
+      const result = importDisperseItems(rows, detectImportLayout(rows, "disperse"), { decimals: 18, maxItems: 10 });
+      expect(result.sourceRows).to.deep.equal([3]);
+    });
+
+    it("Should reject files that are not zip archives", async function () {
+      let error;
+      try {
+        await readXLSXRows(new TextEncoder().encode("address,amount").buffer);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.an("error");
+      expect(error.message).to.match(/Not a valid XLSX file/);
+    });
+  });
+});